@@ -0,0 +1,116 @@
+/**
+ * Landing page
+ * Lists the live rooms, registers or logs in, saves the session token and
+ * opens the chosen room
+ */
+
+interface AuthResponse {
+   token?: string;
+   username?: string;
+   role?: string;
+   error?: string;
+}
+
+interface RoomListing {
+   name: string;
+   displayName: string;
+   topic: string;
+   hasPassword: boolean;
+   maxMembers?: number;
+   memberCount: number;
+}
+
+const joinForm = document.getElementById("join-form") as HTMLFormElement;
+const authError = document.getElementById("auth-error") as HTMLParagraphElement;
+const roomSelect = document.getElementById("room") as HTMLSelectElement;
+const selectedRoomTopic = document.getElementById("room-topic") as HTMLParagraphElement;
+
+let listedRooms: RoomListing[] = [];
+
+/**
+ * Fill the room list with the live public rooms and their member counts
+ */
+async function loadRooms(): Promise<void> {
+   try {
+      const response = await fetch("/api/rooms");
+      const data: { rooms: RoomListing[] } = await response.json();
+      listedRooms = data.rooms;
+   } catch (err) {
+      console.error("Could not load rooms:", err);
+      return;
+   }
+
+   roomSelect.innerHTML = "";
+   for (const room of listedRooms) {
+      const option = document.createElement("option");
+      const capacity = room.maxMembers !== undefined ? `/${room.maxMembers}` : "";
+      const lock = room.hasPassword ? " \u{1F512}" : "";
+      option.value = room.name;
+      option.textContent = `${room.displayName} (${room.memberCount}${capacity} online)${lock}`;
+      roomSelect.appendChild(option);
+   }
+   showRoomTopic();
+}
+
+/**
+ * Show the selected room's topic under the list
+ */
+function showRoomTopic(): void {
+   const room = listedRooms.find(candidate => candidate.name === roomSelect.value);
+   selectedRoomTopic.textContent = room?.topic || "";
+}
+
+roomSelect.addEventListener("change", showRoomTopic);
+loadRooms();
+
+/**
+ * Handle login/register submission
+ * The submit button pressed decides which endpoint is called
+ */
+joinForm.addEventListener("submit", async (e: SubmitEvent) => {
+   e.preventDefault();
+
+   const submitter = e.submitter as HTMLButtonElement | null;
+   const mode = submitter?.value === "register" ? "register" : "login";
+   const fields = joinForm.elements;
+   const usernameValue = (fields.namedItem("username") as HTMLInputElement).value.trim();
+   const passwordValue = (fields.namedItem("password") as HTMLInputElement).value;
+   const customRoomValue = (fields.namedItem("roomCustom") as HTMLInputElement).value.trim();
+   const roomValue = customRoomValue || (fields.namedItem("room") as HTMLSelectElement).value;
+   const roomPasswordValue = (fields.namedItem("roomPassword") as HTMLInputElement).value;
+
+   try {
+      const response = await fetch(`/api/${mode}`, {
+         method: "POST",
+         headers: { "Content-Type": "application/json" },
+         body: JSON.stringify({ username: usernameValue, password: passwordValue }),
+      });
+      const data: AuthResponse = await response.json();
+
+      if (!response.ok || !data.token || !data.username) {
+         showAuthError(data.error || "Authentication failed");
+         return;
+      }
+
+      sessionStorage.setItem("xeroxchat.token", data.token);
+      sessionStorage.setItem("xeroxchat.username", data.username);
+      if (roomPasswordValue) {
+         sessionStorage.setItem("xeroxchat.roomPassword", roomPasswordValue);
+      } else {
+         sessionStorage.removeItem("xeroxchat.roomPassword");
+      }
+      window.location.href = `chat.html?room=${encodeURIComponent(roomValue)}`;
+   } catch (err) {
+      console.error("Authentication request failed:", err);
+      showAuthError("Could not reach the server");
+   }
+});
+
+/**
+ * Show an authentication error under the form
+ * @param message - Error text
+ */
+function showAuthError(message: string): void {
+   authError.textContent = message;
+   authError.style.display = "block";
+}
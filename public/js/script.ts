@@ -18,7 +18,117 @@ interface Message {
    text: string;
    time: string;
    edited?: boolean;
+   deleted?: boolean;
+   timestamp?: number;
    parentId?: string;
+   replyCount?: number;
+   reactions?: ReactionSummary[];
+   seenBy?: string[];
+}
+
+interface ThreadNode extends Message {
+   replies: ThreadNode[];
+}
+
+interface ThreadHistory {
+   thread: ThreadNode;
+   depth: number;
+}
+
+interface ReplyCount {
+   id: string;
+   replyCount: number;
+}
+
+interface ReadState {
+   room: string;
+   lastReadId?: string;
+   unreadCount: number;
+}
+
+interface ReactionSummary {
+   emoji: string;
+   count: number;
+   users: string[];
+}
+
+interface SearchResultsData {
+   query: string;
+   results: Array<{ message: Message; score: number; snippet: string }>;
+   total: number;
+}
+
+interface DiffPart {
+   type: "same" | "added" | "removed";
+   text: string;
+}
+
+interface EditHistoryData {
+   messageId: string;
+   author: string;
+   revisions: Array<{ text: string; time: string; diff: DiffPart[] }>;
+}
+
+interface MessagePage {
+   room: string;
+   messages: Message[];
+   hasMore: boolean;
+}
+
+interface DirectMessage {
+   id: string;
+   from: string;
+   to: string;
+   text: string;
+   time: string;
+   timestamp: number;
+}
+
+interface DirectMessagePage {
+   with: string;
+   messages: DirectMessage[];
+   hasMore: boolean;
+}
+
+interface RoomInfoData {
+   name: string;
+   displayName: string;
+   topic: string;
+}
+
+interface UserRoomsData {
+   active: string;
+   rooms: string[];
+}
+
+interface ErrorPayload {
+   code: "not-found" | "forbidden" | "conflict" | "validation" | "rate-limited" | "internal";
+   message: string;
+   field?: string;
+   retryAfterMs?: number;
+}
+
+interface ReviewItem {
+   id: string;
+   room: string;
+   messageId?: string;
+   author: string;
+   text: string;
+   reason: string;
+   reportedBy: string;
+   createdAt: number;
+   status: "open" | "dismissed" | "actioned";
+   assignee?: string;
+   notes: Array<{ author: string; text: string; createdAt: number }>;
+   resolution?: string;
+   resolvedBy?: string;
+   context: Message[];
+}
+
+interface ModerationQueueData {
+   room: string;
+   snapshot: boolean;
+   items: ReviewItem[];
 }
 
 interface RoomUsersData {
@@ -30,18 +140,73 @@ interface RoomUsersData {
 const chatForm = document.getElementById("chat-form") as HTMLFormElement;
 const chatMessages = document.querySelector(".chat-messages") as HTMLDivElement;
 const roomName = document.getElementById("room-name") as HTMLElement;
+const roomTopic = document.getElementById("room-topic") as HTMLParagraphElement;
 const userList = document.getElementById("users") as HTMLUListElement;
+const joinedRoomList = document.getElementById("joined-rooms") as HTMLUListElement;
 const userCount = document.getElementById("user-count") as HTMLElement;
+const msgInput = document.getElementById("msg") as HTMLInputElement;
+const typingIndicator = document.getElementById("typing-indicator") as HTMLParagraphElement;
+const dmConversationList = document.getElementById("dm-conversations") as HTMLUListElement;
+const dmPartnerHeading = document.getElementById("dm-partner") as HTMLElement;
+const dmMessages = document.getElementById("dm-messages") as HTMLDivElement;
+const dmForm = document.getElementById("dm-form") as HTMLFormElement;
+const dmInput = document.getElementById("dm-msg") as HTMLInputElement;
+const dmSendButton = dmForm.querySelector("button") as HTMLButtonElement;
+const chatSendButton = chatForm.querySelector("button") as HTMLButtonElement;
 
-// Get username and room from URL query parameters
+// Get room from URL query parameters and the session saved by the landing page
 const queryParams = Qs.parse(location.search, {
    ignoreQueryPrefix: true,
 });
-const username: string = queryParams.username as string;
 const room: string = queryParams.room as string;
+const sessionToken = sessionStorage.getItem("xeroxchat.token");
+const username = sessionStorage.getItem("xeroxchat.username") || "";
+const roomPassword = sessionStorage.getItem("xeroxchat.roomPassword") || undefined;
+sessionStorage.removeItem("xeroxchat.roomPassword");
+
+if (!sessionToken) {
+   window.location.href = "/";
+}
+
+// Initialize Socket.IO connection, authenticated with the session token
+const socket = io({ auth: { token: sessionToken || "" } });
 
-// Initialize Socket.IO connection
-const socket = io();
+// History pagination state
+let oldestMessageId: string | null = null;
+let hasMoreHistory = false;
+let loadingHistory = false;
+
+// Reactions offered by the picker on each message
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "😮", "😢"];
+
+// Typing indicator: typingStart is sent at most once per throttle window while typing,
+// and typingStop after a pause; the server expires typers that stop refreshing
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_IDLE_MS = 3000;
+let lastTypingStart = 0;
+let typingIdleTimer: number | null = null;
+
+// Read receipts: IDs seen since the last markRead, sent in batches while the tab is visible
+const MARK_READ_DELAY_MS = 500;
+const pendingReads = new Set<string>();
+let markReadTimer: number | null = null;
+
+// Rate limiting: chat sends are held until this time after a rate-limited error
+let chatSendHeldUntil = 0;
+const readObserver = new IntersectionObserver(onMessagesVisible, { root: chatMessages, threshold: 0.6 });
+
+// Direct message state: the open conversation and each partner's unread count (keyed lowercase)
+let activeDmPartner: string | null = null;
+const dmConversations = new Map<string, { username: string; unread: number }>();
+
+/**
+ * Handle rejected handshake (missing or expired session)
+ */
+socket.on("connect_error", (err: Error) => {
+   sessionStorage.removeItem("xeroxchat.token");
+   alert(err.message);
+   window.location.href = "/";
+});
 
 /**
  * Handle username error (duplicate username)
@@ -52,18 +217,88 @@ socket.on("usernameError", (msg: string) => {
 });
 
 /**
- * Emit join room event with username and room data
+ * Handle being banned from the room
+ */
+socket.on("banned", (msg: string) => {
+   alert(msg);
+   window.location.href = "/";
+});
+
+/**
+ * Emit join room event with username, room and the room password from the landing page
+ */
+socket.emit("joinRoom", { username, room, password: roomPassword });
+
+/**
+ * Handle the room's display name and topic (sent on join and when they change)
+ */
+socket.on("roomInfo", (data: RoomInfoData) => {
+   outputRoomName(data.displayName);
+   roomTopic.textContent = data.topic;
+
+   // Keep the address bar on the active room after /join or /leave
+   history.replaceState(null, "", `chat.html?room=${encodeURIComponent(data.name)}`);
+});
+
+/**
+ * Handle the list of rooms the user is in (sent on join and after /join or /leave)
  */
-socket.emit("joinRoom", { username, room });
+socket.on("userRooms", (data: UserRoomsData) => {
+   outputJoinedRooms(data);
+});
 
 /**
  * Handle room users update
  */
 socket.on("roomUsers", (data: RoomUsersData) => {
-   outputRoomName(data.room);
    outputUsers(data.users);
 });
 
+/**
+ * Handle the initial page of room history sent on join
+ */
+socket.on("roomHistory", (page: MessagePage) => {
+   // A new history page means the active room changed: start from an empty view
+   chatMessages.innerHTML = "";
+   readObserver.disconnect();
+   pendingReads.clear();
+   typingIndicator.textContent = "";
+   loadingHistory = false;
+
+   page.messages.forEach((message) => outputMessage(message));
+   updateHistoryState(page);
+
+   chatMessages.scrollTop = chatMessages.scrollHeight;
+});
+
+/**
+ * Handle an older page of history requested with loadOlder
+ */
+socket.on("olderMessages", (page: MessagePage) => {
+   // Keep the viewport anchored on the message the user was looking at
+   const previousHeight = chatMessages.scrollHeight;
+
+   for (let i = page.messages.length - 1; i >= 0; i--) {
+      outputMessage(page.messages[i], true);
+   }
+   updateHistoryState(page);
+   loadingHistory = false;
+
+   chatMessages.scrollTop = chatMessages.scrollHeight - previousHeight;
+});
+
+/**
+ * Request older history when the user scrolls to the top
+ */
+chatMessages.addEventListener("scroll", () => {
+   if (chatMessages.scrollTop > 0 || !hasMoreHistory || loadingHistory || !oldestMessageId) {
+      return;
+   }
+
+   loadingHistory = true;
+   socket.emit("loadOlder", { before: oldestMessageId });
+});
+
 /**
  * Handle incoming messages from server
  */
@@ -74,6 +309,116 @@ socket.on("message", (message: Message) => {
    chatMessages.scrollTop = chatMessages.scrollHeight;
 });
 
+/**
+ * Handle a reply: show it in its parent's thread if that thread is loaded,
+ * and update the reply counts up the thread
+ */
+socket.on("messageReply", (data: { message: Message; replyCounts: ReplyCount[] }) => {
+   const parentDiv = getMessageElement(data.message.parentId!);
+   if (parentDiv && parentDiv.dataset.thread !== "unloaded") {
+      const repliesDiv = parentDiv.querySelector(":scope > .thread-replies") as HTMLDivElement;
+      repliesDiv.appendChild(createMessageElement(data.message));
+   }
+   updateReplyCounts(data.replyCounts);
+});
+
+/**
+ * Handle a thread requested with loadThread: render its replies below the root
+ */
+socket.on("threadHistory", (history: ThreadHistory) => {
+   const rootDiv = getMessageElement(history.thread.id);
+   if (!rootDiv) {
+      return;
+   }
+
+   const repliesDiv = rootDiv.querySelector(":scope > .thread-replies") as HTMLDivElement;
+   repliesDiv.innerHTML = "";
+   outputThreadReplies(repliesDiv, history.thread.replies);
+   updateReplyCounts([{ id: history.thread.id, replyCount: history.thread.replyCount || 0 }]);
+   setThreadOpen(rootDiv, true);
+});
+
+/**
+ * Handle /help output (shown only to the user who asked)
+ */
+socket.on("commandHelp", (lines: string[]) => {
+   outputHelp(lines);
+   chatMessages.scrollTop = chatMessages.scrollHeight;
+});
+
+/**
+ * Handle /search results (sent only to this user)
+ */
+socket.on("searchResults", (data: SearchResultsData) => {
+   outputSearchResults(data);
+   chatMessages.scrollTop = chatMessages.scrollHeight;
+});
+
+/**
+ * Handle a message's edit history (sent only to this user)
+ */
+socket.on("editHistory", (data: EditHistoryData) => {
+   outputEditHistory(data);
+   chatMessages.scrollTop = chatMessages.scrollHeight;
+});
+
+/**
+ * Open a message's edit history from its "edited" badge
+ */
+chatMessages.addEventListener("click", (e: MouseEvent) => {
+   const badge = (e.target as HTMLElement).closest(".edited-badge");
+   const messageDiv = badge ? badge.closest(".message") as HTMLElement | null : null;
+   if (messageDiv && messageDiv.dataset.messageId) {
+      socket.emit("getEditHistory", { messageId: messageDiv.dataset.messageId });
+   }
+});
+
+/**
+ * Handle a private message sent or received by this user
+ */
+socket.on("privateMessage", (message: DirectMessage) => {
+   const partner = message.from.toLowerCase() === username.toLowerCase() ? message.to : message.from;
+   const conversation = getConversation(partner);
+
+   if (activeDmPartner && activeDmPartner.toLowerCase() === partner.toLowerCase()) {
+      outputDirectMessage(message);
+   } else {
+      conversation.unread++;
+      showNotification(`New private message from ${message.from}`);
+   }
+   outputConversations();
+});
+
+/**
+ * Handle the history of the conversation opened in the DM pane
+ */
+socket.on("directMessageHistory", (page: DirectMessagePage) => {
+   if (!activeDmPartner || activeDmPartner.toLowerCase() !== page.with.toLowerCase()) {
+      return;
+   }
+
+   activeDmPartner = page.with;
+   dmPartnerHeading.textContent = `Chat with ${page.with}`;
+   dmMessages.innerHTML = "";
+   page.messages.forEach((message) => outputDirectMessage(message));
+});
+
+/**
+ * Send a private message from the DM pane
+ */
+dmForm.addEventListener("submit", (e: SubmitEvent) => {
+   e.preventDefault();
+
+   if (!activeDmPartner) {
+      return;
+   }
+
+   socket.emit("privateMessage", { to: activeDmPartner, text: dmInput.value });
+
+   dmInput.value = "";
+   dmInput.focus();
+});
+
 /**
  * Handle message edits from server
  */
@@ -92,6 +437,7 @@ socket.on("messageEdited", (data: { id: string; text: string; edited: boolean; t
          const editedBadge = document.createElement("span");
          editedBadge.className = "edited-badge";
          editedBadge.textContent = "edited";
+         editedBadge.title = "Show edit history";
          if (copyBtn) {
             metaElement.insertBefore(editedBadge, copyBtn);
          }
@@ -99,10 +445,67 @@ socket.on("messageEdited", (data: { id: string; text: string; edited: boolean; t
    }
 });
 
+/**
+ * Handle updated reaction counts for a message
+ */
+socket.on("reactionToggled", (data: { id: string; reactions: ReactionSummary[] }) => {
+   const messageDiv = document.querySelector(`[data-message-id="${data.id}"]`) as HTMLDivElement;
+   if (messageDiv) {
+      outputReactions(messageDiv, data.id, data.reactions);
+   }
+});
+
+/**
+ * Handle the user's read position, sent after room history on join
+ */
+socket.on("readState", (state: ReadState) => {
+   if (state.unreadCount === 0) {
+      return;
+   }
+
+   // Mark where unread messages start, just after the last one the user read
+   const divider = document.createElement("div");
+   divider.classList.add("unread-divider");
+   divider.textContent = `${state.unreadCount} unread message${state.unreadCount === 1 ? "" : "s"}`;
+
+   const lastRead = state.lastReadId
+      ? document.querySelector(`[data-message-id="${state.lastReadId}"]`)
+      : null;
+   if (lastRead) {
+      lastRead.after(divider);
+      divider.scrollIntoView({ block: "center" });
+   } else {
+      chatMessages.insertBefore(divider, chatMessages.firstChild);
+   }
+
+   showNotification(`${divider.textContent} since your last visit`);
+});
+
+/**
+ * Handle updated "seen by" lists for messages in the room
+ */
+socket.on("seenBy", (updates: Array<{ id: string; seenBy: string[] }>) => {
+   for (const update of updates) {
+      const messageDiv = document.querySelector(`[data-message-id="${update.id}"]`) as HTMLDivElement;
+      if (messageDiv) {
+         outputSeenBy(messageDiv, update.seenBy);
+      }
+   }
+});
+
+/**
+ * Send batched read receipts once the tab becomes visible again
+ */
+document.addEventListener("visibilitychange", () => {
+   if (document.visibilityState === "visible" && pendingReads.size > 0) {
+      scheduleMarkRead();
+   }
+});
+
 /**
  * Handle message deletes from server
  */
-socket.on("messageDeleted", (data: { id: string }) => {
+socket.on("messageDeleted", (data: { id: string; replyCounts: ReplyCount[] }) => {
    const messageDiv = document.querySelector(`[data-message-id="${data.id}"]`) as HTMLDivElement;
    if (messageDiv) {
       messageDiv.style.opacity = "0";
@@ -111,14 +514,57 @@ socket.on("messageDeleted", (data: { id: string }) => {
          messageDiv.remove();
       }, 300);
    }
+   updateReplyCounts(data.replyCounts || []);
+});
+
+/**
+ * Handle a deleted message being restored (by its author's /undo or a moderator)
+ */
+socket.on("messageRestored", (data: { message: Message; replyCounts: ReplyCount[] }) => {
+   const restored = createMessageElement(data.message);
+   const existing = getMessageElement(data.message.id);
+
+   if (existing) {
+      // Replace the tombstone, keeping any thread already loaded below it
+      if (existing.dataset.thread !== "unloaded") {
+         const repliesDiv = existing.querySelector(":scope > .thread-replies") as HTMLDivElement;
+         (restored.querySelector(":scope > .thread-replies") as HTMLDivElement).replaceWith(repliesDiv);
+         setThreadOpen(restored, existing.dataset.thread !== "closed");
+      }
+      existing.replaceWith(restored);
+   } else if (!data.message.parentId) {
+      insertBySendTime(chatMessages, restored, hasMoreHistory);
+   } else {
+      const parentDiv = getMessageElement(data.message.parentId);
+      if (parentDiv && parentDiv.dataset.thread !== "unloaded") {
+         insertBySendTime(parentDiv.querySelector(":scope > .thread-replies") as HTMLDivElement, restored, false);
+      }
+   }
+   updateReplyCounts(data.replyCounts);
 });
 
 /**
  * Handle error messages from server
  */
-socket.on("error", (errorMsg: string) => {
-   console.error("Server error:", errorMsg);
-   showNotification(errorMsg, "error");
+socket.on("error", (error: ErrorPayload) => {
+   console.error("Server error:", error);
+   outputServerError(error);
+});
+
+/**
+ * Handle the review queue (moderators only): the whole queue after /queue,
+ * or a notification for each item added or changed
+ */
+socket.on("moderationQueue", (data: ModerationQueueData) => {
+   if (data.snapshot) {
+      outputReviewQueue(data);
+      chatMessages.scrollTop = chatMessages.scrollHeight;
+      return;
+   }
+
+   for (const item of data.items) {
+      showNotification(`Review #${item.id} in ${data.room}: ${describeReviewItem(item)}`, item.status === "open" ? "warning" : "success");
+   }
 });
 
 /**
@@ -129,6 +575,34 @@ socket.on("warning", (warningMsg: string) => {
    showNotification(warningMsg, "warning");
 });
 
+/**
+ * Handle the summary of who else is typing in the room
+ */
+socket.on("typing", (data: { room: string; summary: string }) => {
+   typingIndicator.textContent = data.summary ? `${data.summary}...` : "";
+});
+
+/**
+ * Send throttled typing updates while the user types
+ */
+msgInput.addEventListener("input", () => {
+   if (msgInput.value.length === 0) {
+      stopTyping();
+      return;
+   }
+
+   const now = Date.now();
+   if (now - lastTypingStart >= TYPING_THROTTLE_MS) {
+      lastTypingStart = now;
+      socket.emit("typingStart");
+   }
+
+   if (typingIdleTimer !== null) {
+      window.clearTimeout(typingIdleTimer);
+   }
+   typingIdleTimer = window.setTimeout(stopTyping, TYPING_IDLE_MS);
+});
+
 /**
  * Handle chat form submission
  */
@@ -140,8 +614,9 @@ chatForm.addEventListener("submit", (e: SubmitEvent) => {
    ) as HTMLInputElement;
    const msg = msgInput.value;
 
-   // Emit message to server
+   // Emit message to server (which also ends the typing state)
    socket.emit("chatMessage", msg);
+   resetTypingState();
 
    // Clear input and refocus
    msgInput.value = "";
@@ -149,27 +624,156 @@ chatForm.addEventListener("submit", (e: SubmitEvent) => {
 });
 
 /**
- * Output message to the DOM
+ * Tell the server the user stopped typing
+ */
+function stopTyping(): void {
+   if (lastTypingStart !== 0) {
+      socket.emit("typingStop");
+   }
+   resetTypingState();
+}
+
+/**
+ * Forget local typing state so the next keystroke sends typingStart again
+ */
+function resetTypingState(): void {
+   lastTypingStart = 0;
+   if (typingIdleTimer !== null) {
+      window.clearTimeout(typingIdleTimer);
+      typingIdleTimer = null;
+   }
+}
+
+/**
+ * Record the pagination cursor from a history page
+ * @param page - Page received from the server
+ */
+function updateHistoryState(page: MessagePage): void {
+   if (page.messages.length > 0) {
+      oldestMessageId = page.messages[0].id;
+   }
+   hasMoreHistory = page.hasMore;
+}
+
+/**
+ * Output a top-level message to the DOM
+ * Replies are not shown in the feed; they appear in their parent's thread
  * @param message - The message object containing username, text, and time
+ * @param prepend - Insert above existing messages (used for older history)
+ */
+function outputMessage(message: Message, prepend: boolean = false): void {
+   if (message.parentId) {
+      return;
+   }
+
+   const div = createMessageElement(message);
+
+   if (prepend) {
+      chatMessages.insertBefore(div, chatMessages.firstChild);
+   } else {
+      chatMessages.appendChild(div);
+   }
+}
+
+/**
+ * Build the element for a message, with its reply controls and an empty thread
+ * @param message - The message to render
+ * @returns The message element
  */
-function outputMessage(message: Message): void {
+function createMessageElement(message: Message): HTMLDivElement {
    const div = document.createElement("div");
    div.classList.add("message");
    div.setAttribute("data-message-id", message.id);
+   div.dataset.author = message.username;
+   if (message.timestamp !== undefined) {
+      div.dataset.timestamp = String(message.timestamp);
+   }
+   if (message.deleted) {
+      div.classList.add("deleted");
+   }
+   if (message.parentId) {
+      div.classList.add("reply");
+   }
 
-   const editedBadge = message.edited ? '<span class="edited-badge">edited</span>' : '';
-
+   // The controls are fixed markup; the author, time and text are set as text so
+   // that nothing a user typed is ever parsed as HTML
    div.innerHTML = `<p class="meta">
-      ${message.username} 
-      <span>${message.time}</span>
-      ${editedBadge}
-      <button class="copy-id-btn" data-id="${message.id}" title="Copy message ID">
+      <button class="copy-id-btn" title="Copy message ID">
          <i class="fas fa-copy"></i>
       </button>
+      <button class="react-btn" title="Add reaction">
+         <i class="far fa-smile"></i>
+      </button>
+      <button class="reply-btn" title="Reply">
+         <i class="fas fa-reply"></i>
+      </button>
    </p>
-   <p class="text">
-      ${message.text}
-   </p>`;
+   <p class="text"></p>
+   <div class="reaction-picker"></div>
+   <div class="reactions"></div>
+   <p class="seen-by"></p>
+   <button class="thread-toggle"></button>
+   <div class="thread-replies"></div>`;
+
+   const meta = div.querySelector(".meta") as HTMLParagraphElement;
+   const time = document.createElement("span");
+   time.textContent = message.time;
+   meta.prepend(`${message.username} `, time, " ");
+   if (message.edited) {
+      const editedBadge = document.createElement("span");
+      editedBadge.className = "edited-badge";
+      editedBadge.textContent = "edited";
+      editedBadge.title = "Show edit history";
+      time.after(" ", editedBadge);
+   }
+   (div.querySelector(".text") as HTMLParagraphElement).textContent = message.text;
+
+   outputReactions(div, message.id, message.reactions || []);
+   outputSeenBy(div, message.seenBy || []);
+
+   // Reaction picker: the smile button shows a row of quick reactions
+   const picker = div.querySelector(".reaction-picker") as HTMLDivElement;
+   for (const emoji of QUICK_REACTIONS) {
+      const option = document.createElement("button");
+      option.textContent = emoji;
+      option.addEventListener("click", () => {
+         socket.emit("toggleReaction", { messageId: message.id, emoji });
+         picker.classList.remove("open");
+      });
+      picker.appendChild(option);
+   }
+   const reactBtn = div.querySelector(".react-btn") as HTMLButtonElement;
+   if (reactBtn && !message.deleted) {
+      reactBtn.addEventListener("click", () => picker.classList.toggle("open"));
+   } else if (reactBtn) {
+      reactBtn.remove();
+   }
+
+   // Reply button pre-fills the /reply command for this message
+   const replyBtn = div.querySelector(".reply-btn") as HTMLButtonElement;
+   if (message.id && !message.deleted) {
+      replyBtn.addEventListener("click", () => {
+         msgInput.value = `/reply ${message.id} `;
+         msgInput.focus();
+      });
+   } else {
+      replyBtn.remove();
+   }
+
+   // Thread toggle: the first click loads the thread, later clicks collapse and expand it
+   const replyCount = message.replyCount || 0;
+   div.dataset.thread = replyCount > 0 ? "unloaded" : "open";
+   const threadToggle = div.querySelector(".thread-toggle") as HTMLButtonElement;
+   threadToggle.addEventListener("click", () => {
+      if (div.dataset.thread === "unloaded") {
+         div.dataset.thread = "loading";
+         threadToggle.textContent = "Loading replies...";
+         socket.emit("loadThread", { messageId: message.id });
+      } else if (div.dataset.thread !== "loading") {
+         setThreadOpen(div, div.dataset.thread === "closed");
+      }
+   });
+   setReplyCount(div, replyCount);
 
    // Add click event listener to copy button
    const copyBtn = div.querySelector(".copy-id-btn") as HTMLButtonElement;
@@ -179,9 +783,360 @@ function outputMessage(message: Message): void {
       });
    }
 
+   // Bot notices have no ID; the user's own messages need no receipt
+   if (message.id && message.username !== username && !message.deleted) {
+      readObserver.observe(div);
+   }
+
+   return div;
+}
+
+/**
+ * Insert a message element among its siblings in send order
+ * @param container - The feed or a thread's .thread-replies element
+ * @param messageDiv - Element to insert
+ * @param skipIfOldest - Leave it out if it would come first, because older
+ *   history that has not been loaded belongs before it
+ */
+function insertBySendTime(container: HTMLElement, messageDiv: HTMLDivElement, skipIfOldest: boolean): void {
+   const timestamp = Number(messageDiv.dataset.timestamp);
+   const siblings = Array.from(container.querySelectorAll(":scope > .message[data-timestamp]")) as HTMLDivElement[];
+   const next = siblings.find((sibling) => Number(sibling.dataset.timestamp) > timestamp);
+
+   if (!next) {
+      container.appendChild(messageDiv);
+   } else if (!(skipIfOldest && next === siblings[0])) {
+      container.insertBefore(messageDiv, next);
+   }
+}
+
+/**
+ * Find a room message (top-level or in a loaded thread) by ID
+ * @param messageId - Message ID
+ * @returns The message element, or null if it is not loaded
+ */
+function getMessageElement(messageId: string): HTMLDivElement | null {
+   return chatMessages.querySelector(`.message[data-message-id="${messageId}"]`);
+}
+
+/**
+ * RECURSION: Render a thread's replies, each with its own replies nested below it
+ * @param container - The parent message's .thread-replies element
+ * @param replies - Replies from a loaded thread, in send order
+ */
+function outputThreadReplies(container: HTMLDivElement, replies: ThreadNode[]): void {
+   for (const reply of replies) {
+      const div = createMessageElement(reply);
+      container.appendChild(div);
+
+      // The whole tree arrives at once, so nested threads start loaded and expanded
+      outputThreadReplies(div.querySelector(":scope > .thread-replies") as HTMLDivElement, reply.replies);
+      setThreadOpen(div, true);
+   }
+}
+
+/**
+ * Expand or collapse a loaded thread
+ * @param messageDiv - The thread's root message element
+ * @param open - True to show the replies
+ */
+function setThreadOpen(messageDiv: HTMLDivElement, open: boolean): void {
+   messageDiv.dataset.thread = open ? "open" : "closed";
+   const repliesDiv = messageDiv.querySelector(":scope > .thread-replies") as HTMLDivElement;
+   repliesDiv.classList.toggle("collapsed", !open);
+   setReplyCount(messageDiv, Number(messageDiv.dataset.replyCount) || 0);
+}
+
+/**
+ * Show a message's reply count on its thread toggle
+ * @param messageDiv - The message element
+ * @param replyCount - Replies at any depth below the message
+ */
+function setReplyCount(messageDiv: HTMLDivElement, replyCount: number): void {
+   messageDiv.dataset.replyCount = String(replyCount);
+   const threadToggle = messageDiv.querySelector(":scope > .thread-toggle") as HTMLButtonElement;
+   const label = `${replyCount} ${replyCount === 1 ? "reply" : "replies"}`;
+
+   threadToggle.hidden = replyCount === 0;
+   if (messageDiv.dataset.thread === "open") {
+      threadToggle.textContent = `Hide ${label}`;
+   } else if (messageDiv.dataset.thread !== "loading") {
+      threadToggle.textContent = `Show ${label}`;
+   }
+}
+
+/**
+ * Apply reply counts sent after a thread changed, for the messages that are loaded
+ * @param counts - Updated counts from the server
+ */
+function updateReplyCounts(counts: ReplyCount[]): void {
+   for (const count of counts) {
+      const messageDiv = getMessageElement(count.id);
+      if (messageDiv) {
+         setReplyCount(messageDiv, count.replyCount);
+      }
+   }
+}
+
+/**
+ * Queue messages that scrolled into view for the next markRead
+ * @param entries - Observed message elements whose visibility changed
+ */
+function onMessagesVisible(entries: IntersectionObserverEntry[]): void {
+   for (const entry of entries) {
+      if (!entry.isIntersecting) {
+         continue;
+      }
+      const messageId = (entry.target as HTMLElement).dataset.messageId;
+      if (messageId) {
+         pendingReads.add(messageId);
+      }
+      readObserver.unobserve(entry.target);
+   }
+
+   if (pendingReads.size > 0) {
+      scheduleMarkRead();
+   }
+}
+
+/**
+ * Send pending read receipts after a short delay, batching messages seen together
+ * Receipts wait while the tab is hidden, since nobody is reading
+ */
+function scheduleMarkRead(): void {
+   if (markReadTimer !== null || document.visibilityState !== "visible") {
+      return;
+   }
+
+   markReadTimer = window.setTimeout(() => {
+      markReadTimer = null;
+      socket.emit("markRead", { messageIds: Array.from(pendingReads) });
+      pendingReads.clear();
+   }, MARK_READ_DELAY_MS);
+}
+
+/**
+ * Show who has read one of the user's own messages
+ * @param messageDiv - The message element
+ * @param seenBy - Usernames that have read the message
+ */
+function outputSeenBy(messageDiv: HTMLDivElement, seenBy: string[]): void {
+   const line = messageDiv.querySelector(".seen-by") as HTMLParagraphElement;
+   if (!line || messageDiv.dataset.author !== username) {
+      return;
+   }
+
+   line.textContent = seenBy.length > 0 ? `Seen by ${seenBy.join(", ")}` : "";
+}
+
+/**
+ * Render /help output as a bot message with one line per row
+ * Uses textContent so command metadata is never interpreted as HTML
+ */
+function outputHelp(lines: string[]): void {
+   const div = document.createElement("div");
+   div.classList.add("message", "help");
+
+   const meta = document.createElement("p");
+   meta.classList.add("meta");
+   meta.textContent = "XeroxChat Bot";
+   div.appendChild(meta);
+
+   for (const line of lines) {
+      const row = document.createElement("p");
+      row.classList.add("text", "help-line");
+      row.textContent = line;
+      div.appendChild(row);
+   }
+
+   chatMessages.appendChild(div);
+}
+
+/**
+ * Show /search results as a bot message; clicking a result scrolls to the
+ * message if it is loaded
+ * @param data - Ranked results with snippets
+ */
+function outputSearchResults(data: SearchResultsData): void {
+   const div = document.createElement("div");
+   div.classList.add("message", "help", "search-results");
+
+   const meta = document.createElement("p");
+   meta.classList.add("meta");
+   meta.textContent = "XeroxChat Bot";
+   div.appendChild(meta);
+
+   const summary = document.createElement("p");
+   summary.classList.add("text");
+   const shown = data.results.length < data.total ? ` (showing ${data.results.length})` : "";
+   summary.textContent = `${data.total} result${data.total === 1 ? "" : "s"} for "${data.query}"${shown}`;
+   div.appendChild(summary);
+
+   for (const result of data.results) {
+      const row = document.createElement("p");
+      row.classList.add("text", "search-result");
+      row.textContent = `${result.message.username} · ${result.message.time}: ${result.snippet}`;
+      row.addEventListener("click", () => {
+         const target = getMessageElement(result.message.id);
+         if (!target) {
+            showNotification("That message is not loaded: it is older than the loaded history or in an unopened thread");
+            return;
+         }
+
+         // Expand any collapsed threads the message is nested in
+         for (let parent = target.parentElement; parent && parent !== chatMessages; parent = parent.parentElement) {
+            if (parent.classList.contains("collapsed")) {
+               setThreadOpen(parent.parentElement as HTMLDivElement, true);
+            }
+         }
+         target.scrollIntoView({ block: "center" });
+         target.classList.add("search-hit");
+         setTimeout(() => target.classList.remove("search-hit"), 2000);
+      });
+      div.appendChild(row);
+   }
+
+   chatMessages.appendChild(div);
+}
+
+/**
+ * Show an edit history as a bot message: the original text, then each edit
+ * with added words highlighted and removed words struck through
+ * @param data - Revisions from the server, original first
+ */
+function outputEditHistory(data: EditHistoryData): void {
+   const div = document.createElement("div");
+   div.classList.add("message", "help", "edit-history");
+
+   const meta = document.createElement("p");
+   meta.classList.add("meta");
+   meta.textContent = "XeroxChat Bot";
+   div.appendChild(meta);
+
+   const summary = document.createElement("p");
+   summary.classList.add("text");
+   const edits = data.revisions.length - 1;
+   summary.textContent = `Edit history of ${data.author}'s message (${edits} edit${edits === 1 ? "" : "s"})`;
+   div.appendChild(summary);
+
+   data.revisions.forEach((revision, i) => {
+      const row = document.createElement("p");
+      row.classList.add("text", "revision");
+
+      const label = document.createElement("span");
+      label.classList.add("revision-label");
+      label.textContent = `${i === 0 ? "Original" : `Edit ${i}`} · ${revision.time}: `;
+      row.appendChild(label);
+
+      if (i === 0) {
+         row.appendChild(document.createTextNode(revision.text));
+      }
+      for (const part of revision.diff) {
+         const span = document.createElement(part.type === "added" ? "ins" : part.type === "removed" ? "del" : "span");
+         span.textContent = part.text;
+         row.appendChild(span);
+      }
+      div.appendChild(row);
+   });
+
+   chatMessages.appendChild(div);
+}
+
+/**
+ * One line saying what a review item is about and where it stands
+ */
+function describeReviewItem(item: ReviewItem): string {
+   if (item.status !== "open") {
+      return `${item.status} (${item.resolution}) by ${item.resolvedBy}`;
+   }
+   const assignee = item.assignee ? `, assigned to ${item.assignee}` : "";
+   return `${item.author}'s message reported by ${item.reportedBy}: ${item.reason}${assignee}`;
+}
+
+/**
+ * Show the review queue as a bot message: each item with the messages
+ * leading up to it, the reviewed one in bold, then its notes
+ * @param data - The room's items, oldest first
+ */
+function outputReviewQueue(data: ModerationQueueData): void {
+   const div = document.createElement("div");
+   div.classList.add("message", "help", "review-queue");
+
+   const meta = document.createElement("p");
+   meta.classList.add("meta");
+   meta.textContent = "XeroxChat Bot";
+   div.appendChild(meta);
+
+   const summary = document.createElement("p");
+   summary.classList.add("text");
+   summary.textContent = data.items.length === 0
+      ? `Nothing to review in ${data.room}`
+      : `${data.items.length} review item${data.items.length === 1 ? "" : "s"} in ${data.room} (use /resolve <number> <action>)`;
+   div.appendChild(summary);
+
+   for (const item of data.items) {
+      const row = document.createElement("div");
+      row.classList.add("review-item");
+
+      const heading = document.createElement("p");
+      heading.textContent = `#${item.id} · ${describeReviewItem(item)}`;
+      row.appendChild(heading);
+
+      if (item.context.length === 0) {
+         const text = document.createElement("p");
+         text.classList.add("review-context", "reviewed");
+         text.textContent = `${item.author}: ${item.text}`;
+         row.appendChild(text);
+      }
+      for (const message of item.context) {
+         const line = document.createElement("p");
+         line.classList.add("review-context");
+         line.classList.toggle("reviewed", message.id === item.messageId);
+         line.textContent = `${message.username} · ${message.time}: ${message.id === item.messageId ? item.text : message.text}`;
+         row.appendChild(line);
+      }
+      for (const note of item.notes) {
+         const line = document.createElement("p");
+         line.classList.add("review-context");
+         line.textContent = `Note from ${note.author}: ${note.text}`;
+         row.appendChild(line);
+      }
+
+      div.appendChild(row);
+   }
+
    chatMessages.appendChild(div);
 }
 
+/**
+ * Render reaction chips under a message
+ * Each chip shows the emoji and count; clicking it toggles the user's own reaction
+ * @param messageDiv - The message element
+ * @param messageId - The message ID
+ * @param reactions - Aggregated reactions from the server
+ */
+function outputReactions(messageDiv: HTMLDivElement, messageId: string, reactions: ReactionSummary[]): void {
+   const container = messageDiv.querySelector(".reactions") as HTMLDivElement;
+   if (!container) {
+      return;
+   }
+   container.innerHTML = "";
+
+   for (const reaction of reactions) {
+      const chip = document.createElement("button");
+      chip.classList.add("reaction-chip");
+      if (reaction.users.some((user) => user.toLowerCase() === username.toLowerCase())) {
+         chip.classList.add("mine");
+      }
+      chip.textContent = `${reaction.emoji} ${reaction.count}`;
+      chip.title = reaction.users.join(", ");
+      chip.addEventListener("click", () => {
+         socket.emit("toggleReaction", { messageId, emoji: reaction.emoji });
+      });
+      container.appendChild(chip);
+   }
+}
+
 /**
  * Copy message ID to clipboard
  * @param messageId - The ID of the message to copy
@@ -218,12 +1173,88 @@ function showNotification(message: string, type: "success" | "error" | "warning"
    }, 3000);
 }
 
+/**
+ * Show a typed failure from the server in the way its code calls for
+ * @param error - The error payload
+ */
+function outputServerError(error: ErrorPayload): void {
+   switch (error.code) {
+      case "rate-limited":
+         // Sending would only be refused again, so hold the send button until the wait is over;
+         // a limit on one command (named by field) leaves sending alone
+         showNotification(error.message, "warning");
+         if (error.field === undefined) {
+            holdChatSend(error.retryAfterMs ?? 0);
+         }
+         break;
+      case "validation":
+      case "conflict":
+         // The request can succeed once the user changes it or the state changes
+         showNotification(error.message, "warning");
+         break;
+      case "forbidden":
+         showNotification(`Not allowed: ${error.message}`, "error");
+         break;
+      case "not-found":
+      case "internal":
+      default:
+         showNotification(error.message, "error");
+         break;
+   }
+}
+
+/**
+ * Disable sending chat messages for a while, counting down on the send button
+ * A later hold extends the current one rather than starting a second countdown
+ * @param ms - How long to wait
+ */
+function holdChatSend(ms: number): void {
+   const alreadyHeld = chatSendHeldUntil > Date.now();
+   chatSendHeldUntil = Math.max(chatSendHeldUntil, Date.now() + ms);
+   if (alreadyHeld) {
+      return;
+   }
+
+   const label = chatSendButton.innerHTML;
+   const tick = (): void => {
+      const remaining = chatSendHeldUntil - Date.now();
+      if (remaining <= 0) {
+         chatSendButton.disabled = false;
+         chatSendButton.innerHTML = label;
+         return;
+      }
+      chatSendButton.disabled = true;
+      chatSendButton.textContent = `${Math.ceil(remaining / 1000)}s`;
+      window.setTimeout(tick, Math.min(1000, remaining));
+   };
+   tick();
+}
+
 /**
  * Update room name in the DOM
  * @param roomName - The name of the current room
  */
 function outputRoomName(roomNameValue: string): void {
-   roomName.innerHTML = roomNameValue;
+   roomName.textContent = roomNameValue;
+}
+
+/**
+ * Show the rooms the user is in; clicking another room switches to it
+ * @param data - The user's rooms and the active one
+ */
+function outputJoinedRooms(data: UserRoomsData): void {
+   joinedRoomList.innerHTML = "";
+
+   for (const joined of data.rooms) {
+      const item = document.createElement("li");
+      item.textContent = joined;
+      if (joined === data.active) {
+         item.classList.add("active");
+      } else {
+         item.addEventListener("click", () => socket.emit("chatMessage", `/join ${joined}`));
+      }
+      joinedRoomList.appendChild(item);
+   }
 }
 
 /**
@@ -235,8 +1266,95 @@ function outputUsers(users: Array<{ username: string }>): void {
     ${users.map((user) => `<li>${user.username}</li>`).join("")}
   `;
 
+   // Clicking another member opens a private conversation with them
+   userList.querySelectorAll("li").forEach((item, index) => {
+      const member = users[index].username;
+      if (member.toLowerCase() !== username.toLowerCase()) {
+         item.classList.add("dm-target");
+         item.title = `Message ${member} privately`;
+         item.addEventListener("click", () => openConversation(member));
+      }
+   });
+
    // Update user count badge
    if (userCount) {
       userCount.textContent = `(${users.length})`;
    }
 }
+
+/**
+ * Get the DM pane entry for a partner, creating it on first contact
+ * @param partner - The other participant's username
+ */
+function getConversation(partner: string): { username: string; unread: number } {
+   const key = partner.toLowerCase();
+   if (!dmConversations.has(key)) {
+      dmConversations.set(key, { username: partner, unread: 0 });
+   }
+   return dmConversations.get(key)!;
+}
+
+/**
+ * Open a conversation in the DM pane and request its history
+ * @param partner - The other participant's username
+ */
+function openConversation(partner: string): void {
+   activeDmPartner = partner;
+   getConversation(partner).unread = 0;
+
+   dmPartnerHeading.textContent = `Chat with ${partner}`;
+   dmMessages.innerHTML = "";
+   dmInput.disabled = false;
+   dmSendButton.disabled = false;
+   dmInput.focus();
+
+   outputConversations();
+   socket.emit("loadDirectMessages", { with: partner });
+}
+
+/**
+ * Update the list of conversations in the DM pane
+ */
+function outputConversations(): void {
+   dmConversationList.innerHTML = "";
+
+   for (const conversation of dmConversations.values()) {
+      const item = document.createElement("li");
+      item.textContent = conversation.username;
+      if (activeDmPartner && activeDmPartner.toLowerCase() === conversation.username.toLowerCase()) {
+         item.classList.add("active");
+      }
+      if (conversation.unread > 0) {
+         const badge = document.createElement("span");
+         badge.classList.add("unread-badge");
+         badge.textContent = String(conversation.unread);
+         item.appendChild(badge);
+      }
+      item.addEventListener("click", () => openConversation(conversation.username));
+      dmConversationList.appendChild(item);
+   }
+}
+
+/**
+ * Add a private message to the open conversation
+ * @param message - The private message to display
+ */
+function outputDirectMessage(message: DirectMessage): void {
+   const div = document.createElement("div");
+   div.classList.add("dm-message");
+   if (message.from.toLowerCase() === username.toLowerCase()) {
+      div.classList.add("outgoing");
+   }
+
+   const meta = document.createElement("p");
+   meta.classList.add("meta");
+   meta.textContent = `${message.from} · ${message.time}`;
+
+   const text = document.createElement("p");
+   text.classList.add("text");
+   text.textContent = message.text;
+
+   div.append(meta, text);
+   dmMessages.appendChild(div);
+   dmMessages.scrollTop = dmMessages.scrollHeight;
+}
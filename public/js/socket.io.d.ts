@@ -2,11 +2,11 @@
  * Global type declarations for Socket.IO client
  */
 
-declare function io(): SocketIOClient.Socket;
+declare function io(opts?: { auth?: Record<string, string> }): SocketIOClient.Socket;
 
 namespace SocketIOClient {
   export interface Socket {
     on(event: string, callback: (...args: any[]) => void): void;
-    emit(event: string, data: any): void;
+    emit(event: string, data?: any): void;
   }
 }
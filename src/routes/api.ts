@@ -0,0 +1,234 @@
+/**
+ * REST API for chat data
+ * Read-only JSON endpoints for bots and dashboards that do not open a socket
+ * - Every route needs a session token: Authorization: Bearer <token>
+ * - Errors always have the body { error: string } with a 4xx status
+ * - Rooms are readable by their members, their creator, invited users and room
+ *   managers; public rooms without a password are readable by everyone
+ * - Direct message conversations are readable only by their two participants
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { Account, Message, SearchPage } from '../types/index';
+import { AccountRepository, accountRepository } from '../utils/accounts';
+import {
+   MessageRepository,
+   messageRepository,
+   isDirectMessageRoom,
+   getDirectMessageRoom,
+   toMessagePayload,
+   DEFAULT_PAGE_SIZE
+} from '../utils/messageRepository';
+import { RoomRegistry, roomRegistry } from '../utils/rooms';
+import { UserRepository, userRepository } from '../utils/users';
+import { PermissionMatrix, permissions } from '../utils/permissions';
+import { parseSearchQuery } from '../utils/searchIndex';
+
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 100;
+
+export interface ApiDependencies {
+   accounts: AccountRepository;
+   messages: MessageRepository;
+   rooms: RoomRegistry;
+   users: UserRepository;
+   matrix: PermissionMatrix;
+}
+
+/**
+ * Send an error with the API's error body
+ */
+function sendError(res: Response, status: number, error: string): void {
+   res.status(status).json({ error });
+}
+
+/**
+ * Parse an optional positive integer query parameter
+ * @returns The value, the fallback if absent, or undefined if invalid
+ */
+function parseLimit(value: unknown, fallback: number): number | undefined {
+   if (value === undefined) {
+      return fallback;
+   }
+   const limit = Number(value);
+   return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_PAGE_SIZE) : undefined;
+}
+
+/**
+ * Create the API router
+ * @param deps - Repositories to read from (default: the server's singletons)
+ */
+export function createApiRouter(deps: Partial<ApiDependencies> = {}): express.Router {
+   const {
+      accounts = accountRepository,
+      messages = messageRepository,
+      rooms = roomRegistry,
+      users = userRepository,
+      matrix = permissions
+   } = deps;
+   const router = express.Router();
+
+   /**
+    * Reject requests without a valid session token; the account is kept in res.locals
+    */
+   function requireSession(req: Request, res: Response, next: NextFunction): void {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      const account = accounts.verifySession(token);
+
+      if (!account) {
+         sendError(res, 401, 'A valid session token is required');
+         return;
+      }
+
+      res.locals.account = account;
+      next();
+   }
+
+   /**
+    * Check whether an account may read a room's messages
+    * @param room - Room key as stored on messages (registered room or DM conversation)
+    */
+   function canRead(room: string, account: Account): boolean {
+      if (isDirectMessageRoom(room)) {
+         const participants = room.split(':').slice(1);
+         return participants.length === 2
+            && participants.includes(account.username.toLowerCase())
+            && getDirectMessageRoom(participants[0], participants[1]) === room;
+      }
+
+      const registered = rooms.getRoom(room);
+      if (!registered) {
+         return false;
+      }
+
+      const isMember = users.getUserByUsername(account.username)?.rooms.includes(registered.name) ?? false;
+      return isMember || rooms.checkJoin(registered.name, account.username, {
+         memberCount: 0,
+         bypass: matrix.can(account.role, 'manage-rooms', registered.name)
+      }) === undefined;
+   }
+
+   /**
+    * Resolve the :room parameter to a readable room name, or send the error
+    */
+   function resolveRoom(req: Request, res: Response): string | undefined {
+      const room = rooms.getRoom(String(req.params.room));
+
+      // Unreadable rooms get the same 404 as missing ones, so private names are not revealed
+      if (!room || !canRead(room.name, res.locals.account)) {
+         sendError(res, 404, `Room ${req.params.room} not found`);
+         return undefined;
+      }
+      return room.name;
+   }
+
+   /**
+    * Resolve the :id parameter to a readable message, or send the error
+    */
+   function resolveMessage(req: Request, res: Response): Message | undefined {
+      const message = messages.getMessage(String(req.params.id));
+
+      if (!message || !canRead(message.room, res.locals.account)) {
+         sendError(res, 404, `Message ${req.params.id} not found`);
+         return undefined;
+      }
+      return message;
+   }
+
+   /**
+    * A page of room history, oldest first
+    * Query: before (message ID or sent timestamp), limit (default 50, max 100)
+    * The next older page is requested with before=<first message ID>
+    */
+   router.get('/rooms/:room/messages', requireSession, (req, res) => {
+      const room = resolveRoom(req, res);
+      if (!room) {
+         return;
+      }
+
+      const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+      if (limit === undefined) {
+         sendError(res, 400, 'limit must be a positive integer');
+         return;
+      }
+
+      const rawBefore = req.query.before;
+      let before: string | number | undefined;
+      if (typeof rawBefore === 'string' && rawBefore.length > 0) {
+         before = /^\d+$/.test(rawBefore) ? Number(rawBefore) : rawBefore;
+         if (typeof before === 'string' && messages.getMessage(before)?.room !== room) {
+            sendError(res, 400, `before must be a message ID in ${room} or a timestamp`);
+            return;
+         }
+      }
+
+      res.json(messages.getMessagesPage(room, before, limit));
+   });
+
+   /**
+    * Messages in a room (including nested replies) matching q, best match first
+    * Query: q (required, in the /search query language), limit (default 50, max 100), offset (default 0)
+    */
+   router.get('/rooms/:room/search', requireSession, (req, res) => {
+      const room = resolveRoom(req, res);
+      if (!room) {
+         return;
+      }
+
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (query.length === 0 || query.length > MAX_QUERY_LENGTH) {
+         sendError(res, 400, `q must be 1-${MAX_QUERY_LENGTH} characters`);
+         return;
+      }
+
+      const limit = parseLimit(req.query.limit, DEFAULT_PAGE_SIZE);
+      const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+      if (limit === undefined || !Number.isInteger(offset) || offset < 0) {
+         sendError(res, 400, 'limit must be a positive integer and offset a non-negative integer');
+         return;
+      }
+
+      const parsed = parseSearchQuery(query);
+      if (parsed.error || !parsed.query) {
+         sendError(res, 400, `Invalid search: ${parsed.error}`);
+         return;
+      }
+
+      const { results, total } = messages.search(room, parsed.query, offset + limit);
+      const page: SearchPage = {
+         room,
+         query,
+         results: results.slice(offset).map(result => result.message),
+         total,
+         hasMore: offset + limit < total
+      };
+      res.json(page);
+   });
+
+   /**
+    * A single message
+    */
+   router.get('/messages/:id', requireSession, (req, res) => {
+      const message = resolveMessage(req, res);
+      if (message) {
+         res.json(toMessagePayload(message, messages.getReaders(message.id)));
+      }
+   });
+
+   /**
+    * A message with all of its replies nested below it
+    */
+   router.get('/messages/:id/thread', requireSession, (req, res) => {
+      const message = resolveMessage(req, res);
+      if (!message) {
+         return;
+      }
+
+      res.json({
+         thread: messages.getThreadTree(message.id)!,
+         depth: messages.getThreadDepth(message.id)
+      });
+   });
+
+   return router;
+}
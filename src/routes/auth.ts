@@ -0,0 +1,95 @@
+/**
+ * Account routes
+ * Registration, login and logout; the only routes that need no session token
+ * - Errors have the body { error: string }, plus field when one input was
+ *   rejected, with a 4xx status
+ */
+
+import express, { Response } from 'express';
+import { AuthResult } from '../types/index';
+import { AccountRepository, accountRepository } from '../utils/accounts';
+import { ValidationError } from '../utils/errors';
+import logger from '../utils/logger';
+
+export interface AuthDependencies {
+   accounts: AccountRepository;
+}
+
+/**
+ * Run a register or login call, answering malformed credentials with a 400
+ * @returns The result, or undefined if the response has been sent
+ */
+function authenticate(res: Response, attempt: () => AuthResult): AuthResult | undefined {
+   try {
+      return attempt();
+   } catch (error) {
+      if (error instanceof ValidationError) {
+         res.status(400).json({ error: error.message, field: error.field });
+         return undefined;
+      }
+      throw error;
+   }
+}
+
+/**
+ * Create the account router
+ * @param deps - Repositories to use (default: the server's singletons)
+ */
+export function createAuthRouter(deps: Partial<AuthDependencies> = {}): express.Router {
+   const { accounts = accountRepository } = deps;
+   const router = express.Router();
+
+   /**
+    * Register a new account
+    * The first account registered becomes an admin
+    */
+   router.post('/register', (req, res) => {
+      const { username, password } = req.body || {};
+      const result = authenticate(res, () => accounts.register(username, password));
+      if (!result) {
+         return;
+      }
+
+      const { error, token, account } = result;
+      if (error || !token || !account) {
+         logger.warn(`Registration failed: ${error}`, { username });
+         res.status(400).json({ error });
+         return;
+      }
+
+      logger.info(`Account registered: ${account.username} (${account.role})`);
+      res.status(201).json({ token, username: account.username, role: account.role });
+   });
+
+   /**
+    * Log in and receive a session token
+    */
+   router.post('/login', (req, res) => {
+      const { username, password } = req.body || {};
+      const result = authenticate(res, () => accounts.login(username, password));
+      if (!result) {
+         return;
+      }
+
+      const { error, token, account } = result;
+      if (error || !token || !account) {
+         logger.warn(`Login failed for ${username}`);
+         res.status(401).json({ error });
+         return;
+      }
+
+      logger.info(`Account logged in: ${account.username}`);
+      res.json({ token, username: account.username, role: account.role });
+   });
+
+   /**
+    * End the session identified by the bearer token
+    */
+   router.post('/logout', (req, res) => {
+      const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+      accounts.logout(token);
+      res.status(204).end();
+   });
+
+   return router;
+}
@@ -4,10 +4,59 @@ import { Server as SocketIOServer } from "socket.io";
 import path from "path";
 import formatMessage from "./utils/messages";
 import { userJoin, getCurrentUser, userLeave, getRoomUsers, userRepository } from "./utils/users";
-import { JoinRoomData, Message } from "./types/index";
-import { messageRepository } from "./utils/messageRepository";
+import {
+   CommandContext,
+   DirectMessagePayload,
+   EditHistoryPayload,
+   ErrorPayload,
+   GetEditHistoryData,
+   JoinRoomData,
+   LoadDirectMessagesData,
+   LoadOlderData,
+   LoadThreadData,
+   MarkReadData,
+   Message,
+   MessageDeletedPayload,
+   MessageReplyPayload,
+   MessageRestoredPayload,
+   ModerationQueuePayload,
+   ModerationRule,
+   PrivateMessageData,
+   ReviewItem,
+   ReviewItemPayload,
+   ReviewResolution,
+   Room,
+   RoomResult,
+   ThreadHistory,
+   ToggleReactionData,
+   User,
+   UserRole
+} from "./types/index";
+import { messageRepository, getDirectMessageRoom, toMessagePayload } from "./utils/messageRepository";
 import CommandParser from "./utils/commandParser";
 import { moderationEngine } from "./utils/moderationDSL";
+import { moderationExecutor, isBlocked, ModerationOutcome } from "./utils/moderationActions";
+import { auditLog } from "./utils/auditLog";
+import { activityTracker } from "./utils/activityTracker";
+import { reviewQueue, isReviewStatus, isReviewResolution } from "./utils/reviewQueue";
+import { accountRepository } from "./utils/accounts";
+import { sanctionRepository, parseDuration, formatDuration } from "./utils/sanctions";
+import { Permission, permissions } from "./utils/permissions";
+import { commandRegistry, CommandArgs } from "./utils/commandRegistry";
+import { typingTracker, formatTypingSummary } from "./utils/typing";
+import { isEmoji } from "./utils/emoji";
+import {
+   roomRegistry,
+   toRoomSummary,
+   isRoomVisibility,
+   isHistoryVisibility,
+   ROOM_VISIBILITIES,
+   HISTORY_VISIBILITIES
+} from "./utils/rooms";
+import { parseSearchQuery } from "./utils/searchIndex";
+import { createApiRouter } from "./routes/api";
+import { createAuthRouter } from "./routes/auth";
+import { ChatError, ConflictError, EditPolicyError, ForbiddenError, NotFoundError, ValidationError } from "./utils/errors";
 import logger, { assert, perfMonitor } from "./utils/logger";
 
 // Initialize express app
@@ -17,27 +66,84 @@ const io = new SocketIOServer(server);
 
 // Serve static files
 app.use(express.static(path.join(__dirname, "../public")));
+app.use(express.json());
 
 // Initialize command parser
 const commandParser = new CommandParser();
 
 const BOT_NAME = "XeroxChat Bot";
 const PORT = process.env.PORT || 3000;
+const HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 100;
+const SANCTION_SWEEP_INTERVAL_MS = 5 * 1000;
+const ACTIVITY_SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_MARK_READ_BATCH = 100;
+const TYPING_SWEEP_INTERVAL_MS = 1000;
+const SEARCH_RESULT_LIMIT = 20;
+const REVIEW_CONTEXT_SIZE = 3; // Messages shown before a reviewed message
+
+// Setup default moderation rules; one that does not parse is a bug, so refuse to start without it
+const DEFAULT_MODERATION_RULES: ModerationRule[] = [
+   {
+      id: 'spam-detection',
+      name: 'Spam Detection',
+      condition: 'when word_count > 100 then warn',
+      enabled: true
+   },
+   {
+      id: 'flood-detection',
+      name: 'Flood Detection',
+      condition: 'when messages_last(10s) > 5 or duplicate_count >= 3 then warn "Please slow down and avoid repeating yourself"',
+      enabled: true
+   }
+];
+for (const rule of DEFAULT_MODERATION_RULES) {
+   const errors = moderationEngine.addRule(rule);
+   for (const error of errors) {
+      logger.error(`Default moderation rule ${rule.id} does not parse: ${error.message} (line ${error.line}, column ${error.column})`);
+   }
+   if (errors.length > 0) {
+      throw new Error(`Default moderation rule ${rule.id} does not parse`);
+   }
+}
 
-// Setup default moderation rules
-moderationEngine.addRule({
-   id: 'spam-detection',
-   name: 'Spam Detection',
-   condition: 'when word_count > 100 then warn',
-   action: 'warn',
-   enabled: true
+logger.info('Server initializing...');
+
+// Registration, login and logout
+app.use("/api", createAuthRouter());
+
+/**
+ * List the public rooms with how many users are in each
+ */
+app.get("/api/rooms", (req, res) => {
+   res.json({
+      rooms: roomRegistry.listPublicRooms().map(room => toRoomSummary(room, getRoomUsers(room.name).length))
+   });
 });
 
-logger.info('Server initializing...');
+// Authenticated REST API for message history, threads and search
+app.use("/api", createApiRouter());
+
+/**
+ * Socket.IO handshake authentication
+ * Rejects connections without a valid session token
+ */
+io.use((socket, next) => {
+   const account = accountRepository.verifySession(socket.handshake.auth?.token);
+
+   if (!account) {
+      logger.warn(`Socket rejected: invalid session token (${socket.id})`);
+      next(new Error("Authentication required"));
+      return;
+   }
+
+   socket.data.username = account.username;
+   next();
+});
 
 /**
  * Command handler function
- * Processes chat commands using the command parser
+ * Parses chat commands, then validates, authorizes and dispatches them through the command registry
  */
 async function handleCommand(socket: any, msg: string, user: any): Promise<void> {
    const stopTimer = perfMonitor.start('handleCommand');
@@ -45,235 +151,1290 @@ async function handleCommand(socket: any, msg: string, user: any): Promise<void>
    try {
       const parsedCommand = commandParser.parse(msg);
 
-      console.log('🔍 DEBUG: Raw message:', msg);
-      console.log('🔍 DEBUG: Parsed command:', parsedCommand);
-
       logger.debug(`Command parsed: ${parsedCommand.type}`, {
          user: user.username,
          command: parsedCommand
       });
 
-      if (!commandParser.validate(parsedCommand)) {
-         // Provide helpful error messages based on command type
-         let errorMsg = `Invalid command syntax: ${msg}`;
-         switch (parsedCommand.type) {
-            case 'edit':
-               errorMsg = "Invalid /edit command. Usage: /edit <messageId> <newText>";
-               break;
-            case 'delete':
-               errorMsg = "Invalid /delete command. Usage: /delete <messageId>";
-               break;
-            case 'mute':
-               errorMsg = "Invalid /mute command. Usage: /mute <username>";
-               break;
-            case 'ban':
-               errorMsg = "Invalid /ban command. Usage: /ban <username>";
-               break;
-            case 'reply':
-               errorMsg = "Invalid /reply command. Usage: /reply <messageId> <text>";
-               break;
-         }
-         socket.emit("error", errorMsg);
+      if (parsedCommand.type === 'unknown') {
+         emitError(socket, new NotFoundError(`Unknown command: ${msg}. Type /help to see available commands.`));
+         return;
+      }
+
+      // Bind arguments against the command's schema for a specific usage error
+      const { args, error } = commandRegistry.bindArgs(parsedCommand.type, parsedCommand.args);
+      if (error || !args) {
+         const usage = commandRegistry.usage(parsedCommand.type);
+         emitError(socket, new ValidationError(`Invalid /${parsedCommand.type} command: ${error}. Usage: ${usage}`));
          return;
       }
 
-      switch (parsedCommand.type) {
-         case 'edit':
-            await handleEditCommand(socket, parsedCommand.args, user);
-            break;
-         case 'delete':
-            await handleDeleteCommand(socket, parsedCommand.args, user);
-            break;
-         case 'mute':
-            await handleMuteCommand(socket, parsedCommand.args, user);
-            break;
-         case 'ban':
-            await handleBanCommand(socket, parsedCommand.args, user);
-            break;
-         case 'reply':
-            await handleReplyCommand(socket, parsedCommand.args, user);
-            break;
-         default:
-            socket.emit("error", "Unknown command");
+      // Central permission check for restricted commands
+      if (!commandRegistry.canRun(parsedCommand.type, user.role, user.room)) {
+         emitError(socket, new ForbiddenError(`You don't have permission to use /${parsedCommand.type}`));
+         logger.warn(`Permission denied: ${user.username} (${user.role}) tried /${parsedCommand.type}`);
+         return;
       }
+
+      await commandRegistry.dispatch(parsedCommand.type, { socket, user, input: msg }, args);
    } catch (error) {
-      console.log('teste', error)
-      logger.error('Error handling command', { error, user: user.username, msg });
-      socket.emit("error", "An error occurred while processing the command");
+      emitError(socket, error, "An error occurred while processing the command", { user: user.username, msg });
    } finally {
       stopTimer();
    }
 }
 
 /**
- * Handle /edit command
+ * Handle /help command
+ * Without arguments, lists the commands the user's role can run in this room;
+ * with a command name, shows its syntax, arguments and examples
+ */
+async function handleHelpCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   if (args.command) {
+      const name = args.command.replace(/^\//, '');
+      if (!commandRegistry.get(name)) {
+         emitError(socket, new NotFoundError(`Unknown command /${name}. Type /help to see available commands.`));
+         return;
+      }
+      socket.emit("commandHelp", commandRegistry.describe(name, user.room));
+      return;
+   }
+
+   const lines = commandRegistry.listAllowed(user.role, user.room)
+      .map(definition => `${commandRegistry.usage(definition.name)} - ${definition.description}`);
+   socket.emit("commandHelp", ['Available commands:', ...lines, 'Type /help <command> for details.']);
+}
+
+/**
+ * Handle /edit command
+ */
+async function handleEditCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { messageId, newText } = args;
+
+   try {
+      requireRoomMessage(messageId, user);
+
+      const editedMessage = await messageRepository.editMessage(
+         messageId,
+         newText,
+         user.username,
+         permissions.can(user.role, 'edit-others', user.room),
+         roomRegistry.getEditPolicy(user.room)
+      );
+
+      // Broadcast the edit to all users in the room
+      io.to(user.room).emit("messageEdited", {
+         id: editedMessage.id,
+         text: editedMessage.text,
+         edited: true,
+         time: editedMessage.time
+      });
+
+      logger.info(`Message edited: ${messageId} by ${user.username}`);
+   } catch (error) {
+      if (error instanceof EditPolicyError) {
+         logger.warn(`Edit refused (${error.rule}): ${user.username} on ${messageId}`);
+      }
+      emitError(socket, error, "An error occurred while editing the message", { messageId, username: user.username });
+   }
+}
+
+/**
+ * Handle /delete command
+ */
+async function handleDeleteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { messageId } = args;
+
+   try {
+      requireRoomMessage(messageId, user);
+
+      await messageRepository.deleteMessage(
+         messageId,
+         user.username,
+         permissions.can(user.role, 'delete-others', user.room),
+         roomRegistry.getEditPolicy(user.room)
+      );
+
+      broadcastDeleted(messageId, user.room);
+      logger.info(`Message deleted: ${messageId} by ${user.username}`);
+   } catch (error) {
+      if (error instanceof EditPolicyError) {
+         logger.warn(`Delete refused (${error.rule}): ${user.username} on ${messageId}`);
+      }
+      emitError(socket, error, "An error occurred while deleting the message", { messageId, username: user.username });
+   }
+}
+
+/**
+ * Tell everyone in a room that a message was deleted, with the new reply counts for its thread
+ */
+function broadcastDeleted(messageId: string, room: string): void {
+   const payload: MessageDeletedPayload = {
+      id: messageId,
+      replyCounts: messageRepository.getAncestorReplyCounts(messageId)
+   };
+   io.to(room).emit("messageDeleted", payload);
+}
+
+/**
+ * Send a restored message to everyone in its room, with the new reply counts for its thread
+ */
+function broadcastRestored(message: Message): void {
+   const payload: MessageRestoredPayload = {
+      message: toMessagePayload(message, messageRepository.getReaders(message.id)),
+      replyCounts: messageRepository.getAncestorReplyCounts(message.id)
+   };
+   io.to(message.room).emit("messageRestored", payload);
+}
+
+/**
+ * Handle /undo command: restore the author's most recent delete in the room
+ * while the room's undo window is open
+ */
+async function handleUndoCommand({ socket, user }: CommandContext): Promise<void> {
+   const undoWindowMs = roomRegistry.getUndoWindow(user.room);
+   if (undoWindowMs === 0) {
+      emitError(socket, new ForbiddenError("Undo is turned off in this room"));
+      return;
+   }
+
+   const deleted = messageRepository.getLastDeletedMessage(user.username, user.room);
+   if (!deleted) {
+      emitError(socket, new NotFoundError("You have no deleted message to undo in this room"));
+      return;
+   }
+
+   if (Date.now() - (deleted.deletedAt ?? 0) > undoWindowMs) {
+      emitError(socket, new ForbiddenError(`Too late to undo: deletes can only be undone for ${formatDuration(undoWindowMs)}`));
+      return;
+   }
+
+   try {
+      const message = await messageRepository.restoreMessage(deleted.id, user.username, undoWindowMs);
+
+      broadcastRestored(message);
+      logger.info(`Delete undone: ${message.id} by ${user.username}`);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while restoring the message", { messageId: deleted.id, username: user.username });
+   }
+}
+
+/**
+ * Handle /restore command ('restore-messages' permission)
+ */
+async function handleRestoreCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { messageId } = args;
+
+   try {
+      requireRoomMessage(messageId, user);
+      const message = await messageRepository.restoreMessage(messageId, user.username, 0, true);
+
+      broadcastRestored(message);
+      logger.info(`Message restored: ${messageId} by ${user.username}`);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while restoring the message", { messageId, username: user.username });
+   }
+}
+
+/**
+ * Check that a sanction target is a known user (online or registered)
+ * @returns Canonical username, or undefined if unknown
+ */
+function resolveSanctionTarget(username: string): string | undefined {
+   const online = userRepository.getUserByUsername(username);
+   if (online) {
+      return online.username;
+   }
+   return accountRepository.getAccount(username)?.username;
+}
+
+/**
+ * Shared implementation of /mute and /tempmute
+ * Mutes are scoped to the issuer's current room
+ */
+function muteInRoom(socket: any, user: any, targetArg: string, reason: string, durationMs?: number): void {
+   const targetUsername = resolveSanctionTarget(targetArg);
+   if (!targetUsername) {
+      emitError(socket, new NotFoundError(`User ${targetArg} not found`));
+      return;
+   }
+
+   sanctionRepository.addSanction({
+      type: 'mute',
+      username: targetUsername,
+      room: user.room,
+      reason,
+      issuedBy: user.username,
+      durationMs
+   });
+
+   const target = userRepository.getUserByUsername(targetUsername);
+   if (target && target.room === user.room) {
+      userRepository.muteUser(targetUsername);
+   }
+
+   announceMute(user.room, targetUsername, durationMs);
+   logger.info(`User muted: ${targetUsername} in ${user.room} by ${user.username}`, { reason, durationMs });
+}
+
+/**
+ * Tell a room that a user was muted, and drop them from its typing indicator
+ * Shared by /mute, /tempmute and moderation rules
+ */
+function announceMute(room: string, username: string, durationMs?: number): void {
+   if (typingTracker.stop(room, username)) {
+      broadcastTyping(room);
+   }
+
+   const duration = durationMs !== undefined ? ` for ${formatDuration(durationMs)}` : '';
+   io.to(room).emit("message", formatMessage(BOT_NAME, `${username} has been muted${duration}`));
+}
+
+/**
+ * Handle /mute command ('mute' permission)
+ */
+async function handleMuteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   muteInRoom(socket, user, args.username, args.reason || '');
+}
+
+/**
+ * Handle /tempmute command ('mute' permission)
+ */
+async function handleTempmuteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   // The registry has already checked that the duration parses
+   muteInRoom(socket, user, args.username, args.reason || '', parseDuration(args.duration)!);
+}
+
+/**
+ * Handle /unmute command ('mute' permission)
+ */
+async function handleUnmuteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const targetUsername = args.username;
+   const lifted = sanctionRepository.removeSanction('mute', targetUsername, user.room);
+
+   if (!lifted) {
+      emitError(socket, new ConflictError(`${targetUsername} is not muted in this room`));
+      return;
+   }
+
+   const target = userRepository.getUserByUsername(targetUsername);
+   if (target && !sanctionRepository.isMuted(target.username, target.room)) {
+      userRepository.unmuteUser(target.username);
+   }
+
+   io.to(user.room).emit("message", formatMessage(BOT_NAME, `${lifted.username} has been unmuted`));
+   logger.info(`User unmuted: ${lifted.username} in ${user.room} by ${user.username}`);
+}
+
+/**
+ * Handle /ban command ('ban' permission)
+ * Bans are scoped to the issuer's current room
+ */
+async function handleBanCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   banInRoom(socket, user, args.username, args.reason || '');
+}
+
+/**
+ * Shared implementation of /ban and banning from the review queue
+ */
+function banInRoom(socket: any, user: any, targetArg: string, reason: string): void {
+   const targetUsername = resolveSanctionTarget(targetArg);
+   if (!targetUsername) {
+      emitError(socket, new NotFoundError(`User ${targetArg} not found`));
+      return;
+   }
+
+   sanctionRepository.addSanction({
+      type: 'ban',
+      username: targetUsername,
+      room: user.room,
+      reason,
+      issuedBy: user.username
+   });
+
+   enforceBan(user.room, targetUsername, `You have been banned from ${user.room}${reason ? `: ${reason}` : ''}`);
+   logger.info(`User banned: ${targetUsername} from ${user.room} by ${user.username}`, { reason });
+}
+
+/**
+ * Remove a newly banned user from the room and tell the room
+ * The user leaves the room, and is disconnected if it was their only room
+ * Shared by /ban and moderation rules
+ */
+function enforceBan(room: string, username: string, notice: string): void {
+   const target = userRepository.getUserByUsername(username);
+   if (target && target.rooms.includes(room)) {
+      const targetSocket = io.sockets.sockets.get(target.id);
+      if (target.rooms.length > 1 && targetSocket) {
+         removeFromRoom(targetSocket, target, room);
+         emitError(targetSocket, new ForbiddenError(notice));
+      } else {
+         userRepository.banUser(username);
+         io.to(target.id).emit("banned", notice);
+         io.in(target.id).disconnectSockets(true);
+      }
+   }
+
+   io.to(room).emit("message", formatMessage(BOT_NAME, `${username} has been banned`));
+}
+
+/**
+ * Announce what moderation rules did about a user's message
+ * The executor has already applied sanctions and flags; this does the socket work
+ */
+function applyModerationOutcome(socket: any, user: User, outcome: ModerationOutcome): void {
+   for (const warning of outcome.warnings) {
+      socket.emit("warning", warning);
+   }
+   if (outcome.warnings.length > 0) {
+      activityTracker.recordWarning(user.username);
+   }
+   if (outcome.muted) {
+      announceMute(user.room, user.username, outcome.muted.durationMs);
+      logger.info(`User muted by moderation rules: ${user.username} in ${user.room}`, outcome.muted);
+   }
+   if (outcome.banned) {
+      const duration = outcome.banned.durationMs !== undefined ? ` for ${formatDuration(outcome.banned.durationMs)}` : '';
+      enforceBan(user.room, user.username, `You have been banned from ${user.room}${duration} by moderation rules`);
+      logger.info(`User banned by moderation rules: ${user.username} from ${user.room}`, outcome.banned);
+   }
+   if (outcome.flagged) {
+      broadcastReviewItem(outcome.flagged);
+      logger.info(`Message flagged for review: ${outcome.flagged.id} from ${user.username} in ${user.room}`);
+   }
+}
+
+/**
+ * Handle /unban command ('ban' permission)
+ */
+async function handleUnbanCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const lifted = sanctionRepository.removeSanction('ban', args.username, user.room);
+
+   if (!lifted) {
+      emitError(socket, new ConflictError(`${args.username} is not banned from this room`));
+      return;
+   }
+
+   io.to(user.room).emit("message", formatMessage(BOT_NAME, `${lifted.username} has been unbanned`));
+   logger.info(`User unbanned: ${lifted.username} from ${user.room} by ${user.username}`);
+}
+
+/**
+ * A review item with the messages leading up to it, for moderators to judge it by
+ * Items for blocked messages, or for messages outside the room, have no context
+ */
+function toReviewItemPayload(item: ReviewItem): ReviewItemPayload {
+   const message = item.messageId ? messageRepository.getMessage(item.messageId) : undefined;
+   if (!message || message.room !== item.room) {
+      return { ...item, context: [] };
+   }
+
+   return {
+      ...item,
+      context: [
+         ...messageRepository.getMessagesPage(item.room, message.id, REVIEW_CONTEXT_SIZE).messages,
+         toMessagePayload(message, messageRepository.getReaders(message.id))
+      ]
+   };
+}
+
+/**
+ * Send a new or changed review item to every member of its room who can review it
+ */
+function broadcastReviewItem(item: ReviewItem): void {
+   const payload: ModerationQueuePayload = { room: item.room, snapshot: false, items: [toReviewItemPayload(item)] };
+   for (const member of userRepository.getRoomUsers(item.room)) {
+      if (permissions.can(member.role, 'review-queue', item.room)) {
+         io.to(member.id).emit("moderationQueue", payload);
+      }
+   }
+}
+
+/**
+ * Look up a review item in the user's active room
+ * @throws NotFoundError if there is no such item there
+ */
+function requireRoomReviewItem(itemId: string, user: User): ReviewItem {
+   const item = reviewQueue.getItem(itemId);
+   if (!item || item.room !== user.room) {
+      throw new NotFoundError(`Review item ${itemId} not found`);
+   }
+   return item;
+}
+
+/**
+ * Handle /report command
+ * Anyone can report a message in their room; moderators see it in the queue
+ */
+async function handleReportCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { messageId, reason } = args;
+
+   try {
+      const message = requireRoomMessage(messageId, user);
+      if (message.deleted) {
+         throw new ConflictError('That message has already been deleted');
+      }
+      if (message.username === user.username) {
+         throw new ConflictError('You cannot report your own message');
+      }
+
+      const item = reviewQueue.report({
+         room: user.room,
+         messageId,
+         author: message.username,
+         text: message.text,
+         reason,
+         reportedBy: user.username
+      });
+
+      broadcastReviewItem(item);
+      socket.emit("message", formatMessage(BOT_NAME, "Thanks, the moderators will review your report"));
+      logger.info(`Message reported: ${messageId} by ${user.username}`, { itemId: item.id });
+   } catch (error) {
+      emitError(socket, error, "An error occurred while reporting the message", { messageId, username: user.username });
+   }
+}
+
+/**
+ * Handle /queue command ('review-queue' permission)
+ * The queue goes to the requesting socket only
+ */
+async function handleQueueCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const filter = (args.status || 'open').toLowerCase();
+   if (filter !== 'all' && !isReviewStatus(filter)) {
+      emitError(socket, new ValidationError(`"${args.status}" is not a review status (use open, dismissed, actioned or all)`, 'status'));
+      return;
+   }
+
+   const items = reviewQueue.getItems(user.room, filter === 'all' ? undefined : filter);
+   const payload: ModerationQueuePayload = { room: user.room, snapshot: true, items: items.map(toReviewItemPayload) };
+   socket.emit("moderationQueue", payload);
+}
+
+/**
+ * Handle /assign command ('review-queue' permission)
+ * Without a username, the moderator takes the item
+ */
+async function handleAssignCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { itemId } = args;
+
+   try {
+      requireRoomReviewItem(itemId, user);
+
+      let assignee = user.username;
+      if (args.username) {
+         const target = userRepository.getUserByUsername(args.username) || accountRepository.getAccount(args.username);
+         if (!target) {
+            throw new NotFoundError(`User ${args.username} not found`);
+         }
+         if (!permissions.can(target.role, 'review-queue', user.room)) {
+            throw new ValidationError(`${target.username} cannot review this room's queue`, 'username');
+         }
+         assignee = target.username;
+      }
+
+      const item = reviewQueue.assign(itemId, assignee);
+      broadcastReviewItem(item);
+      logger.info(`Review item assigned: ${itemId} to ${assignee} by ${user.username}`);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while assigning the review item", { itemId, username: user.username });
+   }
+}
+
+/**
+ * Handle /note command ('review-queue' permission)
+ */
+async function handleNoteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { itemId, text } = args;
+
+   try {
+      requireRoomReviewItem(itemId, user);
+      broadcastReviewItem(reviewQueue.addNote(itemId, user.username, text));
+   } catch (error) {
+      emitError(socket, error, "An error occurred while adding the note", { itemId, username: user.username });
+   }
+}
+
+/**
+ * Permission each /resolve action needs on top of 'review-queue'
+ */
+const RESOLUTION_PERMISSIONS: Partial<Record<ReviewResolution, Permission>> = {
+   delete: 'delete-others',
+   mute: 'mute',
+   ban: 'ban'
+};
+
+/**
+ * Handle /resolve command ('review-queue' permission)
+ * Acts on the message or its author, then closes the item; actions are audited
+ */
+async function handleResolveCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { itemId, note } = args;
+   const resolution = args.action.toLowerCase();
+
+   try {
+      if (!isReviewResolution(resolution)) {
+         throw new ValidationError(`"${args.action}" is not a review action (use dismiss, delete, warn, mute or ban)`, 'action');
+      }
+
+      const item = requireRoomReviewItem(itemId, user);
+      if (item.status !== 'open') {
+         throw new ConflictError(`Review item ${itemId} is already ${item.status}`);
+      }
+      const permission = RESOLUTION_PERMISSIONS[resolution];
+      if (permission && !permissions.can(user.role, permission, user.room)) {
+         throw new ForbiddenError(`You don't have permission to ${resolution} from the review queue`);
+      }
+
+      await actOnReviewItem(socket, user, item, resolution, note || item.reason);
+
+      if (note) {
+         reviewQueue.addNote(itemId, user.username, note);
+      }
+      const resolved = reviewQueue.resolve(itemId, resolution, user.username);
+      if (resolution !== 'dismiss') {
+         auditLog.record({
+            action: resolution,
+            username: item.author,
+            room: item.room,
+            actor: user.username,
+            reviewItemId: item.id,
+            messageId: item.messageId,
+            detail: note
+         });
+      }
+
+      broadcastReviewItem(resolved);
+      logger.info(`Review item resolved: ${itemId} (${resolution}) by ${user.username}`);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while resolving the review item", { itemId, username: user.username });
+   }
+}
+
+/**
+ * Carry out a /resolve action on a review item's message or author
+ * @throws ConflictError if there is no message to delete
+ * @throws NotFoundError if the author to sanction is unknown
+ */
+async function actOnReviewItem(socket: any, user: User, item: ReviewItem, resolution: ReviewResolution, reason: string): Promise<void> {
+   switch (resolution) {
+      case 'delete': {
+         const message = item.messageId ? messageRepository.getMessage(item.messageId) : undefined;
+         if (!message || message.room !== item.room) {
+            throw new ConflictError('There is no message to delete: it was blocked or sent elsewhere');
+         }
+         if (!message.deleted) {
+            await messageRepository.deleteMessage(message.id, user.username, true);
+            broadcastDeleted(message.id, item.room);
+         }
+         break;
+      }
+      case 'warn': {
+         activityTracker.recordWarning(item.author);
+         const author = userRepository.getUserByUsername(item.author);
+         if (author) {
+            io.to(author.id).emit("warning", `A moderator warned you about your message in ${item.room}: ${reason}`);
+         }
+         break;
+      }
+      case 'mute':
+      case 'ban':
+         if (!resolveSanctionTarget(item.author)) {
+            throw new NotFoundError(`User ${item.author} not found`);
+         }
+         if (resolution === 'mute') {
+            muteInRoom(socket, user, item.author, reason);
+         } else {
+            banInRoom(socket, user, item.author, reason);
+         }
+         break;
+   }
+}
+
+/**
+ * Change a user's role on their account and live session
+ */
+function changeRole(socket: any, user: any, targetArg: string, role: UserRole): void {
+   const account = accountRepository.getAccount(targetArg);
+   if (!account) {
+      emitError(socket, new NotFoundError(`User ${targetArg} not found`));
+      return;
+   }
+   if (account.username.toLowerCase() === user.username.toLowerCase()) {
+      emitError(socket, new ForbiddenError("You cannot change your own role"));
+      return;
+   }
+
+   accountRepository.setRole(account.username, role);
+   userRepository.setUserRole(account.username, role);
+
+   const description = role === 'user' ? 'a regular user' : `a ${role}`;
+   io.to(user.room).emit("message", formatMessage(BOT_NAME, `${account.username} is now ${description}`));
+   logger.info(`Role changed: ${account.username} -> ${role} by ${user.username}`);
+}
+
+/**
+ * Handle /promote command ('manage-roles' permission)
+ */
+async function handlePromoteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   changeRole(socket, user, args.username, args.role as UserRole);
+}
+
+/**
+ * Handle /demote command ('manage-roles' permission)
+ */
+async function handleDemoteCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   changeRole(socket, user, args.username, 'user');
+}
+
+/**
+ * Check that a message belongs to the user's current room
+ * Message commands only act on the current room, so IDs from other rooms
+ * or direct message conversations cannot be used to broadcast their text
+ */
+function isInCurrentRoom(messageId: string, user: User): boolean {
+   return messageRepository.getMessage(messageId)?.room === user.room;
+}
+
+/**
+ * Look up a message in the user's active room
+ * @throws NotFoundError if there is no such message there; messages in other
+ *   rooms are reported the same way so their IDs reveal nothing
+ */
+function requireRoomMessage(messageId: string, user: User): Message {
+   if (!isInCurrentRoom(messageId, user)) {
+      throw new NotFoundError(`Message ${messageId} not found`);
+   }
+   return messageRepository.getMessage(messageId)!;
+}
+
+/**
+ * Report a failed request to the socket that made it; every "error" event goes through here
+ * Typed failures are sent as an ErrorPayload whose code the client acts on;
+ * anything else is a bug, so it is logged and the user gets the fallback text
+ * with the 'internal' code
+ */
+function emitError(socket: any, error: unknown, fallback: string = "Something went wrong", context: Record<string, unknown> = {}): void {
+   if (error instanceof ChatError) {
+      socket.emit("error", error.toPayload());
+      return;
+   }
+   logger.error(fallback, { error, ...context });
+   const payload: ErrorPayload = { code: 'internal', message: fallback };
+   socket.emit("error", payload);
+}
+
+/**
+ * Convert a stored direct message into the payload sent to both participants
+ */
+function toDirectMessagePayload(
+   message: Pick<Message, 'id' | 'username' | 'text' | 'time' | 'timestamp'>,
+   to: string
+): DirectMessagePayload {
+   return {
+      id: message.id,
+      from: message.username,
+      to,
+      text: message.text,
+      time: message.time,
+      timestamp: message.timestamp
+   };
+}
+
+/**
+ * Deliver a private message to one online user and store it in their conversation
+ * Shared by /msg and the privateMessage event
+ */
+async function sendDirectMessage(socket: any, user: User, targetArg: string, text: string): Promise<void> {
+   const target = userRepository.getUserByUsername(targetArg);
+   if (!target) {
+      emitError(socket, new NotFoundError(`User ${targetArg} is not online`));
+      return;
+   }
+   if (target.username.toLowerCase() === user.username.toLowerCase()) {
+      emitError(socket, new ValidationError("You cannot send a private message to yourself", 'to'));
+      return;
+   }
+
+   // Sanctions from rules apply in the sender's active room, as mutes for private messages do,
+   // but flags are not queued there; private messages count towards the sender's activity like
+   // room messages
+   activityTracker.recordMessage(user.username, text);
+   const matches = moderationEngine.match(text, user.username);
+   let message: Message | undefined;
+   if (isBlocked(matches)) {
+      emitError(socket, new ForbiddenError("Your message was blocked by moderation rules"));
+      logger.info(`Private message blocked by moderation: ${user.username} -> ${target.username}`);
+   } else {
+      message = await messageRepository.addMessage(
+         user.username,
+         text,
+         getDirectMessageRoom(user.username, target.username)
+      );
+      const payload = toDirectMessagePayload(message, target.username);
+
+      // Deliver to the recipient's socket only, and echo to the sender
+      io.to(target.id).emit("privateMessage", payload);
+      socket.emit("privateMessage", payload);
+      logger.info(`Private message sent: ${message.id} from ${user.username} to ${target.username}`);
+   }
+
+   const outcome = moderationExecutor.execute(matches, {
+      username: user.username,
+      room: user.room,
+      text,
+      messageId: message?.id,
+      isPrivate: true
+   });
+   applyModerationOutcome(socket, user, outcome);
+}
+
+/**
+ * Toggle a reaction on a message in the user's room and broadcast the new counts
+ * Shared by /react and the toggleReaction event
+ */
+async function toggleReaction(socket: any, user: User, messageId: string, emoji: string): Promise<void> {
+   try {
+      requireRoomMessage(messageId, user);
+      if (!isEmoji(emoji)) {
+         throw new ValidationError(`"${emoji}" is not an emoji`, 'emoji');
+      }
+
+      const { added, reactions } = await messageRepository.toggleReaction(messageId, emoji, user.username);
+
+      io.to(user.room).emit("reactionToggled", { id: messageId, reactions });
+      logger.info(`Reaction ${added ? 'added' : 'removed'}: ${emoji} on ${messageId} by ${user.username}`);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while reacting to the message", { messageId, username: user.username });
+   }
+}
+
+/**
+ * Handle /react command
+ */
+async function handleReactCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   await toggleReaction(socket, user, args.messageId, args.emoji);
+}
+
+/**
+ * Handle /search command
+ * Results go to the requesting socket only
+ */
+async function handleSearchCommand({ socket, user, input }: CommandContext): Promise<void> {
+   // Parse the typed query rather than the bound argument, which has lost its quotes
+   const { query, error } = parseSearchQuery(input.trim().replace(/^\/\S+\s*/, ''));
+   if (error || !query) {
+      emitError(socket, new ValidationError(`Invalid search: ${error}`, 'query'));
+      return;
+   }
+
+   socket.emit("searchResults", messageRepository.search(user.room, query, SEARCH_RESULT_LIMIT));
+   logger.debug(`Search in ${user.room} by ${user.username}`, { query: query.raw });
+}
+
+/**
+ * Send a message's edit history to one socket, if the room lets the user see it
+ */
+function sendEditHistory(socket: any, user: User, messageId: string): void {
+   const message = messageRepository.getMessage(messageId);
+   const revisions = isInCurrentRoom(messageId, user) ? messageRepository.getEditHistory(messageId) : undefined;
+
+   if (!message || !revisions) {
+      emitError(socket, new NotFoundError(`Message with ID "${messageId}" not found.`));
+      return;
+   }
+
+   const moderator = permissions.can(user.role, 'view-history', user.room);
+   if (!roomRegistry.canViewHistory(user.room, user.username, message.username, moderator)) {
+      emitError(socket, new ForbiddenError("Edit histories in this room are only visible to authors and the users the room allows"));
+      return;
+   }
+
+   const payload: EditHistoryPayload = { messageId, author: message.username, revisions };
+   socket.emit("editHistory", payload);
+}
+
+/**
+ * Handle /history command
+ * The history goes to the requesting socket only
+ */
+async function handleHistoryCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   sendEditHistory(socket, user, args.messageId);
+}
+
+/**
+ * Handle /msg command
+ */
+async function handleMsgCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   await sendDirectMessage(socket, user, args.username, args.text);
+}
+
+/**
+ * Send a room's name and topic to everyone in it
+ */
+function broadcastRoomInfo(room: Room): void {
+   io.to(room.name).emit("roomInfo", toRoomSummary(room, getRoomUsers(room.name).length));
+}
+
+/**
+ * Check whether a user may change their current room's topic and settings:
+ * the room's creator, or anyone with the 'manage-rooms' permission
+ */
+function canManageRoom(user: User): boolean {
+   return roomRegistry.isCreator(user.room, user.username)
+      || permissions.can(user.role, 'manage-rooms', user.room);
+}
+
+/**
+ * Handle /create command
+ */
+async function handleCreateCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { error, room } = roomRegistry.createRoom(args.room, user.username, { topic: args.topic });
+
+   if (error || !room) {
+      emitError(socket, new ValidationError(error!, 'room'));
+      return;
+   }
+
+   socket.emit("message", formatMessage(BOT_NAME, `Room ${room.name} created. It is listed on the landing page; change its settings with /roomsettings once you join it.`));
+   logger.info(`Room created: ${room.name} by ${user.username}`);
+}
+
+/**
+ * Handle /topic command (room creator or 'manage-rooms' permission)
+ */
+async function handleTopicCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   if (!canManageRoom(user)) {
+      emitError(socket, new ForbiddenError("Only the room creator or an admin can change the topic"));
+      return;
+   }
+
+   const { error, room } = roomRegistry.setTopic(user.room, args.topic || '');
+   if (error || !room) {
+      emitError(socket, new ValidationError(error!, 'topic'));
+      return;
+   }
+
+   broadcastRoomInfo(room);
+   const announcement = room.topic ? `${user.username} set the topic to: ${room.topic}` : `${user.username} cleared the topic`;
+   io.to(room.name).emit("message", formatMessage(BOT_NAME, announcement));
+   logger.info(`Topic changed in ${room.name} by ${user.username}`);
+}
+
+/**
+ * Describe a room's settings for /roomsettings without arguments
+ */
+function describeRoomSettings(room: Room): string {
+   const policy = room.editPolicy ?? {};
+   const parts = [
+      `visibility ${room.visibility}`,
+      `password ${room.passwordHash !== undefined ? 'set' : 'none'}`,
+      `max ${room.maxMembers ?? 'none'}`,
+      `history ${room.historyVisibility ?? 'everyone'}`,
+      `undo ${room.undoWindowMs === 0 ? 'none' : formatDuration(roomRegistry.getUndoWindow(room.name))}`,
+      `editwindow ${policy.editWindowMs !== undefined ? formatDuration(policy.editWindowMs) : 'none'}`,
+      `maxedits ${policy.maxEdits ?? 'none'}`,
+      `replylock ${policy.lockReplied ? 'on' : 'off'}`,
+      `deletewindow ${policy.deleteWindowMs !== undefined ? formatDuration(policy.deleteWindowMs) : 'none'}`
+   ];
+   if (room.visibility === 'invite-only') {
+      parts.push(`invited ${room.invited.length > 0 ? room.invited.join(', ') : 'nobody'}`);
+   }
+   return `Settings for ${room.displayName} (${room.name}): ${parts.join('; ')}`;
+}
+
+/**
+ * Handle /roomsettings command (room creator or 'manage-rooms' permission)
+ */
+async function handleRoomSettingsCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   if (!canManageRoom(user)) {
+      emitError(socket, new ForbiddenError("Only the room creator or an admin can change room settings"));
+      return;
+   }
+
+   const setting = (args.setting || '').toLowerCase();
+   const value = (args.value || '').trim();
+   const current = roomRegistry.getRoom(user.room);
+
+   if (!current) {
+      emitError(socket, new NotFoundError("This room no longer exists"));
+      return;
+   }
+
+   if (!setting) {
+      socket.emit("message", formatMessage(BOT_NAME, describeRoomSettings(current)));
+      return;
+   }
+
+   if (!value) {
+      emitError(socket, new ValidationError(`/roomsettings ${setting} needs a value`, 'value'));
+      return;
+   }
+
+   let result;
+   let announcement: string;
+   switch (setting) {
+      case 'visibility':
+         if (!isRoomVisibility(value)) {
+            emitError(socket, new ValidationError(`Visibility must be one of: ${ROOM_VISIBILITIES.join(', ')}`, 'value'));
+            return;
+         }
+         result = roomRegistry.setVisibility(user.room, value);
+         announcement = `This room is now ${value}`;
+         break;
+      case 'password':
+         result = roomRegistry.setPassword(user.room, value === 'none' ? undefined : value);
+         announcement = value === 'none' ? 'This room no longer needs a password' : 'This room now needs a password to join';
+         break;
+      case 'max': {
+         const maxMembers = value === 'none' ? undefined : Number(value);
+         result = roomRegistry.setMaxMembers(user.room, maxMembers);
+         announcement = value === 'none' ? 'This room no longer has a member limit' : `This room now admits at most ${value} members`;
+         break;
+      }
+      case 'name':
+         result = roomRegistry.setDisplayName(user.room, value);
+         announcement = `This room is now called ${value}`;
+         break;
+      case 'editwindow':
+      case 'deletewindow': {
+         const windowMs = value === 'none' ? undefined : parseDuration(value);
+         if (windowMs === null) {
+            emitError(socket, new ValidationError(`The ${setting === 'editwindow' ? 'edit' : 'delete'} window must be a duration such as 30s, 15m or 1h, or "none"`, 'value'));
+            return;
+         }
+         const key = setting === 'editwindow' ? 'editWindowMs' : 'deleteWindowMs';
+         const verb = setting === 'editwindow' ? 'edited' : 'deleted';
+         result = roomRegistry.setEditPolicy(user.room, { ...roomRegistry.getEditPolicy(user.room), [key]: windowMs });
+         announcement = windowMs === undefined
+            ? `Messages can now be ${verb} at any time`
+            : `Messages can now only be ${verb} for ${formatDuration(windowMs)} after sending`;
+         break;
+      }
+      case 'maxedits': {
+         const maxEdits = value === 'none' ? undefined : Number(value);
+         result = roomRegistry.setEditPolicy(user.room, { ...roomRegistry.getEditPolicy(user.room), maxEdits });
+         announcement = maxEdits === undefined
+            ? 'Messages can now be edited any number of times'
+            : `Messages can now be edited at most ${maxEdits} time${maxEdits === 1 ? '' : 's'}`;
+         break;
+      }
+      case 'replylock':
+         if (value !== 'on' && value !== 'off') {
+            emitError(socket, new ValidationError('The reply lock must be "on" or "off"', 'value'));
+            return;
+         }
+         result = roomRegistry.setEditPolicy(user.room, { ...roomRegistry.getEditPolicy(user.room), lockReplied: value === 'on' });
+         announcement = value === 'on'
+            ? 'Messages with replies can no longer be edited'
+            : 'Messages with replies can be edited again';
+         break;
+      case 'history':
+         if (!isHistoryVisibility(value)) {
+            emitError(socket, new ValidationError(`History visibility must be one of: ${HISTORY_VISIBILITIES.join(', ')}`, 'value'));
+            return;
+         }
+         result = roomRegistry.setHistoryVisibility(user.room, value);
+         announcement = value === 'everyone'
+            ? 'Everyone can now view edit histories in this room'
+            : `Edit histories in this room are now visible to ${value === 'author' ? 'their authors only' : 'their authors and moderators'}`;
+         break;
+      case 'undo': {
+         const undoWindowMs = value === 'none' ? 0 : parseDuration(value);
+         if (undoWindowMs === null) {
+            emitError(socket, new ValidationError('The undo window must be a duration such as 30s, 10m or 1h, or "none"', 'value'));
+            return;
+         }
+         result = roomRegistry.setUndoWindow(user.room, undoWindowMs);
+         announcement = undoWindowMs === 0
+            ? 'Deleted messages can no longer be undone in this room'
+            : `Authors can now undo a delete for ${formatDuration(undoWindowMs)}`;
+         break;
+      }
+      case 'invite': {
+         const account = accountRepository.getAccount(value);
+         if (!account) {
+            emitError(socket, new NotFoundError(`User ${value} not found`));
+            return;
+         }
+         result = roomRegistry.invite(user.room, account.username);
+         announcement = `${account.username} has been invited to this room`;
+         break;
+      }
+      default:
+         emitError(socket, new ValidationError(`Unknown setting "${setting}". Use visibility, password, max, name, invite, history, undo, editwindow, maxedits, replylock or deletewindow`, 'setting'));
+         return;
+   }
+
+   if (result.error || !result.room) {
+      emitError(socket, new ValidationError(result.error!, 'value'));
+      return;
+   }
+
+   broadcastRoomInfo(result.room);
+   io.to(result.room.name).emit("message", formatMessage(BOT_NAME, announcement));
+   logger.info(`Room setting changed in ${result.room.name}: ${setting} by ${user.username}`);
+}
+
+/**
+ * Remove expired sanctions and tell the affected rooms
+ */
+function sweepExpiredSanctions(): void {
+   for (const sanction of sanctionRepository.expireSanctions()) {
+      const target = userRepository.getUserByUsername(sanction.username);
+      const room = sanction.room || target?.room;
+
+      if (sanction.type === 'mute' && target && !sanctionRepository.isMuted(target.username, target.room)) {
+         userRepository.unmuteUser(target.username);
+      }
+
+      if (room) {
+         const ended = sanction.type === 'mute' ? 'mute' : 'ban';
+         io.to(room).emit("message", formatMessage(BOT_NAME, `${sanction.username}'s ${ended} has expired`));
+      }
+      logger.info(`Sanction expired: ${sanction.type} on ${sanction.username}`, { room: sanction.room });
+   }
+}
+
+/**
+ * Check whether a user may appear in typing summaries
+ * Muted and banned users are left out even if their client keeps sending typingStart
+ */
+function canShowTyping(username: string, room: string): boolean {
+   const typer = userRepository.getUserByUsername(username);
+   return typer !== undefined
+      && !typer.muted
+      && !typer.banned
+      && !sanctionRepository.isMuted(username, room)
+      && !sanctionRepository.isBanned(username, room);
+}
+
+/**
+ * Send each member of a room the summary of who else is typing
  */
-async function handleEditCommand(socket: any, args: string[], user: any): Promise<void> {
-   console.log('🔍 DEBUG handleEditCommand - args:', args);
-   console.log('🔍 DEBUG handleEditCommand - args.length:', args.length);
-
-   const messageId = args[0];
-   const newText = args.slice(1).join(' ').trim(); // Trim whitespace
+function broadcastTyping(room: string): void {
+   const typers = typingTracker.getTypingUsers(room).filter(username => canShowTyping(username, room));
 
-   console.log('🔍 DEBUG handleEditCommand - messageId:', messageId);
-   console.log('🔍 DEBUG handleEditCommand - newText:', newText);
-   console.log('🔍 DEBUG handleEditCommand - newText.length:', newText.length);
-   console.log('🔍 DEBUG handleEditCommand - user.username:', user.username);
+   for (const member of getRoomUsers(room)) {
+      const others = typers.filter(username => username.toLowerCase() !== member.username.toLowerCase());
+      io.to(member.id).emit("typing", { room, summary: formatTypingSummary(others) });
+   }
+}
 
-   // Validate that newText is not empty
-   if (!newText || newText.length === 0) {
-      socket.emit("error", "Cannot edit message with empty text. Usage: /edit <messageId> <newText>");
-      logger.warn(`Edit failed: ${user.username} provided empty text for ${messageId}`);
-      return;
+/**
+ * Drop typers whose clients stopped refreshing and update their rooms
+ */
+function sweepExpiredTyping(): void {
+   for (const room of typingTracker.expire()) {
+      broadcastTyping(room);
    }
+}
 
-   try {
-      const editedMessage = await messageRepository.editMessage(messageId, newText, user.username);
+/**
+ * Handle /reply command (threaded conversations)
+ */
+async function handleReplyCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const { messageId: parentMessageId, text: replyText } = args;
 
-      if (!editedMessage) {
-         console.log('🔍 DEBUG handleEditCommand - editedMessage is null (authorization failed)');
-         socket.emit("error", "Could not edit message. You can only edit your own messages.");
-         logger.warn(`Edit failed: ${user.username} tried to edit ${messageId}`);
-         return;
-      }
+   try {
+      requireRoomMessage(parentMessageId, user);
 
-      console.log('🔍 DEBUG handleEditCommand - editedMessage:', editedMessage);
+      const replyMessage = await messageRepository.addMessage(
+         user.username,
+         replyText,
+         user.room,
+         parentMessageId
+      );
 
-      // Broadcast the edit to all users in the room
-      io.to(user.room).emit("messageEdited", {
-         id: editedMessage.id,
-         text: editedMessage.text,
-         edited: true,
-         time: editedMessage.time
-      });
+      // Broadcast the reply with the new reply counts for its thread
+      const payload: MessageReplyPayload = {
+         message: toMessagePayload(replyMessage),
+         replyCounts: messageRepository.getAncestorReplyCounts(replyMessage.id)
+      };
+      io.to(user.room).emit("messageReply", payload);
 
-      logger.info(`Message edited: ${messageId} by ${user.username}`);
+      logger.info(`Reply sent: ${replyMessage.id} to ${parentMessageId} by ${user.username}`);
    } catch (error) {
-      console.log('🔍 DEBUG handleEditCommand - Error caught:', error);
-
-      // Provide more specific error messages
-      if (error instanceof Error) {
-         if (error.message.includes('message does not exist')) {
-            socket.emit("error", `Message with ID "${messageId}" not found.`);
-         } else if (error.message.includes('deleted message')) {
-            socket.emit("error", "Cannot edit a deleted message.");
-         } else {
-            socket.emit("error", `Failed to edit message: ${error.message}`);
-         }
-      } else {
-         socket.emit("error", "An error occurred while editing the message");
-      }
-
-      // Log the error but don't re-throw it since we've already handled it
-      logger.error('Error in handleEditCommand', { error, messageId, username: user.username });
+      emitError(socket, error, "Could not send reply", { parentMessageId, username: user.username });
    }
 }
 
 /**
- * Handle /delete command
+ * Check whether a user may join a room
+ * Only registered rooms can be joined; their names never match a direct
+ * message conversation, which is only reachable through loadDirectMessages
+ * @returns The room, or why the user cannot join it
  */
-async function handleDeleteCommand(socket: any, args: string[], user: any): Promise<void> {
-   const messageId = args[0];
+function checkRoomAccess(roomName: string, username: string, role: UserRole | undefined, password?: string): RoomResult {
+   const room = roomRegistry.getRoom(roomName);
+   const error = roomRegistry.checkJoin(roomName, username, {
+      password,
+      memberCount: room ? getRoomUsers(room.name).length : 0,
+      bypass: permissions.can(role, 'manage-rooms', roomName)
+   });
+   return error ? { error } : { room };
+}
 
-   try {
-      const success = await messageRepository.deleteMessage(messageId, user.username);
+/**
+ * Send the list of rooms the user is in, and which one is active
+ */
+function emitUserRooms(socket: any, user: User): void {
+   socket.emit("userRooms", { active: user.room, rooms: user.rooms });
+}
 
-      if (!success) {
-         socket.emit("error", "Could not delete message. You can only delete your own messages.");
-         logger.warn(`Delete failed: ${user.username} tried to delete ${messageId}`);
-         return;
-      }
+/**
+ * Subscribe a socket to the user's newly active room and send its state:
+ * name and topic, the latest page of history, the user's read position and their room list
+ * @param announce - Tell the room the user joined (false when switching back to a room they are already in)
+ */
+function enterRoom(socket: any, user: User, room: Room, announce: boolean): void {
+   socket.join(room.name);
 
-      // Broadcast the deletion to all users in the room
-      io.to(user.room).emit("messageDeleted", { id: messageId });
+   // Send the room's display name and topic
+   socket.emit("roomInfo", toRoomSummary(room, getRoomUsers(room.name).length));
 
-      logger.info(`Message deleted: ${messageId} by ${user.username}`);
-   } catch (error) {
-      console.log('🔍 DEBUG handleDeleteCommand - Error caught:', error);
+   // Send the latest page of room history before any live messages
+   socket.emit("roomHistory", messageRepository.getMessagesPage(room.name, undefined, HISTORY_PAGE_SIZE));
 
-      if (error instanceof Error && error.message.includes('message does not exist')) {
-         socket.emit("error", `Message with ID "${messageId}" not found.`);
-      } else {
-         socket.emit("error", "An error occurred while deleting the message");
-      }
+   // Tell the client where the user stopped reading so it can show unread messages
+   socket.emit("readState", {
+      room: room.name,
+      lastReadId: messageRepository.getLastRead(room.name, user.username),
+      unreadCount: messageRepository.getUnreadCount(room.name, user.username)
+   });
+
+   emitUserRooms(socket, user);
 
-      logger.error('Error in handleDeleteCommand', { error, messageId, username: user.username });
+   if (announce) {
+      socket.broadcast.to(room.name).emit("message", formatMessage(BOT_NAME, `${user.username} has joined the chat!`));
    }
+
+   // Send room users info to all users in room
+   io.to(room.name).emit("roomUsers", { room: room.name, users: getRoomUsers(room.name) });
 }
 
 /**
- * Handle /mute command (admin/moderator only)
+ * Stop receiving live events from a room that is no longer the user's active room
  */
-async function handleMuteCommand(socket: any, args: string[], user: any): Promise<void> {
-   if (user.role !== 'admin' && user.role !== 'moderator') {
-      socket.emit("error", "You don't have permission to mute users");
-      return;
+function exitRoom(socket: any, username: string, room: string): void {
+   if (typingTracker.stop(room, username)) {
+      broadcastTyping(room);
    }
+   socket.leave(room);
+}
 
-   const targetUsername = args[0];
-   const success = userRepository.muteUser(targetUsername);
-
-   if (!success) {
-      socket.emit("error", `User ${targetUsername} not found`);
-      return;
+/**
+ * Take a user out of one of their rooms, switching their active room if needed
+ * Shared by /leave and /ban
+ * @throws NotFoundError or ConflictError from UserRepository.leaveRoom
+ */
+function removeFromRoom(socket: any, user: User, roomName: string): void {
+   const previousRoom = user.room;
+   userRepository.leaveRoom(user.id, roomName);
+
+   io.to(roomName).emit("message", formatMessage(BOT_NAME, `${user.username} has left the chat!`));
+
+   const activeRoom = roomRegistry.getRoom(user.room);
+   if (user.room !== previousRoom && activeRoom) {
+      exitRoom(socket, user.username, previousRoom);
+      enterRoom(socket, user, activeRoom, false);
+   } else {
+      emitUserRooms(socket, user);
    }
 
-   io.to(user.room).emit("message", formatMessage(BOT_NAME, `${targetUsername} has been muted`));
-   logger.info(`User muted: ${targetUsername} by ${user.username}`);
+   io.to(roomName).emit("roomUsers", { room: roomName, users: getRoomUsers(roomName) });
 }
 
 /**
- * Handle /ban command (admin only)
+ * Handle /join command
+ * Joins a room (or switches back to one the user is already in) on the same socket;
+ * the user stays a member of their other rooms
  */
-async function handleBanCommand(socket: any, args: string[], user: any): Promise<void> {
-   if (user.role !== 'admin') {
-      socket.emit("error", "You don't have permission to ban users");
+async function handleJoinCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const alreadyMember = user.rooms.find(joined => joined.toLowerCase() === args.room.toLowerCase());
+   if (alreadyMember === user.room) {
+      emitError(socket, new ConflictError(`You are already in ${user.room}`));
       return;
    }
 
-   const targetUsername = args[0];
-   const success = userRepository.banUser(targetUsername);
+   const { error: accessError, room } = alreadyMember
+      ? { error: undefined, room: roomRegistry.getRoom(alreadyMember) }
+      : checkRoomAccess(args.room, user.username, user.role, args.password);
+   if (accessError || !room) {
+      emitError(socket, roomRegistry.getRoom(args.room)
+         ? new ForbiddenError(accessError!)
+         : new NotFoundError(accessError || `Room ${args.room} does not exist`));
+      return;
+   }
 
-   if (!success) {
-      socket.emit("error", `User ${targetUsername} not found`);
+   const previousRoom = user.room;
+   try {
+      userRepository.switchRoom(socket.id, room.name);
+   } catch (error) {
+      emitError(socket, error, "An error occurred while joining the room", { room: room.name, username: user.username });
       return;
    }
 
-   io.to(user.room).emit("message", formatMessage(BOT_NAME, `${targetUsername} has been banned`));
-   logger.info(`User banned: ${targetUsername} by ${user.username}`);
+   exitRoom(socket, user.username, previousRoom);
+   enterRoom(socket, user, room, !alreadyMember);
+
+   io.to(previousRoom).emit("roomUsers", { room: previousRoom, users: getRoomUsers(previousRoom) });
+   logger.info(`User switched room: ${user.username} ${previousRoom} -> ${room.name}`);
 }
 
 /**
- * Handle /reply command (threaded conversations)
+ * Handle /leave command
+ * Leaves the named room, or the active room; leaving the active room switches
+ * to the most recently joined remaining room
  */
-async function handleReplyCommand(socket: any, args: string[], user: any): Promise<void> {
-   const parentMessageId = args[0];
-   const replyText = args.slice(1).join(' ');
+async function handleLeaveCommand({ socket, user }: CommandContext, args: CommandArgs): Promise<void> {
+   const roomName = args.room
+      ? user.rooms.find(joined => joined.toLowerCase() === args.room.toLowerCase()) ?? args.room
+      : user.room;
 
    try {
-      const replyMessage = await messageRepository.addMessage(
-         user.username,
-         replyText,
-         user.room,
-         parentMessageId
-      );
-
-      // Broadcast the reply
-      io.to(user.room).emit("messageReply", {
-         id: replyMessage.id,
-         username: replyMessage.username,
-         text: replyMessage.text,
-         time: replyMessage.time,
-         parentId: replyMessage.parentId
-      });
-
-      logger.info(`Reply sent: ${replyMessage.id} to ${parentMessageId} by ${user.username}`);
+      if (user.rooms.length === 1 && roomName === user.room) {
+         throw new ConflictError("You cannot leave your only room. Use Leave Room to log out.");
+      }
+      removeFromRoom(socket, user, roomName);
    } catch (error) {
-      socket.emit("error", "Could not send reply. Parent message may not exist.");
-      logger.error('Reply failed', { error, user: user.username, parentMessageId });
+      emitError(socket, error, "An error occurred while leaving the room", { room: roomName, username: user.username });
+      return;
    }
+
+   socket.emit("message", formatMessage(BOT_NAME, `You left ${roomName}`));
+   logger.info(`User left room: ${user.username} from ${roomName}`);
 }
 
+// Bind the built-in command handlers; names, arguments and permissions live in the registry
+commandRegistry.bindHandler('help', handleHelpCommand);
+commandRegistry.bindHandler('edit', handleEditCommand);
+commandRegistry.bindHandler('delete', handleDeleteCommand);
+commandRegistry.bindHandler('undo', handleUndoCommand);
+commandRegistry.bindHandler('restore', handleRestoreCommand);
+commandRegistry.bindHandler('reply', handleReplyCommand);
+commandRegistry.bindHandler('react', handleReactCommand);
+commandRegistry.bindHandler('search', handleSearchCommand);
+commandRegistry.bindHandler('history', handleHistoryCommand);
+commandRegistry.bindHandler('msg', handleMsgCommand);
+commandRegistry.bindHandler('join', handleJoinCommand);
+commandRegistry.bindHandler('leave', handleLeaveCommand);
+commandRegistry.bindHandler('create', handleCreateCommand);
+commandRegistry.bindHandler('topic', handleTopicCommand);
+commandRegistry.bindHandler('roomsettings', handleRoomSettingsCommand);
+commandRegistry.bindHandler('report', handleReportCommand);
+commandRegistry.bindHandler('queue', handleQueueCommand);
+commandRegistry.bindHandler('assign', handleAssignCommand);
+commandRegistry.bindHandler('note', handleNoteCommand);
+commandRegistry.bindHandler('resolve', handleResolveCommand);
+commandRegistry.bindHandler('mute', handleMuteCommand);
+commandRegistry.bindHandler('tempmute', handleTempmuteCommand);
+commandRegistry.bindHandler('unmute', handleUnmuteCommand);
+commandRegistry.bindHandler('ban', handleBanCommand);
+commandRegistry.bindHandler('unban', handleUnbanCommand);
+commandRegistry.bindHandler('promote', handlePromoteCommand);
+commandRegistry.bindHandler('demote', handleDemoteCommand);
+
 /**
  * Socket.IO connection handler
  */
@@ -287,46 +1448,46 @@ io.on("connection", (socket) => {
       const stopTimer = perfMonitor.start('joinRoom');
 
       try {
-         const { username, room } = data;
+         const { room } = data;
+
+         // The username and role come from the authenticated account, never the client
+         const account = accountRepository.getAccount(socket.data.username);
+         if (!account) {
+            socket.emit("usernameError", "Your account no longer exists. Please log in again.");
+            return;
+         }
+         const username = account.username;
 
          // Precondition assertions
          assert(username !== null && username.length > 0, 'Username must be non-empty');
          assert(room !== null && room.length > 0, 'Room must be non-empty');
 
-         const { error, user } = userJoin(socket.id, username, room);
-
-         if (error) {
-            logger.warn(`User join failed: ${error}`, { username, room });
-            socket.emit("usernameError", error);
+         const { error: accessError, room: roomInfo } = checkRoomAccess(room, username, account.role, data.password);
+         if (accessError || !roomInfo) {
+            logger.warn(`Room join refused: ${accessError}`, { username, room });
+            socket.emit("usernameError", accessError);
             return;
          }
 
-         if (!user) {
+         let user: User;
+         try {
+            user = userJoin(socket.id, username, roomInfo.name, account.role);
+         } catch (error) {
+            if (!(error instanceof ChatError)) {
+               throw error;
+            }
+            logger.warn(`User join failed: ${error.message}`, { username, room });
+            socket.emit("usernameError", error.message);
             return;
          }
 
-         socket.join(user.room);
          logger.info(`User joined: ${user.username} in room ${user.room}`);
+         enterRoom(socket, user, roomInfo, true);
 
          // Welcome the current user
          socket.emit("message", formatMessage(BOT_NAME, "Welcome to XeroxChat!"));
-
-         // Broadcast when a user joins
-         socket.broadcast
-            .to(user.room)
-            .emit(
-               "message",
-               formatMessage(BOT_NAME, `${user.username} has joined the chat!`)
-            );
-
-         // Send room users info to all users in room
-         io.to(user.room).emit("roomUsers", {
-            room: user.room,
-            users: getRoomUsers(user.room),
-         });
       } catch (error) {
-         logger.error('Error in joinRoom handler', { error });
-         socket.emit("error", "An error occurred while joining the room");
+         emitError(socket, error, "An error occurred while joining the room", { handler: 'joinRoom' });
       } finally {
          stopTimer();
       }
@@ -346,15 +1507,20 @@ io.on("connection", (socket) => {
             return;
          }
 
-         // Check if user is muted or banned
-         if (user.muted) {
-            socket.emit("error", "You are muted and cannot send messages");
+         // Sending a message ends the user's typing state
+         if (typingTracker.stop(user.room, user.username)) {
+            broadcastTyping(user.room);
+         }
+
+         // Check if user is muted or banned (the sanction store is the source of truth)
+         if (user.muted || sanctionRepository.isMuted(user.username, user.room)) {
+            emitError(socket, new ForbiddenError("You are muted and cannot send messages"));
             logger.info(`Muted user attempted to send message: ${user.username}`);
             return;
          }
 
-         if (user.banned) {
-            socket.emit("error", "You are banned from this chat");
+         if (user.banned || sanctionRepository.isBanned(user.username, user.room)) {
+            emitError(socket, new ForbiddenError("You are banned from this chat"));
             logger.info(`Banned user attempted to send message: ${user.username}`);
             return;
          }
@@ -365,39 +1531,297 @@ io.on("connection", (socket) => {
             return;
          }
 
-         // Apply moderation rules
-         const actions = moderationEngine.evaluate(msg, user.username);
-         if (actions.includes('delete')) {
-            socket.emit("error", "Your message was blocked by moderation rules");
+         // Apply moderation rules; blocked messages are never stored, but count towards the sender's activity
+         activityTracker.recordMessage(user.username, msg);
+         const matches = moderationEngine.match(msg, user.username);
+         let message: Message | undefined;
+         if (isBlocked(matches)) {
+            emitError(socket, new ForbiddenError("Your message was blocked by moderation rules"));
             logger.info(`Message blocked by moderation: ${user.username} - ${msg}`);
+         } else {
+            // Add message to repository
+            message = await messageRepository.addMessage(
+               user.username,
+               msg,
+               user.room
+            );
+
+            logger.debug(`Message sent: ${user.username} in ${user.room}`, { messageId: message.id });
+
+            // Broadcast message to room
+            io.to(user.room).emit("message", {
+               id: message.id,
+               username: message.username,
+               text: message.text,
+               time: message.time,
+               edited: message.edited
+            });
+         }
+
+         const outcome = moderationExecutor.execute(matches, {
+            username: user.username,
+            room: user.room,
+            text: msg,
+            messageId: message?.id
+         });
+         applyModerationOutcome(socket, user, outcome);
+      } catch (error) {
+         emitError(socket, error, "An error occurred while sending the message", { handler: 'chatMessage' });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle typing updates (the client throttles typingStart while the user types)
+    */
+   socket.on("typingStart", () => {
+      const user = getCurrentUser(socket.id);
+
+      if (!user || !canShowTyping(user.username, user.room)) {
+         return;
+      }
+
+      if (typingTracker.start(user.room, user.username)) {
+         broadcastTyping(user.room);
+      }
+   });
+
+   socket.on("typingStop", () => {
+      const user = getCurrentUser(socket.id);
+
+      if (user && typingTracker.stop(user.room, user.username)) {
+         broadcastTyping(user.room);
+      }
+   });
+
+   /**
+    * Handle messages scrolling into view on the client
+    * Records the user as a reader, advances their last-read pointer and
+    * broadcasts the updated "seen by" lists to the room
+    */
+   socket.on("markRead", async (data: MarkReadData) => {
+      const stopTimer = perfMonitor.start('markRead');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`Read receipt from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || !Array.isArray(data.messageIds) || !data.messageIds.every(id => typeof id === 'string')) {
+            emitError(socket, new ValidationError("Invalid read receipt: a list of message IDs is required", 'messageIds'));
             return;
          }
 
-         // Add message to repository
-         const message = await messageRepository.addMessage(
-            user.username,
-            msg,
-            user.room
+         const updates = await messageRepository.markRead(
+            user.room,
+            data.messageIds.slice(0, MAX_MARK_READ_BATCH),
+            user.username
          );
 
-         logger.debug(`Message sent: ${user.username} in ${user.room}`, { messageId: message.id });
+         if (updates.length > 0) {
+            io.to(user.room).emit("seenBy", updates);
+         }
+      } catch (error) {
+         logger.error('Error in markRead handler', { error });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle reaction chip clicks from the client
+    */
+   socket.on("toggleReaction", async (data: ToggleReactionData) => {
+      const stopTimer = perfMonitor.start('toggleReaction');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`Reaction from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || typeof data.messageId !== 'string' || typeof data.emoji !== 'string') {
+            emitError(socket, new ValidationError("Invalid reaction: a message ID and emoji are required"));
+            return;
+         }
+
+         // Mutes apply to reactions too, as they do to /react
+         if (user.muted || sanctionRepository.isMuted(user.username, user.room)) {
+            emitError(socket, new ForbiddenError("You are muted and cannot react to messages"));
+            return;
+         }
+
+         await toggleReaction(socket, user, data.messageId, data.emoji);
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle private message sent from the direct message pane
+    */
+   socket.on("privateMessage", async (data: PrivateMessageData) => {
+      const stopTimer = perfMonitor.start('privateMessage');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`Private message from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || typeof data.to !== 'string' || typeof data.text !== 'string' || data.text.trim().length === 0) {
+            emitError(socket, new ValidationError("Invalid private message: a recipient and text are required"));
+            return;
+         }
+
+         // Mutes apply to private messages too, as they do to /msg
+         if (user.muted || sanctionRepository.isMuted(user.username, user.room)) {
+            emitError(socket, new ForbiddenError("You are muted and cannot send messages"));
+            return;
+         }
+
+         await sendDirectMessage(socket, user, data.to, data.text.trim());
+      } catch (error) {
+         emitError(socket, error, "An error occurred while sending the private message", { handler: 'privateMessage' });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle request for a page of a direct message conversation
+    */
+   socket.on("loadDirectMessages", (data: LoadDirectMessagesData) => {
+      const stopTimer = perfMonitor.start('loadDirectMessages');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`Direct message history request from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || typeof data.with !== 'string' || data.with.length === 0) {
+            emitError(socket, new ValidationError("Invalid request: the other participant is required", 'with'));
+            return;
+         }
+
+         // Prefer the canonical spelling of the other participant's name
+         const partner = accountRepository.getAccount(data.with)?.username || data.with;
+         const page = messageRepository.getMessagesPage(
+            getDirectMessageRoom(user.username, partner),
+            data.before,
+            HISTORY_PAGE_SIZE
+         );
 
-         // Broadcast message to room
-         io.to(user.room).emit("message", {
-            id: message.id,
-            username: message.username,
-            text: message.text,
-            time: message.time,
-            edited: message.edited
+         socket.emit("directMessageHistory", {
+            with: partner,
+            messages: page.messages.map(message => toDirectMessagePayload(
+               message,
+               message.username.toLowerCase() === user.username.toLowerCase() ? partner : user.username
+            )),
+            hasMore: page.hasMore
          });
+      } catch (error) {
+         emitError(socket, error, "Could not load the conversation", { handler: 'loadDirectMessages' });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle request for the page of history before a cursor
+    */
+   socket.on("loadOlder", (data: LoadOlderData) => {
+      const stopTimer = perfMonitor.start('loadOlder');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`History request from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || (typeof data.before !== 'string' && typeof data.before !== 'number')) {
+            emitError(socket, new ValidationError("Invalid history request: a message ID or timestamp cursor is required", 'before'));
+            return;
+         }
+
+         const requested = Number(data.limit) || HISTORY_PAGE_SIZE;
+         const limit = Math.min(Math.max(1, Math.floor(requested)), MAX_HISTORY_PAGE_SIZE);
+         const page = messageRepository.getMessagesPage(user.room, data.before, limit);
+
+         socket.emit("olderMessages", page);
+      } catch (error) {
+         emitError(socket, error, "Could not load older messages", { handler: 'loadOlder' });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle request for a message's edit history, opened from its "edited" badge
+    */
+   socket.on("getEditHistory", (data: GetEditHistoryData) => {
+      const stopTimer = perfMonitor.start('getEditHistory');
+
+      try {
+         const user = getCurrentUser(socket.id);
 
-         // Apply moderation warnings
-         if (actions.includes('warn')) {
-            socket.emit("warning", "Your message triggered a moderation warning");
+         if (!user) {
+            logger.warn(`Edit history request from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || typeof data.messageId !== 'string') {
+            emitError(socket, new ValidationError("Invalid edit history request: a message ID is required", 'messageId'));
+            return;
+         }
+
+         sendEditHistory(socket, user, data.messageId);
+      } catch (error) {
+         emitError(socket, error, "Could not load the edit history", { handler: 'getEditHistory' });
+      } finally {
+         stopTimer();
+      }
+   });
+
+   /**
+    * Handle request for a message's thread, loaded when the user expands it
+    */
+   socket.on("loadThread", (data: LoadThreadData) => {
+      const stopTimer = perfMonitor.start('loadThread');
+
+      try {
+         const user = getCurrentUser(socket.id);
+
+         if (!user) {
+            logger.warn(`Thread request from unknown user: ${socket.id}`);
+            return;
+         }
+
+         if (!data || typeof data.messageId !== 'string' || !isInCurrentRoom(data.messageId, user)) {
+            emitError(socket, new NotFoundError("Could not load the thread. The message may not exist."));
+            return;
          }
+
+         const history: ThreadHistory = {
+            thread: messageRepository.getThreadTree(data.messageId)!,
+            depth: messageRepository.getThreadDepth(data.messageId)
+         };
+         socket.emit("threadHistory", history);
       } catch (error) {
-         logger.error('Error in chatMessage handler', { error });
-         socket.emit("error", "An error occurred while sending the message");
+         emitError(socket, error, "Could not load the thread", { handler: 'loadThread' });
       } finally {
          stopTimer();
       }
@@ -413,18 +1837,24 @@ io.on("connection", (socket) => {
          const user = userLeave(socket.id);
 
          if (user) {
-            logger.info(`User disconnected: ${user.username} from room ${user.room}`);
-
-            io.to(user.room).emit(
-               "message",
-               formatMessage(BOT_NAME, `${user.username} has left the chat!`)
-            );
-
-            // Send updated room users info
-            io.to(user.room).emit("roomUsers", {
-               room: user.room,
-               users: getRoomUsers(user.room),
-            });
+            logger.info(`User disconnected: ${user.username} from rooms ${user.rooms.join(', ')}`);
+
+            for (const room of user.rooms) {
+               io.to(room).emit(
+                  "message",
+                  formatMessage(BOT_NAME, `${user.username} has left the chat!`)
+               );
+
+               // Send updated room users info
+               io.to(room).emit("roomUsers", {
+                  room,
+                  users: getRoomUsers(room),
+               });
+            }
+
+            if (typingTracker.stop(user.room, user.username)) {
+               broadcastTyping(user.room);
+            }
          }
       } catch (error) {
          logger.error('Error in disconnect handler', { error });
@@ -445,6 +1875,15 @@ server.listen(PORT, () => {
    setInterval(() => {
       perfMonitor.report();
    }, 5 * 60 * 1000);
+
+   // Lift timed mutes and bans once they expire
+   setInterval(sweepExpiredSanctions, SANCTION_SWEEP_INTERVAL_MS);
+
+   // Drop typing indicators from clients that stopped sending updates
+   setInterval(sweepExpiredTyping, TYPING_SWEEP_INTERVAL_MS);
+
+   // Forget the activity of users who have gone quiet
+   setInterval(() => activityTracker.expire(), ACTIVITY_SWEEP_INTERVAL_MS);
 });
 
 // Graceful shutdown
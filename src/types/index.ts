@@ -1,16 +1,40 @@
   
+export type UserRole = 'admin' | 'moderator' | 'user';
+
 export interface User {
    id: string;
    username: string;
-   room: string;
-   role?: 'admin' | 'moderator' | 'user';
+   room: string; // Active room: where messages are sent and live events are received
+   rooms: string[]; // Every room the user is a member of, in the order joined
+   role?: UserRole;
    muted?: boolean;
    banned?: boolean;
 }
 
-export interface UserJoinResult {
+export interface Account {
+   username: string;
+   passwordHash: string; // scrypt: "<salt>:<hash>" in hex
+   role: UserRole;
+   createdAt: number;
+}
+
+export interface AuthResult {
    error?: string;
-   user?: User;
+   token?: string;
+   account?: Account;
+}
+
+export type SanctionType = 'ban' | 'mute';
+
+export interface Sanction {
+   id: string;
+   type: SanctionType;
+   username: string;
+   room?: string; // Omitted for sanctions that apply in every room
+   reason: string;
+   issuedBy: string;
+   createdAt: number;
+   expiresAt?: number; // Omitted for sanctions that last until lifted
 }
 
 export interface Message {
@@ -23,8 +47,12 @@ export interface Message {
    edited?: boolean;
    editHistory?: MessageEdit[];
    deleted?: boolean;
+   deletedText?: string; // Original text of a deleted message, kept so it can be restored
+   deletedAt?: number;
+   deletedBy?: string;
    parentId?: string; // For threaded conversations
    replies?: Message[]; // Recursive structure for nested replies
+   reactions?: Record<string, string[]>; // emoji -> usernames, in the order they reacted
 }
 
 export interface MessageEdit {
@@ -33,6 +61,199 @@ export interface MessageEdit {
    time: string;
 }
 
+/**
+ * One run of words in a diff between two versions of a message
+ */
+export interface DiffPart {
+   type: 'same' | 'added' | 'removed';
+   text: string;
+}
+
+/**
+ * One version of a message, oldest first in an edit history
+ */
+export interface MessageRevision {
+   text: string;
+   timestamp: number; // When this version was posted or saved
+   time: string;
+   diff: DiffPart[]; // Word changes from the previous revision; empty for the original
+}
+
+export interface GetEditHistoryData {
+   messageId: string;
+}
+
+export interface EditHistoryPayload {
+   messageId: string;
+   author: string;
+   revisions: MessageRevision[]; // Original first, current text last
+}
+
+/**
+ * Message shape sent to clients in room history pages
+ * Replies are referenced by parentId instead of being nested
+ */
+export interface MessagePayload {
+   id: string;
+   username: string;
+   text: string;
+   time: string;
+   timestamp: number;
+   room: string;
+   edited: boolean;
+   deleted: boolean;
+   parentId?: string;
+   replyCount: number; // Replies at any depth, not counting deleted ones
+   reactions: ReactionSummary[];
+   seenBy: string[]; // Users who have read the message
+}
+
+/**
+ * Aggregated reactions for one emoji on a message
+ */
+export interface ReactionSummary {
+   emoji: string;
+   count: number;
+   users: string[];
+}
+
+export interface MarkReadData {
+   messageIds: string[]; // Messages that scrolled into view
+}
+
+export interface ReadReceiptUpdate {
+   id: string; // Message ID
+   seenBy: string[];
+}
+
+export interface ReadState {
+   room: string;
+   lastReadId?: string;
+   unreadCount: number;
+}
+
+export interface ToggleReactionData {
+   messageId: string;
+   emoji: string;
+}
+
+export interface ReactionToggledPayload {
+   id: string; // Message ID
+   reactions: ReactionSummary[];
+}
+
+export interface MessagePage {
+   room: string;
+   messages: MessagePayload[]; // Oldest first
+   hasMore: boolean; // True if older messages exist before this page
+}
+
+/**
+ * A message and its replies, nested, as returned by the thread endpoint
+ */
+export interface ThreadNode extends MessagePayload {
+   replies: ThreadNode[];
+}
+
+export interface LoadThreadData {
+   messageId: string; // Thread root: any message in the user's current room
+}
+
+export interface ThreadHistory {
+   thread: ThreadNode;
+   depth: number;
+}
+
+/**
+ * Updated reply count for a message whose thread changed
+ */
+export interface ReplyCount {
+   id: string;
+   replyCount: number;
+}
+
+export interface MessageReplyPayload {
+   message: MessagePayload;
+   replyCounts: ReplyCount[]; // Every ancestor of the reply, nearest first
+}
+
+export interface MessageRestoredPayload {
+   message: MessagePayload;
+   replyCounts: ReplyCount[]; // Every ancestor of the restored message, nearest first
+}
+
+export interface MessageDeletedPayload {
+   id: string;
+   replyCounts: ReplyCount[]; // Every ancestor of the deleted message, nearest first
+}
+
+export interface SearchPage {
+   room: string;
+   query: string;
+   results: MessagePayload[]; // Best match first
+   total: number; // Matches across all pages
+   hasMore: boolean;
+}
+
+/**
+ * One part of a /search query; negated clauses exclude matching messages
+ */
+export type SearchClause =
+   | { kind: 'term'; value: string; negated: boolean }
+   | { kind: 'phrase'; tokens: string[]; negated: boolean }
+   | { kind: 'from'; username: string; negated: boolean }
+   | { kind: 'before'; timestamp: number; negated: boolean }
+   | { kind: 'after'; timestamp: number; negated: boolean }
+   | { kind: 'thread'; messageId: string; negated: boolean }
+   | { kind: 'has-edits'; negated: boolean };
+
+export interface SearchQuery {
+   raw: string;
+   clauses: SearchClause[]; // All must hold
+}
+
+export interface SearchResult {
+   message: MessagePayload;
+   score: number; // Higher is more relevant
+   snippet: string; // Text around the first match
+}
+
+export interface SearchResults {
+   query: string;
+   results: SearchResult[]; // Best match first
+   total: number; // Matches before the result limit
+}
+
+export interface PrivateMessageData {
+   to: string;
+   text: string;
+}
+
+export interface DirectMessagePayload {
+   id: string;
+   from: string;
+   to: string;
+   text: string;
+   time: string;
+   timestamp: number;
+}
+
+export interface LoadDirectMessagesData {
+   with: string;
+   before?: string | number; // Omitted: latest page
+}
+
+export interface DirectMessagePage {
+   with: string; // The other participant
+   messages: DirectMessagePayload[]; // Oldest first
+   hasMore: boolean;
+}
+
+export interface LoadOlderData {
+   before: string | number; // Message ID or sent timestamp cursor
+   limit?: number;
+}
+
 export interface FormattedMessage {
    username: string;
    text: string;
@@ -45,8 +266,72 @@ export interface RoomUsers {
 }
 
 export interface JoinRoomData {
-   username: string;
+   username?: string; // Ignored: the username comes from the session token
    room: string;
+   password?: string; // Required for password-protected rooms
+}
+
+export type RoomVisibility = 'public' | 'private' | 'invite-only';
+export type HistoryVisibility = 'everyone' | 'author' | 'moderators';
+
+/**
+ * Limits on how authors can change their messages in a room
+ * Omitted limits do not apply
+ */
+export interface EditPolicy {
+   editWindowMs?: number; // Edits allowed only this long after sending
+   maxEdits?: number; // Edits allowed per message
+   lockReplied?: boolean; // Messages with replies cannot be edited
+   deleteWindowMs?: number; // Deletes allowed only this long after sending
+}
+
+export type EditPolicyRule = 'edit-window' | 'edit-limit' | 'reply-lock' | 'delete-window';
+
+export type ErrorCode = 'not-found' | 'forbidden' | 'conflict' | 'validation' | 'rate-limited' | 'internal'; // 'internal' is a server bug
+
+/**
+ * Structured failure sent on the "error" event (see utils/errors)
+ */
+export interface ErrorPayload {
+   code: ErrorCode;
+   message: string; // Shown to the user
+   field?: string; // The input that was rejected, for validation errors
+   retryAfterMs?: number; // For rate-limited errors
+}
+
+export interface Room {
+   name: string; // Unique key used in URLs and socket rooms
+   displayName: string;
+   topic: string;
+   createdBy: string;
+   createdAt: number;
+   visibility: RoomVisibility; // private rooms are unlisted; invite-only rooms also need an invite
+   passwordHash?: string; // scrypt: "<salt>:<hash>" in hex
+   maxMembers?: number; // Omitted for no limit
+   invited: string[]; // Usernames allowed into an invite-only room
+   historyVisibility?: HistoryVisibility; // Who may view edit histories; omitted for everyone
+   undoWindowMs?: number; // How long authors can /undo a delete; 0 disables it, omitted for the default
+   editPolicy?: EditPolicy; // Omitted: no limits
+}
+
+export interface RoomResult {
+   error?: string;
+   room?: Room;
+}
+
+/**
+ * Room shape sent to clients; never includes the password hash
+ */
+export interface RoomSummary {
+   name: string;
+   displayName: string;
+   topic: string;
+   createdBy: string;
+   createdAt: number;
+   visibility: RoomVisibility;
+   hasPassword: boolean;
+   maxMembers?: number;
+   memberCount: number;
 }
 
 export interface CommandResult {
@@ -56,15 +341,158 @@ export interface CommandResult {
 }
 
 export interface ParsedCommand {
-   type: 'edit' | 'delete' | 'mute' | 'ban' | 'reply' | 'unknown';
+   type: string; // Registered command name (aliases resolved), or 'unknown'
    args: string[];
    raw: string;
 }
 
+/**
+ * Passed to every command handler
+ */
+export interface CommandContext {
+   socket: any;
+   user: User;
+   input: string; // The command line as typed, for commands with their own syntax
+}
+
  export interface ModerationRule {
    id: string;
    name: string;
-   condition: string;
-   action: string;
+   condition: string; // The DSL source; its 'then' clause is the rule's action
    enabled: boolean;
 }
+
+export type ModerationField =
+   | 'message'
+   | 'user'
+   | 'username'
+   | 'word_count'
+   | 'length'
+   | 'caps_ratio'
+   | 'link_count'
+   | 'mention_count'
+   | 'messages_last'
+   | 'duplicate_count'
+   | 'user.warnings'
+   | 'user.account_age';
+
+export type ModerationOperator = 'contains' | 'equals' | 'matches' | '>' | '<' | '>=' | '<=';
+
+export type ModerationAction = 'mute' | 'ban' | 'delete' | 'warn' | 'flag';
+
+/**
+ * A rule condition parsed by the moderation DSL; 'and' binds tighter than 'or'
+ */
+export type ModerationExpression =
+   | { kind: 'or' | 'and'; left: ModerationExpression; right: ModerationExpression }
+   | { kind: 'not'; operand: ModerationExpression }
+   | {
+      kind: 'comparison';
+      field: ModerationField;
+      windowMs?: number; // The window of messages_last(<duration>)
+      operator: ModerationOperator;
+      value: string | number; // Durations are in ms
+   };
+
+/**
+ * A rule's 'then' clause with its parameters
+ */
+export interface ModerationActionSpec {
+   type: ModerationAction;
+   durationMs?: number; // For 'mute' and 'ban'; omitted for one that lasts until lifted
+   message?: string; // The warning for 'warn', or the reason for 'flag'
+}
+
+export interface ModerationRuleAst {
+   condition: ModerationExpression;
+   action: ModerationActionSpec;
+}
+
+/**
+ * A rule that matched a message
+ */
+export interface ModerationMatch {
+   ruleId: string;
+   action: ModerationActionSpec;
+}
+
+/**
+ * A record of a moderation action, by a rule or by a moderator resolving a review item
+ */
+export interface AuditEntry {
+   id: string;
+   action: ModerationAction;
+   username: string; // Whose message triggered the action
+   room: string;
+   actor: string; // "automod" for rules, else the moderator
+   ruleId?: string;
+   reviewItemId?: string; // Set when the action resolved a review item
+   messageId?: string; // Omitted when the message was blocked
+   durationMs?: number;
+   detail?: string; // The warning or flag reason
+   createdAt: number;
+}
+
+export type ReviewStatus = 'open' | 'dismissed' | 'actioned';
+
+/**
+ * What a moderator did about a review item: dismiss it, or act on the message or its author
+ */
+export type ReviewResolution = 'dismiss' | 'delete' | 'warn' | 'mute' | 'ban';
+
+export interface ReviewNote {
+   author: string;
+   text: string;
+   createdAt: number;
+}
+
+/**
+ * A message that needs a moderator to look at it
+ */
+export interface ReviewItem {
+   id: string;
+   room: string;
+   messageId?: string; // Omitted when the message was blocked and never stored
+   author: string;
+   text: string; // As it was when flagged or reported
+   reason: string;
+   reportedBy: string; // "automod" for rules
+   createdAt: number;
+   status: ReviewStatus;
+   assignee?: string;
+   notes: ReviewNote[];
+   resolution?: ReviewResolution; // Set once the item is no longer open
+   resolvedBy?: string;
+   resolvedAt?: number;
+}
+
+/**
+ * A review item with the messages around it, as moderators see it
+ */
+export interface ReviewItemPayload extends ReviewItem {
+   context: MessagePayload[]; // The messages just before the reported one, then the message itself; oldest first
+}
+
+/**
+ * Sent to a room's moderators on "moderationQueue"
+ * A snapshot (from /queue) replaces the list shown; otherwise the items were added or changed
+ */
+export interface ModerationQueuePayload {
+   room: string;
+   snapshot: boolean;
+   items: ReviewItemPayload[];
+}
+
+/**
+ * Where and why a rule failed to parse; line and column are 1-based
+ */
+export interface ModerationParseError {
+   message: string;
+   line: number;
+   column: number;
+}
+
+export interface ModerationParseResult {
+   rule?: ModerationRuleAst; // Set only when errors is empty
+   errors: ModerationParseError[];
+}
@@ -0,0 +1,288 @@
+/**
+ * Account Repository ADT
+ * Persistent user accounts with password authentication and sessions
+ * - Passwords are hashed with scrypt and a per-account random salt
+ * - Accounts (and their roles) are saved to a JSON file
+ * - Session tokens are kept in memory and expire after SESSION_TTL_MS
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Account, AuthResult, UserRole } from '../types/index';
+import { ValidationError } from './errors';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const TOKEN_BYTES = 32;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,20}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const VALID_ROLES: UserRole[] = ['admin', 'moderator', 'user'];
+
+/**
+ * Hash a password with a fresh random salt
+ * @param password - Plain-text password
+ * @returns "<salt>:<hash>" in hex
+ */
+export function hashPassword(password: string): string {
+   const salt = crypto.randomBytes(SALT_BYTES);
+   const hash = crypto.scryptSync(password, salt, KEY_LENGTH);
+   return `${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ * @param password - Plain-text password
+ * @param stored - Hash produced by hashPassword()
+ * @returns true if the password matches
+ */
+export function verifyPassword(password: string, stored: string): boolean {
+   const [saltHex, hashHex] = stored.split(':');
+   if (!saltHex || !hashHex) {
+      return false;
+   }
+
+   const expected = Buffer.from(hashHex, 'hex');
+   const actual = crypto.scryptSync(password, Buffer.from(saltHex, 'hex'), expected.length);
+   return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check that a credential from a request body is a string before it is
+ * measured or hashed
+ * @throws ValidationError naming the field if it is not a string
+ */
+function requireString(value: unknown, field: 'username' | 'password'): asserts value is string {
+   if (typeof value !== 'string') {
+      throw new ValidationError(`${field === 'username' ? 'Username' : 'Password'} must be a string`, field);
+   }
+}
+
+interface Session {
+   username: string;
+   expiresAt: number;
+}
+
+/**
+ * AccountRepository Class
+ *
+ * Abstraction Function:
+ * AF(accounts, sessions) = The registered chat accounts where:
+ *   - Each account has a unique username (case-insensitive)
+ *   - Each account has exactly one role
+ *   - A session token authenticates as the account it was issued for until it expires
+ *
+ * Representation Invariant:
+ * - accounts keys are lowercase usernames of their values
+ * - Every passwordHash is non-empty
+ * - Every role is admin, moderator or user
+ * - Every session refers to an existing account
+ */
+export class AccountRepository {
+   private accounts: Map<string, Account>; // lowercase username -> Account
+   private sessions: Map<string, Session>; // token -> Session
+   private filePath?: string;
+
+   /**
+    * Constructor
+    * @param filePath - Optional JSON file to load from and save to; in-memory if omitted
+    */
+   constructor(filePath?: string) {
+      this.accounts = new Map();
+      this.sessions = new Map();
+      this.filePath = filePath;
+      this.load();
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const [key, account] of this.accounts) {
+         if (key !== account.username.toLowerCase()) {
+            throw new Error('Invariant violation: account key does not match username');
+         }
+         if (!account.passwordHash || account.passwordHash.length === 0) {
+            throw new Error('Invariant violation: password hash must be non-empty');
+         }
+         if (!VALID_ROLES.includes(account.role)) {
+            throw new Error('Invariant violation: invalid role');
+         }
+      }
+
+      for (const session of this.sessions.values()) {
+         if (!this.accounts.has(session.username.toLowerCase())) {
+            throw new Error('Invariant violation: session for unknown account');
+         }
+      }
+   }
+
+   /**
+    * Register a new account and start a session for it
+    * The first account ever registered becomes an admin so roles can be bootstrapped
+    *
+    * @param username - Desired username (3-20 letters, digits, _ or -)
+    * @param password - Password (at least 8 characters)
+    * @returns Object containing error, or the new account and a session token
+    * @throws ValidationError if username or password is not a string
+    *
+    * Postconditions:
+    * - If successful: account is saved and a session token is issued
+    * - If username invalid, taken, or password too short: returns error
+    * - checkRep() passes
+    */
+   public register(username: unknown, password: unknown): AuthResult {
+      requireString(username, 'username');
+      requireString(password, 'password');
+      if (!username || !USERNAME_PATTERN.test(username)) {
+         return { error: 'Username must be 3-20 letters, digits, underscores or dashes' };
+      }
+      if (!password || password.length < MIN_PASSWORD_LENGTH) {
+         return { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+      }
+      if (this.accounts.has(username.toLowerCase())) {
+         return { error: 'Username is already registered' };
+      }
+
+      const account: Account = {
+         username,
+         passwordHash: hashPassword(password),
+         role: this.accounts.size === 0 ? 'admin' : 'user',
+         createdAt: Date.now()
+      };
+
+      this.accounts.set(username.toLowerCase(), account);
+      this.save();
+
+      const token = this.createSession(account.username);
+      this.checkRep();
+      return { token, account };
+   }
+
+   /**
+    * Log in with username and password
+    * @returns Object containing error, or the account and a new session token
+    * @throws ValidationError if username or password is not a string
+    */
+   public login(username: unknown, password: unknown): AuthResult {
+      requireString(username, 'username');
+      requireString(password, 'password');
+      const account = username ? this.accounts.get(username.toLowerCase()) : undefined;
+
+      // Same error for unknown user and wrong password, to avoid leaking usernames
+      if (!account || !password || !verifyPassword(password, account.passwordHash)) {
+         return { error: 'Invalid username or password' };
+      }
+
+      const token = this.createSession(account.username);
+      this.checkRep();
+      return { token, account };
+   }
+
+   /**
+    * Resolve a session token to its account
+    * @param token - Session token from register() or login()
+    * @returns Account, or undefined if the token is unknown or expired
+    */
+   public verifySession(token: string | undefined): Account | undefined {
+      if (!token) {
+         return undefined;
+      }
+
+      const session = this.sessions.get(token);
+      if (!session) {
+         return undefined;
+      }
+      if (session.expiresAt <= Date.now()) {
+         this.sessions.delete(token);
+         return undefined;
+      }
+
+      return this.accounts.get(session.username.toLowerCase());
+   }
+
+   /**
+    * End a session
+    * @returns true if the token was active
+    */
+   public logout(token: string): boolean {
+      return this.sessions.delete(token);
+   }
+
+   /**
+    * Get account by username (case-insensitive)
+    */
+   public getAccount(username: string): Account | undefined {
+      return this.accounts.get(username.toLowerCase());
+   }
+
+   /**
+    * Change an account's role and persist it
+    * @returns Updated account, or undefined if not found
+    */
+   public setRole(username: string, role: UserRole): Account | undefined {
+      if (!VALID_ROLES.includes(role)) {
+         throw new Error('Precondition violated: invalid role');
+      }
+
+      const account = this.accounts.get(username.toLowerCase());
+      if (!account) {
+         return undefined;
+      }
+
+      account.role = role;
+      this.save();
+      this.checkRep();
+      return account;
+   }
+
+   /**
+    * Clear all accounts and sessions (for testing)
+    */
+   public clear(): void {
+      this.accounts.clear();
+      this.sessions.clear();
+      this.save();
+      this.checkRep();
+   }
+
+   private createSession(username: string): string {
+      const token = crypto.randomBytes(TOKEN_BYTES).toString('hex');
+      this.sessions.set(token, { username, expiresAt: Date.now() + SESSION_TTL_MS });
+      return token;
+   }
+
+   private load(): void {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+         return;
+      }
+
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { accounts: Account[] };
+      for (const account of data.accounts) {
+         this.accounts.set(account.username.toLowerCase(), account);
+      }
+   }
+
+   private save(): void {
+      if (!this.filePath) {
+         return;
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ accounts: Array.from(this.accounts.values()) }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+   }
+}
+
+/**
+ * Export singleton instance
+ * Saved to ACCOUNTS_PATH (default: data/accounts.json), in memory under tests
+ */
+export const accountRepository = new AccountRepository(
+   process.env.NODE_ENV === 'test'
+      ? undefined
+      : process.env.ACCOUNTS_PATH || path.join('data', 'accounts.json')
+);
@@ -0,0 +1,186 @@
+/**
+ * Activity Tracker ADT
+ * Per-user sliding windows of recent messages and warnings, for moderation
+ * rules that look past the current message
+ * - Messages are kept for ACTIVITY_WINDOW_MS (at most MAX_TRACKED_MESSAGES per
+ *   user), warnings for WARNING_WINDOW_MS
+ * - Entries past their window are dropped as the user's activity is recorded
+ *   or counted, and for idle users by expire()
+ */
+
+export const ACTIVITY_WINDOW_MS = 10 * 60 * 1000;
+export const WARNING_WINDOW_MS = 24 * 60 * 60 * 1000;
+export const MAX_TRACKED_MESSAGES = 100;
+
+interface UserActivity {
+   messages: Array<{ sentAt: number; text: string }>; // text normalized; oldest first
+   warnings: number[]; // When each warning was given; oldest first
+}
+
+/**
+ * Normalize a message so that repeats differing only in case or spacing count as duplicates
+ */
+export function normalizeForDuplicates(text: string): string {
+   return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * ActivityTracker Class
+ *
+ * Abstraction Function:
+ * AF(activity) = For each user, the messages they sent in the last
+ *   ACTIVITY_WINDOW_MS and the warnings they got in the last WARNING_WINDOW_MS
+ *
+ * Representation Invariant:
+ * - Each user is keyed by their lowercase username
+ * - No user maps to empty activity
+ * - messages.length <= MAX_TRACKED_MESSAGES
+ * - messages and warnings are in non-decreasing time order
+ */
+export class ActivityTracker {
+   private activity: Map<string, UserActivity>;
+
+   constructor() {
+      this.activity = new Map();
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const [key, user] of this.activity) {
+         if (key !== key.toLowerCase()) {
+            throw new Error('Invariant violation: activity key is not lowercase');
+         }
+         if (user.messages.length === 0 && user.warnings.length === 0) {
+            throw new Error('Invariant violation: empty activity');
+         }
+         if (user.messages.length > MAX_TRACKED_MESSAGES) {
+            throw new Error('Invariant violation: too many tracked messages');
+         }
+         const times = [user.messages.map(message => message.sentAt), user.warnings];
+         for (const list of times) {
+            for (let i = 1; i < list.length; i++) {
+               if (list[i] < list[i - 1]) {
+                  throw new Error('Invariant violation: activity out of order');
+               }
+            }
+         }
+      }
+   }
+
+   /**
+    * Record a message the user sent, whether or not it was posted
+    *
+    * Preconditions:
+    * - username is non-empty
+    */
+   public recordMessage(username: string, text: string, now: number = Date.now()): void {
+      const user = this.getOrCreate(username);
+      const last = user.messages[user.messages.length - 1];
+      user.messages.push({ sentAt: Math.max(now, last?.sentAt ?? 0), text: normalizeForDuplicates(text) });
+      if (user.messages.length > MAX_TRACKED_MESSAGES) {
+         user.messages.shift();
+      }
+
+      this.prune(username.toLowerCase(), now);
+      this.checkRep();
+   }
+
+   /**
+    * Record a warning given to the user, by a rule or a moderator
+    *
+    * Preconditions:
+    * - username is non-empty
+    */
+   public recordWarning(username: string, now: number = Date.now()): void {
+      const user = this.getOrCreate(username);
+      const last = user.warnings[user.warnings.length - 1];
+      user.warnings.push(Math.max(now, last ?? 0));
+
+      this.prune(username.toLowerCase(), now);
+      this.checkRep();
+   }
+
+   /**
+    * Count the user's messages in the last windowMs, including one just recorded
+    *
+    * Preconditions:
+    * - 0 < windowMs <= ACTIVITY_WINDOW_MS
+    */
+   public countMessages(username: string, windowMs: number, now: number = Date.now()): number {
+      if (windowMs <= 0 || windowMs > ACTIVITY_WINDOW_MS) {
+         throw new Error('Precondition violated: window must be positive and at most ACTIVITY_WINDOW_MS');
+      }
+
+      const messages = this.activity.get(username.toLowerCase())?.messages ?? [];
+      return messages.filter(message => message.sentAt > now - windowMs).length;
+   }
+
+   /**
+    * Count the user's tracked messages with the same text as this one,
+    * including this one if it was just recorded
+    */
+   public countDuplicates(username: string, text: string, now: number = Date.now()): number {
+      const normalized = normalizeForDuplicates(text);
+      const messages = this.activity.get(username.toLowerCase())?.messages ?? [];
+      return messages.filter(message => message.sentAt > now - ACTIVITY_WINDOW_MS && message.text === normalized).length;
+   }
+
+   /**
+    * Count the warnings the user got in the last WARNING_WINDOW_MS
+    */
+   public countWarnings(username: string, now: number = Date.now()): number {
+      const warnings = this.activity.get(username.toLowerCase())?.warnings ?? [];
+      return warnings.filter(warnedAt => warnedAt > now - WARNING_WINDOW_MS).length;
+   }
+
+   /**
+    * Drop activity past its window for every user, forgetting users with none left
+    */
+   public expire(now: number = Date.now()): void {
+      for (const key of Array.from(this.activity.keys())) {
+         this.prune(key, now);
+      }
+      this.checkRep();
+   }
+
+   /**
+    * Clear all activity (for testing)
+    */
+   public clear(): void {
+      this.activity.clear();
+      this.checkRep();
+   }
+
+   private getOrCreate(username: string): UserActivity {
+      if (!username) {
+         throw new Error('Precondition violated: username must be non-empty');
+      }
+
+      const key = username.toLowerCase();
+      let user = this.activity.get(key);
+      if (!user) {
+         user = { messages: [], warnings: [] };
+         this.activity.set(key, user);
+      }
+      return user;
+   }
+
+   private prune(key: string, now: number): void {
+      const user = this.activity.get(key);
+      if (!user) {
+         return;
+      }
+
+      user.messages = user.messages.filter(message => message.sentAt > now - ACTIVITY_WINDOW_MS);
+      user.warnings = user.warnings.filter(warnedAt => warnedAt > now - WARNING_WINDOW_MS);
+      if (user.messages.length === 0 && user.warnings.length === 0) {
+         this.activity.delete(key);
+      }
+   }
+}
+
+// Export singleton instance
+export const activityTracker = new ActivityTracker();
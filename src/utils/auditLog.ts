@@ -0,0 +1,134 @@
+/**
+ * Audit Log ADT
+ * Append-only record of moderation actions, by rules and by moderators
+ * - Only the most recent MAX_AUDIT_ENTRIES are kept, so the file stays small
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuditEntry } from '../types/index';
+
+export const MAX_AUDIT_ENTRIES = 1000;
+
+/**
+ * AuditLog Class
+ *
+ * Abstraction Function:
+ * AF(entries) = The most recent moderation actions, oldest first
+ *
+ * Representation Invariant:
+ * - entries.length <= MAX_AUDIT_ENTRIES
+ * - createdAt is non-decreasing along entries
+ */
+export class AuditLog {
+   private entries: AuditEntry[];
+   private filePath?: string;
+
+   /**
+    * Constructor
+    * @param filePath - Optional JSON file to load from and save to; in-memory if omitted
+    */
+   constructor(filePath?: string) {
+      this.entries = [];
+      this.filePath = filePath;
+      this.load();
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      if (this.entries.length > MAX_AUDIT_ENTRIES) {
+         throw new Error('Invariant violation: too many audit entries');
+      }
+      for (let i = 1; i < this.entries.length; i++) {
+         if (this.entries[i].createdAt < this.entries[i - 1].createdAt) {
+            throw new Error('Invariant violation: audit entries out of order');
+         }
+      }
+   }
+
+   /**
+    * Record an action, dropping the oldest entry if the log is full
+    *
+    * Preconditions:
+    * - username, room and actor are non-empty
+    *
+    * Postconditions:
+    * - The entry is the newest and is saved
+    * - checkRep() passes
+    */
+   public record(entry: Omit<AuditEntry, 'id' | 'createdAt'>): AuditEntry {
+      if (!entry.username || !entry.room || !entry.actor) {
+         throw new Error('Precondition violated: username, room and actor must be non-empty');
+      }
+
+      const last = this.entries[this.entries.length - 1];
+      const recorded: AuditEntry = {
+         ...entry,
+         id: crypto.randomUUID(),
+         // Clock steps backwards must not break the ordering
+         createdAt: Math.max(Date.now(), last?.createdAt ?? 0)
+      };
+
+      this.entries.push(recorded);
+      if (this.entries.length > MAX_AUDIT_ENTRIES) {
+         this.entries.shift();
+      }
+
+      this.save();
+      this.checkRep();
+      return recorded;
+   }
+
+   /**
+    * Get entries, newest first
+    * @param room - Only entries for this room, if given
+    * @param limit - At most this many
+    */
+   public getEntries(room?: string, limit: number = MAX_AUDIT_ENTRIES): AuditEntry[] {
+      const matching = room ? this.entries.filter(entry => entry.room === room) : this.entries;
+      return matching.slice(-limit).reverse();
+   }
+
+   /**
+    * Clear all entries (for testing)
+    */
+   public clear(): void {
+      this.entries = [];
+      this.save();
+      this.checkRep();
+   }
+
+   private load(): void {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+         return;
+      }
+
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { entries: AuditEntry[] };
+      this.entries = data.entries.slice(-MAX_AUDIT_ENTRIES);
+   }
+
+   private save(): void {
+      if (!this.filePath) {
+         return;
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ entries: this.entries }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+   }
+}
+
+/**
+ * Export singleton instance
+ * Saved to AUDIT_PATH (default: data/audit.json), in memory under tests
+ */
+export const auditLog = new AuditLog(
+   process.env.NODE_ENV === 'test'
+      ? undefined
+      : process.env.AUDIT_PATH || path.join('data', 'audit.json')
+);
@@ -5,6 +5,7 @@
  */
 
 import { ParsedCommand } from '../types/index';
+import { CommandRegistry, commandRegistry } from './commandRegistry';
 
 
 enum TokenType {
@@ -32,7 +33,7 @@ interface ASTNode {
  * 
  * Grammar:
  * Command -> '/' CommandName Arguments
- * CommandName -> 'edit' | 'delete' | 'mute' | 'ban' | 'reply'
+ * CommandName -> any name or alias in the command registry
  * Arguments -> Argument*
  * Argument -> STRING | NUMBER
  * 
@@ -46,13 +47,17 @@ class CommandParser {
    private input: string;
    private position: number;
    private currentChar: string | null;
+   private registry: CommandRegistry<any>;
 
    /**
     * Representation Invariant:
     * - position >= 0 && position <= input.length
     * - currentChar is null iff position >= input.length
+    *
+    * @param registry - Commands to recognise (default: shared registry)
     */
-   constructor() {
+   constructor(registry: CommandRegistry<any> = commandRegistry) {
+      this.registry = registry;
       this.input = '';
       this.position = 0;
       this.currentChar = null;
@@ -115,15 +120,18 @@ class CommandParser {
             continue;
          }
 
-         // Number
+         // Number (only when the whole word is digits, so "10m" and
+         // message IDs like "1700000000000-abc" stay single arguments)
          if (char >= '0' && char <= '9') {
-            let num = '';
-            while (i < input.length && input[i] >= '0' && input[i] <= '9') {
-               num += input[i];
-               i++;
+            let j = i;
+            while (j < input.length && input[j] >= '0' && input[j] <= '9') {
+               j++;
+            }
+            if (j === input.length || input[j] === ' ' || input[j] === '\t') {
+               tokens.push({ type: TokenType.NUMBER, value: input.slice(i, j) });
+               i = j;
+               continue;
             }
-            tokens.push({ type: TokenType.NUMBER, value: num });
-            continue;
          }
 
          // Regular argument (no spaces)
@@ -215,12 +223,8 @@ class CommandParser {
          };
       }
 
-      const commandType = ast.value.toLowerCase();
-      const validCommands = ['edit', 'delete', 'mute', 'ban', 'reply'];
-
-      const type = validCommands.includes(commandType)
-         ? commandType as ParsedCommand['type']
-         : 'unknown';
+      // Aliases resolve to the command's registered name
+      const type = this.registry.get(ast.value)?.name ?? 'unknown';
 
       const args = ast.children?.map(child => child.value!) || [];
 
@@ -239,39 +243,15 @@ class CommandParser {
    }
 
    /**
-    * Validate command syntax and arguments
+    * Validate command arguments against the command's registered schema
     * @param command - Parsed command to validate
     * @returns true if valid, false otherwise
     */
    public validate(command: ParsedCommand): boolean {
-      switch (command.type) {
-         case 'edit':
-            // /edit <messageId> <newText>
-            // Must have at least 2 args, and the text (args[1+]) must not be empty when joined
-            if (command.args.length < 2) {
-               return false;
-            }
-            const editText = command.args.slice(1).join(' ').trim();
-            return editText.length > 0;
-         case 'delete':
-            // /delete <messageId>
-            return command.args.length === 1;
-         case 'mute':
-         case 'ban':
-            // /mute <username> or /ban <username>
-            return command.args.length === 1;
-         case 'reply':
-            // /reply <messageId> <text>
-            if (command.args.length < 2) {
-               return false;
-            }
-            const replyText = command.args.slice(1).join(' ').trim();
-            return replyText.length > 0;
-         case 'unknown':
-            return false;
-         default:
-            return false;
+      if (command.type === 'unknown') {
+         return false;
       }
+      return this.registry.bindArgs(command.type, command.args).error === undefined;
    }
 
 
@@ -0,0 +1,583 @@
+/**
+ * Command Registry
+ * Single source of truth for chat commands
+ * - Each command declares its name, aliases, argument schema, permission and handler
+ * - Parsing, validation, usage messages, /help and dispatch are all driven from here
+ * - Built-in commands are registered without handlers; the server binds them at startup
+ */
+
+import { CommandContext, UserRole } from '../types/index';
+import { parseDuration } from './sanctions';
+import { Permission, PermissionMatrix, isRole, permissions } from './permissions';
+import { isEmoji } from './emoji';
+
+/**
+ * Argument types
+ * - word: any single token
+ * - number: a token of digits only
+ * - duration: 30s, 10m, 2h or 1d
+ * - role: admin, moderator or user (case-insensitive, bound lowercased)
+ * - emoji: a single emoji or emoji sequence
+ * - text: the rest of the input joined with spaces (must be the last argument)
+ */
+export type CommandArgType = 'word' | 'number' | 'duration' | 'role' | 'emoji' | 'text';
+
+export interface CommandArgSpec {
+   name: string;
+   type: CommandArgType;
+   optional?: boolean;
+   description?: string; // Shown by /help
+}
+
+/**
+ * Arguments bound by name; optional arguments that were not given are absent
+ */
+export type CommandArgs = Record<string, string>;
+
+export type CommandHandler<TContext> = (context: TContext, args: CommandArgs) => Promise<void> | void;
+
+export interface CommandDefinition<TContext> {
+   name: string;
+   aliases?: string[];
+   description: string;
+   args: CommandArgSpec[];
+   permission?: Permission; // Omitted: open to every role
+   examples?: string[];
+   handler?: CommandHandler<TContext>;
+}
+
+export interface ArgBinding {
+   args?: CommandArgs;
+   error?: string;
+}
+
+const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Check one token against an argument type
+ * @returns Error message, or undefined if the token is valid
+ */
+function checkArgType(spec: CommandArgSpec, value: string): string | undefined {
+   switch (spec.type) {
+      case 'number':
+         return /^\d+$/.test(value) ? undefined : `${spec.name} must be a number`;
+      case 'duration':
+         return parseDuration(value) !== null
+            ? undefined
+            : `"${value}" is not a valid duration (use 30s, 10m, 2h or 1d)`;
+      case 'role':
+         return isRole(value.toLowerCase()) ? undefined : `"${value}" is not a role (use admin, moderator or user)`;
+      case 'emoji':
+         return isEmoji(value) ? undefined : `"${value}" is not an emoji`;
+      default:
+         return undefined;
+   }
+}
+
+/**
+ * CommandRegistry Class
+ *
+ * Abstraction Function:
+ * AF(commands, aliases) = The set of chat commands, where commands[name] describes
+ *   /name and aliases[alias] names the command that /alias runs
+ *
+ * Representation Invariant:
+ * - Every command name is lowercase and matches COMMAND_NAME_PATTERN
+ * - Every alias maps to a registered command and is not itself a command name
+ * - In each argument schema, a 'text' argument is last and no required
+ *   argument follows an optional one
+ */
+export class CommandRegistry<TContext = CommandContext> {
+   private commands: Map<string, CommandDefinition<TContext>>;
+   private aliases: Map<string, string>; // alias -> command name
+   private matrix: PermissionMatrix;
+
+   /**
+    * Constructor
+    * @param matrix - Permission matrix used to check command permissions (default: shared matrix)
+    */
+   constructor(matrix: PermissionMatrix = permissions) {
+      this.commands = new Map();
+      this.aliases = new Map();
+      this.matrix = matrix;
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const [name, definition] of this.commands) {
+         if (name !== definition.name || !COMMAND_NAME_PATTERN.test(name)) {
+            throw new Error('Invariant violation: invalid command name');
+         }
+         const schemaError = CommandRegistry.schemaError(definition.args);
+         if (schemaError) {
+            throw new Error(`Invariant violation: ${schemaError}`);
+         }
+      }
+      for (const [alias, name] of this.aliases) {
+         if (!this.commands.has(name) || this.commands.has(alias)) {
+            throw new Error('Invariant violation: alias does not map to a command');
+         }
+      }
+   }
+
+   /**
+    * Find the first problem with an argument schema
+    * @returns Description of the problem, or undefined if the schema is well-formed
+    */
+   private static schemaError(args: CommandArgSpec[]): string | undefined {
+      let seenOptional = false;
+      for (let i = 0; i < args.length; i++) {
+         if (args[i].type === 'text' && i !== args.length - 1) {
+            return 'text argument must be last';
+         }
+         if (seenOptional && !args[i].optional) {
+            return 'required argument after optional argument';
+         }
+         seenOptional = seenOptional || !!args[i].optional;
+      }
+      return undefined;
+   }
+
+   /**
+    * Register a command
+    *
+    * Preconditions:
+    * - Name and aliases are lowercase and not already registered
+    * - A 'text' argument, if any, is last; optional arguments follow required ones
+    *
+    * Postconditions:
+    * - /name and each /alias resolve to the command
+    * - checkRep() passes
+    */
+   public register(definition: CommandDefinition<TContext>): void {
+      const names = [definition.name, ...(definition.aliases || [])];
+      for (const name of names) {
+         if (!COMMAND_NAME_PATTERN.test(name)) {
+            throw new Error(`Precondition violated: invalid command name ${name}`);
+         }
+         if (this.get(name)) {
+            throw new Error(`Precondition violated: command ${name} is already registered`);
+         }
+      }
+      const schemaError = CommandRegistry.schemaError(definition.args);
+      if (schemaError) {
+         throw new Error(`Precondition violated: ${schemaError}`);
+      }
+
+      this.commands.set(definition.name, definition);
+      for (const alias of definition.aliases || []) {
+         this.aliases.set(alias, definition.name);
+      }
+      this.checkRep();
+   }
+
+   /**
+    * Attach the handler for an already registered command
+    *
+    * Preconditions:
+    * - name is a registered command name
+    */
+   public bindHandler(name: string, handler: CommandHandler<TContext>): void {
+      const definition = this.commands.get(name);
+      if (!definition) {
+         throw new Error(`Precondition violated: command ${name} is not registered`);
+      }
+      definition.handler = handler;
+   }
+
+   /**
+    * Look up a command by name or alias (case-insensitive)
+    */
+   public get(nameOrAlias: string): CommandDefinition<TContext> | undefined {
+      const name = nameOrAlias.toLowerCase();
+      return this.commands.get(this.aliases.get(name) ?? name);
+   }
+
+   /**
+    * Get all commands in registration order
+    */
+   public list(): CommandDefinition<TContext>[] {
+      return Array.from(this.commands.values());
+   }
+
+   /**
+    * Bind raw argument tokens to a command's argument schema
+    * @param name - Command name or alias
+    * @param tokens - Arguments after the command name
+    * @returns Bound arguments, or an error describing the first problem
+    */
+   public bindArgs(name: string, tokens: string[]): ArgBinding {
+      const definition = this.get(name);
+      if (!definition) {
+         return { error: `Unknown command /${name}` };
+      }
+
+      const args: CommandArgs = {};
+      let position = 0;
+
+      for (const spec of definition.args) {
+         if (spec.type === 'text') {
+            const text = tokens.slice(position).join(' ').trim();
+            position = tokens.length;
+            if (text.length > 0) {
+               args[spec.name] = text;
+            } else if (!spec.optional) {
+               return { error: `missing ${spec.name}` };
+            }
+            continue;
+         }
+
+         if (position >= tokens.length) {
+            if (spec.optional) {
+               continue;
+            }
+            return { error: `missing ${spec.name}` };
+         }
+
+         const value = tokens[position++];
+         const typeError = checkArgType(spec, value);
+         if (typeError) {
+            return { error: typeError };
+         }
+         args[spec.name] = spec.type === 'role' ? value.toLowerCase() : value;
+      }
+
+      if (position < tokens.length) {
+         return { error: 'too many arguments' };
+      }
+      return { args };
+   }
+
+   /**
+    * Build the usage line for a command, e.g. "/mute <username> [reason]"
+    */
+   public usage(name: string): string {
+      const definition = this.get(name);
+      if (!definition) {
+         throw new Error(`Precondition violated: command ${name} is not registered`);
+      }
+
+      const args = definition.args.map(spec => spec.optional ? `[${spec.name}]` : `<${spec.name}>`);
+      return [`/${definition.name}`, ...args].join(' ');
+   }
+
+   /**
+    * Get the commands a role may run in a room, in registration order
+    */
+   public listAllowed(role: UserRole | undefined, room?: string): CommandDefinition<TContext>[] {
+      return this.list().filter(definition => this.canRun(definition.name, role, room));
+   }
+
+   /**
+    * Build the detailed help for one command: usage, description, aliases,
+    * arguments, who may run it and examples
+    * @param room - Room whose permission overrides apply
+    * @returns Help text, one line per element
+    */
+   public describe(name: string, room?: string): string[] {
+      const definition = this.get(name);
+      if (!definition) {
+         throw new Error(`Precondition violated: command ${name} is not registered`);
+      }
+
+      const lines = [this.usage(definition.name), definition.description];
+
+      if (definition.aliases && definition.aliases.length > 0) {
+         lines.push(`Aliases: ${definition.aliases.map(alias => `/${alias}`).join(', ')}`);
+      }
+      if (definition.args.length > 0) {
+         lines.push('Arguments:');
+         for (const spec of definition.args) {
+            const label = spec.optional ? `[${spec.name}]` : `<${spec.name}>`;
+            const optional = spec.optional ? ' (optional)' : '';
+            lines.push(`  ${label} - ${spec.description || spec.type}${optional}`);
+         }
+      }
+      if (definition.permission) {
+         lines.push(`Allowed roles: ${this.matrix.getAllowedRoles(definition.permission, room).join(', ')}`);
+      }
+      if (definition.examples && definition.examples.length > 0) {
+         lines.push('Examples:');
+         lines.push(...definition.examples.map(example => `  ${example}`));
+      }
+
+      return lines;
+   }
+
+   /**
+    * Check whether a role may run a command in a room
+    */
+   public canRun(name: string, role: UserRole | undefined, room?: string): boolean {
+      const definition = this.get(name);
+      if (!definition) {
+         return false;
+      }
+      return definition.permission === undefined || this.matrix.can(role, definition.permission, room);
+   }
+
+   /**
+    * Run a command's handler
+    *
+    * Preconditions:
+    * - The command is registered and has a handler
+    * - args were produced by bindArgs() for this command
+    */
+   public async dispatch(name: string, context: TContext, args: CommandArgs): Promise<void> {
+      const definition = this.get(name);
+      if (!definition || !definition.handler) {
+         throw new Error(`Precondition violated: command ${name} has no handler`);
+      }
+      await definition.handler(context, args);
+   }
+}
+
+/**
+ * Built-in chat commands (handlers are bound by the server)
+ */
+export const BUILTIN_COMMANDS: CommandDefinition<CommandContext>[] = [
+   {
+      name: 'help',
+      description: 'List the commands you can use, or show how to use one',
+      args: [{ name: 'command', type: 'word', optional: true, description: 'Command to explain, without the /' }],
+      examples: ['/help', '/help tempmute']
+   },
+   {
+      name: 'edit',
+      description: 'Edit your message',
+      args: [
+         { name: 'messageId', type: 'word', description: 'ID of the message (use the copy button)' },
+         { name: 'newText', type: 'text', description: 'Replacement text' }
+      ],
+      examples: ['/edit 1700000000000-abc123 Fixed the typo']
+   },
+   {
+      name: 'delete',
+      aliases: ['del'],
+      description: 'Delete your message',
+      args: [{ name: 'messageId', type: 'word', description: 'ID of the message (use the copy button)' }],
+      examples: ['/delete 1700000000000-abc123']
+   },
+   {
+      name: 'undo',
+      description: 'Restore the message you deleted most recently in this room, shortly after deleting it',
+      args: [],
+      examples: ['/undo']
+   },
+   {
+      name: 'restore',
+      description: 'Restore a deleted message in this room',
+      args: [{ name: 'messageId', type: 'word', description: 'ID of the deleted message' }],
+      permission: 'restore-messages',
+      examples: ['/restore 1700000000000-abc123']
+   },
+   {
+      name: 'reply',
+      aliases: ['re'],
+      description: 'Reply to a message',
+      args: [
+         { name: 'messageId', type: 'word', description: 'ID of the message to reply to' },
+         { name: 'text', type: 'text', description: 'Your reply' }
+      ],
+      examples: ['/reply 1700000000000-abc123 I agree!']
+   },
+   {
+      name: 'react',
+      description: 'Add or remove your emoji reaction on a message',
+      args: [
+         { name: 'messageId', type: 'word', description: 'ID of the message to react to' },
+         { name: 'emoji', type: 'emoji', description: 'Reaction; sending the same one again removes it' }
+      ],
+      examples: ['/react 1700000000000-abc123 👍']
+   },
+   {
+      name: 'search',
+      description: 'Search messages in this room',
+      args: [{
+         name: 'query',
+         type: 'text',
+         description: 'Words, "phrases", from:<user>, before:/after:<YYYY-MM-DD>, in:thread:<id>, has:edits; prefix - to exclude'
+      }],
+      examples: ['/search deploy from:alice', '/search "release notes" -draft after:2024-05-01', '/search in:thread:abc123 has:edits']
+   },
+   {
+      name: 'history',
+      description: "Show every version of an edited message, with each edit's changes",
+      args: [{ name: 'messageId', type: 'word', description: 'ID of the message (use the copy button)' }],
+      examples: ['/history 1700000000000-abc123']
+   },
+   {
+      name: 'msg',
+      aliases: ['dm'],
+      description: 'Send a private message to an online user',
+      args: [
+         { name: 'username', type: 'word', description: 'User to message' },
+         { name: 'text', type: 'text', description: 'Your message' }
+      ],
+      examples: ['/msg alice are you free later?']
+   },
+   {
+      name: 'join',
+      description: 'Join a room, or switch to one you are already in',
+      args: [
+         { name: 'room', type: 'word', description: 'Room name' },
+         { name: 'password', type: 'word', optional: true, description: 'Room password, if it has one' }
+      ],
+      examples: ['/join Room-2', '/join vault open-sesame']
+   },
+   {
+      name: 'leave',
+      description: 'Leave a room (default: the current one)',
+      args: [{ name: 'room', type: 'word', optional: true, description: 'Room to leave' }],
+      examples: ['/leave', '/leave Room-2']
+   },
+   {
+      name: 'create',
+      description: 'Create a new public room',
+      args: [
+         { name: 'room', type: 'word', description: 'Room name (letters, digits, _ and -)' },
+         { name: 'topic', type: 'text', optional: true, description: 'What the room is about' }
+      ],
+      examples: ['/create book-club Monthly reads and reviews']
+   },
+   {
+      name: 'topic',
+      description: "Set this room's topic (room creator or admins)",
+      args: [{ name: 'topic', type: 'text', optional: true, description: 'New topic; omit to clear it' }],
+      examples: ['/topic Release planning for v2']
+   },
+   {
+      name: 'roomsettings',
+      description: "Show or change this room's settings (room creator or admins)",
+      args: [
+         { name: 'setting', type: 'word', optional: true, description: 'visibility, password, max, name, invite, history, undo, editwindow, maxedits, replylock or deletewindow' },
+         { name: 'value', type: 'text', optional: true, description: 'New value; "none" removes a password or limit, or turns undo off' }
+      ],
+      examples: ['/roomsettings visibility invite-only', '/roomsettings password none', '/roomsettings invite alice', '/roomsettings history moderators', '/roomsettings undo 10m', '/roomsettings editwindow 15m']
+   },
+   {
+      name: 'report',
+      description: 'Report a message to the moderators',
+      args: [
+         { name: 'messageId', type: 'word', description: 'ID of the message' },
+         { name: 'reason', type: 'text', description: 'What is wrong with it' }
+      ],
+      examples: ['/report 1700000000000-abc123 posting scam links']
+   },
+   {
+      name: 'queue',
+      description: "Show this room's review queue",
+      args: [{ name: 'status', type: 'word', optional: true, description: 'open (default), dismissed, actioned or all' }],
+      permission: 'review-queue',
+      examples: ['/queue', '/queue actioned']
+   },
+   {
+      name: 'assign',
+      description: 'Take a review item, or give it to another moderator',
+      args: [
+         { name: 'itemId', type: 'word', description: 'Review item number' },
+         { name: 'username', type: 'word', optional: true, description: 'Moderator to assign (default: you)' }
+      ],
+      permission: 'review-queue',
+      examples: ['/assign 12', '/assign 12 alice']
+   },
+   {
+      name: 'note',
+      description: 'Add a note to a review item',
+      args: [
+         { name: 'itemId', type: 'word', description: 'Review item number' },
+         { name: 'text', type: 'text', description: 'The note' }
+      ],
+      permission: 'review-queue',
+      examples: ['/note 12 second report this week']
+   },
+   {
+      name: 'resolve',
+      description: 'Close a review item, acting on the message or its author',
+      args: [
+         { name: 'itemId', type: 'word', description: 'Review item number' },
+         { name: 'action', type: 'word', description: 'dismiss, delete, warn, mute or ban' },
+         { name: 'note', type: 'text', optional: true, description: 'Why; added to the item and to any sanction' }
+      ],
+      permission: 'review-queue',
+      examples: ['/resolve 12 dismiss', '/resolve 12 mute repeated spam']
+   },
+   {
+      name: 'mute',
+      description: 'Mute a user in this room',
+      args: [
+         { name: 'username', type: 'word', description: 'User to mute' },
+         { name: 'reason', type: 'text', optional: true, description: 'Why the user is muted' }
+      ],
+      permission: 'mute',
+      examples: ['/mute troll spamming links']
+   },
+   {
+      name: 'tempmute',
+      description: 'Mute a user for a time',
+      args: [
+         { name: 'username', type: 'word', description: 'User to mute' },
+         { name: 'duration', type: 'duration', description: 'How long: 30s, 10m, 2h or 1d' },
+         { name: 'reason', type: 'text', optional: true, description: 'Why the user is muted' }
+      ],
+      permission: 'mute',
+      examples: ['/tempmute troll 10m calm down']
+   },
+   {
+      name: 'unmute',
+      description: 'Lift a mute',
+      args: [{ name: 'username', type: 'word', description: 'User to unmute' }],
+      permission: 'mute',
+      examples: ['/unmute troll']
+   },
+   {
+      name: 'ban',
+      description: 'Ban a user from this room',
+      args: [
+         { name: 'username', type: 'word', description: 'User to ban' },
+         { name: 'reason', type: 'text', optional: true, description: 'Why the user is banned' }
+      ],
+      permission: 'ban',
+      examples: ['/ban SpammerBot posting scam links']
+   },
+   {
+      name: 'unban',
+      description: 'Lift a ban',
+      args: [{ name: 'username', type: 'word', description: 'User to unban' }],
+      permission: 'ban',
+      examples: ['/unban SpammerBot']
+   },
+   {
+      name: 'promote',
+      description: "Set a user's role",
+      args: [
+         { name: 'username', type: 'word', description: 'User whose role changes' },
+         { name: 'role', type: 'role', description: 'admin, moderator or user' }
+      ],
+      permission: 'manage-roles',
+      examples: ['/promote alice moderator']
+   },
+   {
+      name: 'demote',
+      description: "Reset a user's role to user",
+      args: [{ name: 'username', type: 'word', description: 'User to demote' }],
+      permission: 'manage-roles',
+      examples: ['/demote alice']
+   }
+];
+
+/**
+ * Create a registry holding the built-in commands
+ */
+export function createCommandRegistry(matrix: PermissionMatrix = permissions): CommandRegistry<CommandContext> {
+   const registry = new CommandRegistry<CommandContext>(matrix);
+   for (const definition of BUILTIN_COMMANDS) {
+      registry.register({ ...definition });
+   }
+   return registry;
+}
+
+// Export singleton instance
+export const commandRegistry = createCommandRegistry();
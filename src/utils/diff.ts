@@ -0,0 +1,80 @@
+/**
+ * Word Diff
+ * Compares two versions of a message word by word, for the edit history viewer
+ * - Whitespace is kept as its own token, so joining the parts of either side
+ *   reproduces that text exactly
+ * - Uses the longest common subsequence of tokens; messages are short, so the
+ *   quadratic table is cheap
+ */
+
+import { DiffPart } from '../types/index';
+
+/**
+ * Split text into words and the whitespace between them
+ */
+function splitWords(text: string): string[] {
+   return text.match(/\s+|\S+/g) || [];
+}
+
+/**
+ * Append a token to the diff, merging it into the last part if the type matches
+ */
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string): void {
+   const last = parts[parts.length - 1];
+   if (last && last.type === type) {
+      last.text += text;
+   } else {
+      parts.push({ type, text });
+   }
+}
+
+/**
+ * Compute a word-level diff between two texts
+ * @param before - Earlier version
+ * @param after - Later version
+ * @returns Parts in reading order; 'same' and 'removed' parts join to before,
+ *   'same' and 'added' parts join to after. Adjacent parts never share a type.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+   if (typeof before !== 'string' || typeof after !== 'string') {
+      throw new Error('Precondition violated: both versions must be strings');
+   }
+
+   const a = splitWords(before);
+   const b = splitWords(after);
+
+   // common[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+   const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+   for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+         common[i][j] = a[i] === b[j]
+            ? common[i + 1][j + 1] + 1
+            : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+   }
+
+   const parts: DiffPart[] = [];
+   let i = 0;
+   let j = 0;
+   while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+         pushPart(parts, 'same', a[i]);
+         i++;
+         j++;
+      } else if (common[i + 1][j] >= common[i][j + 1]) {
+         pushPart(parts, 'removed', a[i]);
+         i++;
+      } else {
+         pushPart(parts, 'added', b[j]);
+         j++;
+      }
+   }
+   for (; i < a.length; i++) {
+      pushPart(parts, 'removed', a[i]);
+   }
+   for (; j < b.length; j++) {
+      pushPart(parts, 'added', b[j]);
+   }
+
+   return parts;
+}
@@ -0,0 +1,23 @@
+/**
+ * Emoji helpers for message reactions
+ */
+
+/**
+ * Longest accepted reaction in UTF-16 code units
+ * Long enough for ZWJ sequences such as family or flag emoji
+ */
+const MAX_EMOJI_LENGTH = 16;
+
+// A pictograph or flag letter, then any modifiers, joiners (U+200D),
+// variation selectors (U+FE0F), keycaps (U+20E3) and further pictographs
+const EMOJI_PATTERN =
+   /^(\p{Extended_Pictographic}|\p{Regional_Indicator})(\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u200d|\ufe0f|\u20e3)*$/u;
+
+/**
+ * Check whether a string is an emoji (including modifier, flag and ZWJ sequences)
+ * @param value - Candidate reaction
+ * @returns true if value is an emoji, false for text, digits or empty input
+ */
+export function isEmoji(value: string): boolean {
+   return value.length > 0 && value.length <= MAX_EMOJI_LENGTH && EMOJI_PATTERN.test(value);
+}
@@ -0,0 +1,93 @@
+/**
+ * Typed errors for expected failures
+ * Callers tell failure modes apart with instanceof and the error's fields,
+ * never by matching on message text; messages are written to be shown to users
+ * - Every class extends ChatError, whose code goes to clients in ErrorPayload
+ * - Broken preconditions and invariants stay plain Errors: they are bugs, not
+ *   failures a user can cause
+ */
+
+import { EditPolicyRule, ErrorCode, ErrorPayload } from '../types/index';
+
+/**
+ * Base class for failures reported to the user
+ */
+export abstract class ChatError extends Error {
+   public abstract readonly code: ErrorCode;
+   public readonly field?: string;
+
+   constructor(message: string, field?: string) {
+      super(message);
+      this.name = new.target.name;
+      this.field = field;
+   }
+
+   /**
+    * The shape sent to clients on the "error" event
+    */
+   public toPayload(): ErrorPayload {
+      return {
+         code: this.code,
+         message: this.message,
+         ...(this.field !== undefined && { field: this.field })
+      };
+   }
+}
+
+/**
+ * The thing asked for does not exist, or the user may not know it exists
+ */
+export class NotFoundError extends ChatError {
+   public readonly code = 'not-found';
+}
+
+/**
+ * The user is not allowed to do this
+ */
+export class ForbiddenError extends ChatError {
+   public readonly code = 'forbidden';
+}
+
+/**
+ * The request is valid but clashes with the current state, e.g. a taken username
+ */
+export class ConflictError extends ChatError {
+   public readonly code = 'conflict';
+}
+
+/**
+ * A value the user gave is malformed; field names it when there is one
+ */
+export class ValidationError extends ChatError {
+   public readonly code = 'validation';
+}
+
+/**
+ * The user is doing this too often
+ * field names the command that is limited, when it is not sending messages
+ */
+export class RateLimitedError extends ChatError {
+   public readonly code = 'rate-limited';
+   public readonly retryAfterMs: number;
+
+   constructor(message: string, retryAfterMs: number, field?: string) {
+      super(message, field);
+      this.retryAfterMs = retryAfterMs;
+   }
+
+   public toPayload(): ErrorPayload {
+      return { ...super.toPayload(), retryAfterMs: this.retryAfterMs };
+   }
+}
+
+/**
+ * An edit or delete refused by the room's edit policy
+ */
+export class EditPolicyError extends ForbiddenError {
+   public readonly rule: EditPolicyRule;
+
+   constructor(rule: EditPolicyRule, message: string) {
+      super(message);
+      this.rule = rule;
+   }
+}
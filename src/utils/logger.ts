@@ -168,6 +168,7 @@ class DebugRecorder {
 
 /**
  * Performance monitor for identifying bottlenecks
+ * Durations are in milliseconds with sub-millisecond precision
  */
 export class PerformanceMonitor {
    private operations: Map<string, number[]>;
@@ -180,10 +181,10 @@ export class PerformanceMonitor {
     * Start timing an operation
     */
    public start(operationName: string): () => void {
-      const startTime = Date.now();
+      const startTime = performance.now();
 
       return () => {
-         const duration = Date.now() - startTime;
+         const duration = performance.now() - startTime;
          this.record(operationName, duration);
       };
    }
@@ -204,7 +205,7 @@ export class PerformanceMonitor {
          durations.shift();
       }
 
-      logger.debug(`Performance: ${operationName} took ${duration}ms`);
+      logger.debug(`Performance: ${operationName} took ${duration.toFixed(2)}ms`);
    }
 
    /**
@@ -240,7 +241,7 @@ export class PerformanceMonitor {
          if (stats) {
             logger.info(
                `${operation}: avg=${stats.avg.toFixed(2)}ms, ` +
-               `min=${stats.min}ms, max=${stats.max}ms, count=${stats.count}`
+               `min=${stats.min.toFixed(2)}ms, max=${stats.max.toFixed(2)}ms, count=${stats.count}`
             );
          }
       }
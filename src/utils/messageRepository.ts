@@ -8,7 +8,58 @@
  */
 
 import moment from 'moment-timezone';
-import { Message, MessageEdit } from '../types/index';
+import {
+   EditPolicy,
+   Message,
+   MessageEdit,
+   MessagePage,
+   MessageRevision,
+   MessagePayload,
+   ReactionSummary,
+   ReadReceiptUpdate,
+   ReplyCount,
+   SearchQuery,
+   SearchResults,
+   ThreadNode
+} from '../types/index';
+import { MessageStore, InMemoryMessageStore, createMessageStore } from './messageStore';
+import { isEmoji } from './emoji';
+import { SearchIndex } from './searchIndex';
+import { diffWords } from './diff';
+import { ConflictError, EditPolicyError, ForbiddenError, NotFoundError, ValidationError } from './errors';
+import { formatDuration } from './sanctions';
+
+/**
+ * Default number of messages returned per history page
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Default number of results returned by search()
+ */
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Prefix of the synthetic room keys that hold direct message conversations
+ */
+const DIRECT_MESSAGE_PREFIX = 'dm:';
+
+/**
+ * Get the room key for the direct message conversation between two users
+ * The key is the same whichever user is passed first
+ * @returns Key of the form "dm:<user>:<user>" with lowercase usernames in sorted order
+ */
+export function getDirectMessageRoom(usernameA: string, usernameB: string): string {
+   const participants = [usernameA.toLowerCase(), usernameB.toLowerCase()].sort();
+   return `${DIRECT_MESSAGE_PREFIX}${participants.join(':')}`;
+}
+
+/**
+ * Check whether a room key belongs to a direct message conversation
+ */
+export function isDirectMessageRoom(room: string): boolean {
+   return room.startsWith(DIRECT_MESSAGE_PREFIX);
+}
 
 /**
  * Generate a unique ID for messages
@@ -18,6 +69,71 @@ function generateId(): string {
    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Get the time a message was originally sent
+ * editMessage() moves timestamp forward, so the first edit record holds the original
+ */
+function getSentTimestamp(message: Message): number {
+   if (message.editHistory && message.editHistory.length > 0) {
+      return message.editHistory[0].timestamp;
+   }
+   return message.timestamp;
+}
+
+/**
+ * Aggregate a message's reactions into per-emoji counts, in the order each emoji was first used
+ * @param message - Stored message
+ * @returns One summary per emoji with at least one reaction
+ */
+export function summarizeReactions(message: Message): ReactionSummary[] {
+   return Object.entries(message.reactions || {}).map(([emoji, users]) => ({
+      emoji,
+      count: users.length,
+      users: [...users]
+   }));
+}
+
+/**
+ * RECURSION: Count the replies below a message at any depth
+ * Base case: Message with no replies - 0
+ * Recursive case: 1 for each non-deleted reply plus that reply's own count;
+ * a deleted reply hides its subtree, as in getMessageThread
+ * 
+ * @param message - Stored message
+ * @returns Number of visible replies in the message's thread
+ */
+export function countReplies(message: Message): number {
+   let count = 0;
+   for (const reply of message.replies || []) {
+      if (!reply.deleted) {
+         count += 1 + countReplies(reply);
+      }
+   }
+   return count;
+}
+
+/**
+ * Convert a stored message into the flat shape sent to clients
+ * @param message - Stored message
+ * @returns Payload without the nested replies tree
+ */
+export function toMessagePayload(message: Message, seenBy: string[] = []): MessagePayload {
+   return {
+      id: message.id,
+      username: message.username,
+      text: message.text,
+      time: message.time,
+      timestamp: getSentTimestamp(message),
+      room: message.room,
+      edited: message.edited === true,
+      deleted: message.deleted === true,
+      parentId: message.parentId,
+      replyCount: countReplies(message),
+      reactions: summarizeReactions(message),
+      seenBy
+   };
+}
+
 /**
  * MessageRepository Class
  * Abstract Data Type for managing chat messages
@@ -32,32 +148,86 @@ function generateId(): string {
  * Representation Invariant:
  * - All message IDs are unique
  * - Deleted messages remain in store but are marked deleted
+ * - Only deleted messages have deletedText, the text they had before deletion
  * - Edit history is chronologically ordered
  * - Parent message must exist before adding a reply
+ * - Each reaction list is non-empty and holds each username at most once
+ * - Readers of a message never include its author
+ * - Every last-read pointer names a message in its room
+ * - The search index holds exactly the non-deleted messages, with their current text
  * - timestamp is always > 0
+ * - Every mutation is written to the store before the lock is released
  */
 export class MessageRepository {
    // Private representation
    private messages: Map<string, Message>;
    private messagesByRoom: Map<string, Set<string>>;
    private lock: boolean; // Simple lock for atomic operations
+   private store: MessageStore;
+   private readers: Map<string, Set<string>> = new Map(); // messageId -> usernames that have read it
+   private lastRead: Map<string, Map<string, string>> = new Map(); // room -> lowercase username -> messageId
+   private searchIndex: SearchIndex = new SearchIndex(id => this.messages.get(id)?.parentId);
 
    /**
     * Constructor
-    * Initializes empty message repository
+    * Initializes the repository from its store
+    * 
+    * @param store - Storage adapter (default: empty in-memory store)
     * 
     * Postconditions:
-    * - messages map is empty
-    * - messagesByRoom map is empty
+    * - messages, room index and reply trees reflect the store contents
     * - lock is false
     */
-   constructor() {
+   constructor(store: MessageStore = new InMemoryMessageStore()) {
       this.messages = new Map();
       this.messagesByRoom = new Map();
       this.lock = false;
+      this.store = store;
+      this.loadFromStore();
       this.checkRep();
    }
 
+   /**
+    * Rebuild in-memory state from the store
+    * Replays messages in first-write order, rebuilding the room index and
+    * reply trees, so a reply whose parent is missing is rejected
+    */
+   private loadFromStore(): void {
+      const snapshot = this.store.load();
+
+      for (const stored of snapshot.messages) {
+         if (this.messages.has(stored.id)) {
+            throw new Error('Invariant violation: duplicate message ID');
+         }
+         if (stored.parentId && !this.messages.has(stored.parentId)) {
+            throw new Error('Invariant violation: parent message does not exist');
+         }
+
+         const message: Message = { ...stored, replies: [] };
+         this.messages.set(message.id, message);
+
+         if (!this.messagesByRoom.has(message.room)) {
+            this.messagesByRoom.set(message.room, new Set());
+         }
+         this.messagesByRoom.get(message.room)!.add(message.id);
+
+         if (message.parentId) {
+            this.messages.get(message.parentId)!.replies!.push(message);
+         }
+
+         if (!message.deleted) {
+            this.indexMessage(message);
+         }
+      }
+
+      for (const [messageId, readers] of snapshot.readReceipts) {
+         this.readers.set(messageId, new Set(readers));
+      }
+      for (const pointer of snapshot.lastRead) {
+         this.setLastRead(pointer.room, pointer.username, pointer.messageId);
+      }
+   }
+
    /**
     * Check representation invariant
     * @throws Error if invariant is violated
@@ -89,9 +259,54 @@ export class MessageRepository {
          if (message.parentId && !this.messages.has(message.parentId)) {
             throw new Error('Invariant violation: parent message does not exist');
          }
+
+         if (!message.deleted && message.deletedText !== undefined) {
+            throw new Error('Invariant violation: live message has deleted text');
+         }
+
+         // Check reaction lists are non-empty and free of duplicates
+         for (const users of Object.values(message.reactions || {})) {
+            if (users.length === 0 || new Set(users).size !== users.length) {
+               throw new Error('Invariant violation: invalid reaction list');
+            }
+         }
+
+         // Check the author is never counted as a reader
+         if (this.readers.get(id)?.has(message.username)) {
+            throw new Error('Invariant violation: author counted as reader');
+         }
+      }
+
+      // Check the search index covers exactly the non-deleted messages
+      const liveCount = Array.from(this.messages.values()).filter(message => !message.deleted).length;
+      if (this.searchIndex.size !== liveCount) {
+         throw new Error('Invariant violation: search index out of sync');
+      }
+
+      // Check last-read pointers name messages in their room
+      for (const [room, pointers] of this.lastRead) {
+         for (const messageId of pointers.values()) {
+            if (!this.messagesByRoom.get(room)?.has(messageId)) {
+               throw new Error('Invariant violation: last-read pointer outside its room');
+            }
+         }
       }
    }
 
+   /**
+    * Add or refresh a message in the search index
+    */
+   private indexMessage(message: Message): void {
+      this.searchIndex.add({
+         id: message.id,
+         room: message.room,
+         username: message.username,
+         text: message.text,
+         sentAt: getSentTimestamp(message),
+         edited: message.edited === true
+      });
+   }
+
    /**
     * Acquire lock for atomic operations
     * Simple spinlock implementation for demonstration
@@ -121,7 +336,6 @@ export class MessageRepository {
     * - username !== null && username.length > 0
     * - text !== null && text.length > 0
     * - room !== null && room.length > 0
-    * - If parentId provided, parent message must exist
     * 
     * Postconditions:
     * - New message is added to repository
@@ -146,7 +360,7 @@ export class MessageRepository {
          throw new Error('Precondition violated: room must be non-empty');
       }
       if (parentId && !this.messages.has(parentId)) {
-         throw new Error('Precondition violated: parent message does not exist');
+         throw new NotFoundError(`Message ${parentId} not found`);
       }
 
       await this.acquireLock();
@@ -183,7 +397,9 @@ export class MessageRepository {
             parent.replies.push(message);
          }
 
+         this.indexMessage(message);
          this.checkRep();
+         this.store.saveMessage(message);
          return message;
       } finally {
          this.releaseLock();
@@ -197,14 +413,14 @@ export class MessageRepository {
     * @param messageId - ID of message to edit
     * @param newText - New text content
     * @param username - Username attempting the edit
-    * @returns Updated message or null if not authorized
-    * 
-    * Preconditions:
-    * - messageId !== null
-    * - newText !== null && newText.length > 0
-    * - Message with messageId exists
-    * - Message is not deleted
-    * - username matches message owner
+    * @param canEditOthers - Whether the editor may edit other users' messages
+    * @param policy - The room's edit policy; applies when authors edit their own messages
+    * @returns Updated message
+    * @throws ValidationError if messageId or newText is empty
+    * @throws NotFoundError if the message does not exist
+    * @throws ConflictError if the message is deleted
+    * @throws ForbiddenError if username is not the author and canEditOthers is false
+    * @throws EditPolicyError if the policy does not allow the edit
     * 
     * Postconditions:
     * - Message text is updated
@@ -215,48 +431,35 @@ export class MessageRepository {
    public async editMessage(
       messageId: string,
       newText: string,
-      username: string
-   ): Promise<Message | null> {
-      console.log('🔍 DEBUG editMessage - messageId:', messageId);
-      console.log('🔍 DEBUG editMessage - newText:', newText);
-      console.log('🔍 DEBUG editMessage - username:', username);
-
-      // Precondition checks
+      username: string,
+      canEditOthers: boolean = false,
+      policy: EditPolicy = {}
+   ): Promise<Message> {
+      // Both come from the user's /edit command
       if (!messageId) {
-         console.log('🔍 DEBUG editMessage - ERROR: messageId is falsy');
-         throw new Error('Precondition violated: messageId cannot be null');
+         throw new ValidationError('A message ID is required', 'messageId');
       }
       if (!newText || newText.length === 0) {
-         console.log('🔍 DEBUG editMessage - ERROR: newText is empty');
-         throw new Error('Precondition violated: newText must be non-empty');
+         throw new ValidationError('The new text must be non-empty', 'newText');
       }
 
       await this.acquireLock();
       try {
          const message = this.messages.get(messageId);
-         console.log('🔍 DEBUG editMessage - message found:', message ? 'YES' : 'NO');
-
-         if (message) {
-            console.log('🔍 DEBUG editMessage - message.username:', message.username);
-            console.log('🔍 DEBUG editMessage - message.deleted:', message.deleted);
-         }
 
          if (!message) {
-            console.log('🔍 DEBUG editMessage - ERROR: message does not exist');
-            throw new Error('Precondition violated: message does not exist');
+            throw new NotFoundError(`Message ${messageId} not found`);
          }
          if (message.deleted) {
-            console.log('🔍 DEBUG editMessage - ERROR: message is deleted');
-            throw new Error('Precondition violated: cannot edit deleted message');
+            throw new ConflictError('Cannot edit a deleted message');
          }
-         if (message.username !== username) {
-            console.log('🔍 DEBUG editMessage - ERROR: username mismatch');
-            console.log('🔍 DEBUG editMessage - Expected:', message.username, 'Got:', username);
-            // Authorization failed
-            return null;
+         if (message.username !== username && !canEditOthers) {
+            throw new ForbiddenError('You can only edit your own messages');
          }
 
-         console.log('🔍 DEBUG editMessage - All checks passed, proceeding with edit');
+         if (message.username === username) {
+            this.checkEditPolicy(message, policy);
+         }
 
          // Save current text to edit history
          const editRecord: MessageEdit = {
@@ -272,38 +475,97 @@ export class MessageRepository {
          message.time = moment().tz('Asia/Karachi').format('h:mm a');
          message.timestamp = Date.now();
 
-         console.log('🔍 DEBUG editMessage - Message updated successfully');
+         this.indexMessage(message);
          this.checkRep();
+         this.store.saveMessage(message);
          return message;
-      } catch (error) {
-         console.log('🔍 DEBUG editMessage - Exception caught:', error);
-         throw error;
       } finally {
          this.releaseLock();
       }
    }
 
+   /**
+    * Check an author's edit against the room's edit policy
+    * @throws EditPolicyError naming the first rule the edit breaks
+    */
+   private checkEditPolicy(message: Message, policy: EditPolicy): void {
+      if (policy.editWindowMs !== undefined && Date.now() - getSentTimestamp(message) > policy.editWindowMs) {
+         throw new EditPolicyError(
+            'edit-window',
+            `Messages can only be edited for ${formatDuration(policy.editWindowMs)} after sending`
+         );
+      }
+
+      const edits = message.editHistory?.length ?? 0;
+      if (policy.maxEdits !== undefined && edits >= policy.maxEdits) {
+         throw new EditPolicyError(
+            'edit-limit',
+            policy.maxEdits === 0
+               ? 'Messages in this room cannot be edited'
+               : `Messages can only be edited ${policy.maxEdits} time${policy.maxEdits === 1 ? '' : 's'}`
+         );
+      }
+
+      if (policy.lockReplied && countReplies(message) > 0) {
+         throw new EditPolicyError('reply-lock', 'Messages with replies cannot be edited');
+      }
+   }
+
+   /**
+    * Get every version of a message, with the words changed by each edit
+    * 
+    * @param messageId - ID of message
+    * @returns Revisions, original first and current text last; undefined if the
+    *   message does not exist or is deleted
+    * 
+    * Postconditions:
+    * - The first revision has an empty diff
+    * - Each later diff turns the previous revision's text into its own
+    */
+   public getEditHistory(messageId: string): MessageRevision[] | undefined {
+      const message = this.messages.get(messageId);
+      if (!message || message.deleted) {
+         return undefined;
+      }
+
+      const versions: MessageEdit[] = [
+         ...(message.editHistory || []),
+         { text: message.text, timestamp: message.timestamp, time: message.time }
+      ];
+
+      return versions.map((version, i) => ({
+         text: version.text,
+         timestamp: version.timestamp,
+         time: version.time,
+         diff: i === 0 ? [] : diffWords(versions[i - 1].text, version.text)
+      }));
+   }
+
    /**
     * Delete a message (soft delete)
     * 
     * @param messageId - ID of message to delete
     * @param username - Username attempting the delete
-    * @returns true if deleted, false if not authorized
+    * @param canDeleteOthers - Whether the deleter may delete other users' messages
+    * @param policy - The room's edit policy; its delete window applies when authors delete their own messages
+    * @throws NotFoundError if the message does not exist
+    * @throws ForbiddenError if username is not the author and canDeleteOthers is false
+    * @throws EditPolicyError if the delete window has passed
     * 
     * Preconditions:
     * - messageId !== null
-    * - Message with messageId exists
-    * - username matches message owner or is admin
     * 
     * Postconditions:
     * - Message is marked as deleted
-    * - Message remains in repository
+    * - Message remains in repository, with its text moved to deletedText
     * - checkRep() passes
     */
    public async deleteMessage(
       messageId: string,
-      username: string
-   ): Promise<boolean> {
+      username: string,
+      canDeleteOthers: boolean = false,
+      policy: EditPolicy = {}
+   ): Promise<void> {
       // Precondition checks
       if (!messageId) {
          throw new Error('Precondition violated: messageId cannot be null');
@@ -314,19 +576,192 @@ export class MessageRepository {
          const message = this.messages.get(messageId);
 
          if (!message) {
-            throw new Error('Precondition violated: message does not exist');
+            throw new NotFoundError(`Message ${messageId} not found`);
          }
 
-         if (message.username !== username) {
-            // Authorization failed
-            return false;
+         if (message.username !== username && !canDeleteOthers) {
+            throw new ForbiddenError('You can only delete your own messages');
          }
 
+         if (message.username === username && policy.deleteWindowMs !== undefined
+            && Date.now() - getSentTimestamp(message) > policy.deleteWindowMs) {
+            throw new EditPolicyError(
+               'delete-window',
+               `Messages can only be deleted for ${formatDuration(policy.deleteWindowMs)} after sending`
+            );
+         }
+
+         // Deleting twice must not overwrite the kept text with the placeholder
+         if (!message.deleted) {
+            message.deletedText = message.text;
+         }
          message.deleted = true;
          message.text = '[Message deleted]';
+         message.deletedAt = Date.now();
+         message.deletedBy = username;
 
+         this.searchIndex.remove(messageId);
          this.checkRep();
-         return true;
+         this.store.saveMessage(message);
+      } finally {
+         this.releaseLock();
+      }
+   }
+
+   /**
+    * Restore a soft-deleted message with its original text
+    * Authors can undo their own deletes within undoWindowMs of deleting;
+    * users who may restore others' messages can restore any delete at any time
+    * 
+    * @param messageId - ID of message to restore
+    * @param username - Username attempting the restore
+    * @param undoWindowMs - How long after deleting an author may undo (0: never)
+    * @param canRestoreOthers - Whether the user may restore any deleted message
+    * @returns The restored message
+    * @throws NotFoundError if the message does not exist
+    * @throws ConflictError if the message is not deleted or its text was not kept
+    * @throws ForbiddenError if an author's undo is not theirs to make or is too late
+    * 
+    * Preconditions:
+    * - messageId !== null
+    * 
+    * Postconditions:
+    * - On success the message is live again with the text it had when deleted,
+    *   and is back in the search index
+    * - checkRep() passes
+    */
+   public async restoreMessage(
+      messageId: string,
+      username: string,
+      undoWindowMs: number,
+      canRestoreOthers: boolean = false
+   ): Promise<Message> {
+      if (!messageId) {
+         throw new Error('Precondition violated: messageId cannot be null');
+      }
+
+      await this.acquireLock();
+      try {
+         const message = this.messages.get(messageId);
+
+         if (!message) {
+            throw new NotFoundError(`Message ${messageId} not found`);
+         }
+         if (!message.deleted) {
+            throw new ConflictError('That message is not deleted');
+         }
+         if (message.deletedText === undefined) {
+            throw new ConflictError('That message was deleted before originals were kept, so it cannot be restored');
+         }
+
+         if (!canRestoreOthers) {
+            // Authors may only take back their own deletes, not a moderator's
+            if (message.username !== username || message.deletedBy !== username) {
+               throw new ForbiddenError('You can only undo deleting your own messages');
+            }
+            if (Date.now() - (message.deletedAt ?? 0) > undoWindowMs) {
+               throw new ForbiddenError('It is too late to undo deleting that message');
+            }
+         }
+
+         message.text = message.deletedText;
+         message.deleted = false;
+         delete message.deletedText;
+         delete message.deletedAt;
+         delete message.deletedBy;
+
+         this.indexMessage(message);
+         this.checkRep();
+         this.store.saveMessage(message);
+         return message;
+      } finally {
+         this.releaseLock();
+      }
+   }
+
+   /**
+    * Find the message a user deleted most recently in a room, for /undo
+    * @param username - Author who deleted their own message
+    * @param room - Room name
+    * @returns The most recently deleted message, or undefined if there is none
+    */
+   public getLastDeletedMessage(username: string, room: string): Message | undefined {
+      let last: Message | undefined;
+
+      for (const id of this.messagesByRoom.get(room) || []) {
+         const message = this.messages.get(id)!;
+         if (message.deleted && message.username === username && message.deletedBy === username
+            && (!last || (message.deletedAt ?? 0) >= (last.deletedAt ?? 0))) {
+            last = message;
+         }
+      }
+
+      return last;
+   }
+
+   /**
+    * Toggle a user's reaction on a message
+    * Adds the reaction if the user has not reacted with this emoji, otherwise removes it
+    * 
+    * @param messageId - ID of message to react to
+    * @param emoji - Reaction emoji
+    * @param username - User reacting
+    * @returns Whether the reaction was added, and the message's reactions afterwards
+    * @throws NotFoundError if the message does not exist
+    * @throws ConflictError if the message is deleted
+    * 
+    * Preconditions:
+    * - messageId is not null
+    * - emoji is an emoji (see isEmoji)
+    * - username is non-empty
+    * 
+    * Postconditions:
+    * - username is in the emoji's list iff it was not before
+    * - Emoji with no reactions left are removed
+    * - checkRep() passes and the message is saved
+    */
+   public async toggleReaction(
+      messageId: string,
+      emoji: string,
+      username: string
+   ): Promise<{ added: boolean; reactions: ReactionSummary[] }> {
+      if (!messageId) {
+         throw new Error('Precondition violated: messageId cannot be null');
+      }
+      if (!isEmoji(emoji)) {
+         throw new Error('Precondition violated: reaction must be an emoji');
+      }
+      if (!username || username.trim().length === 0) {
+         throw new Error('Precondition violated: username must be non-empty');
+      }
+
+      await this.acquireLock();
+      try {
+         const message = this.messages.get(messageId);
+
+         if (!message) {
+            throw new NotFoundError(`Message ${messageId} not found`);
+         }
+         if (message.deleted) {
+            throw new ConflictError('Cannot react to a deleted message');
+         }
+
+         const reactions = message.reactions || {};
+         const users = reactions[emoji] || [];
+         const added = !users.includes(username);
+
+         if (added) {
+            reactions[emoji] = [...users, username];
+         } else if (users.length === 1) {
+            delete reactions[emoji];
+         } else {
+            reactions[emoji] = users.filter(u => u !== username);
+         }
+         message.reactions = reactions;
+
+         this.checkRep();
+         this.store.saveMessage(message);
+         return { added, reactions: summarizeReactions(message) };
       } finally {
          this.releaseLock();
       }
@@ -363,6 +798,61 @@ export class MessageRepository {
       return messages.sort((a, b) => a.timestamp - b.timestamp);
    }
 
+   /**
+    * Get a page of room history, walking backwards from a cursor
+    * Includes deleted messages (as tombstones) and replies so clients can rebuild threads
+    * 
+    * @param room - Room name
+    * @param before - Optional cursor: message ID or sent timestamp; page ends just before it
+    * @param limit - Maximum number of messages in the page
+    * @returns Page of messages in send order (oldest first)
+    * 
+    * Preconditions:
+    * - room !== null && room.length > 0
+    * - limit is a positive integer
+    * - If before is a message ID, it belongs to room
+    * 
+    * Postconditions:
+    * - messages.length <= limit
+    * - hasMore is true iff older messages exist before the page
+    */
+   public getMessagesPage(
+      room: string,
+      before?: string | number,
+      limit: number = DEFAULT_PAGE_SIZE
+   ): MessagePage {
+      // Precondition checks
+      if (!room || room.length === 0) {
+         throw new Error('Precondition violated: room must be non-empty');
+      }
+      if (!Number.isInteger(limit) || limit <= 0) {
+         throw new Error('Precondition violated: limit must be a positive integer');
+      }
+
+      // Room index preserves insertion order, which is send order
+      const ids = Array.from(this.messagesByRoom.get(room) || []);
+      let end = ids.length;
+
+      if (typeof before === 'string') {
+         end = ids.indexOf(before);
+         if (end === -1) {
+            throw new Error('Precondition violated: cursor message does not exist in room');
+         }
+      } else if (typeof before === 'number') {
+         end = 0;
+         while (end < ids.length && getSentTimestamp(this.messages.get(ids[end])!) < before) {
+            end++;
+         }
+      }
+
+      const start = Math.max(0, end - limit);
+      const messages = ids
+         .slice(start, end)
+         .map(id => toMessagePayload(this.messages.get(id)!, this.getReaders(id)));
+
+      return { room, messages, hasMore: start > 0 };
+   }
+
    /**
     * Get message thread (message with all nested replies)
     * @param messageId - Root message ID
@@ -374,22 +864,66 @@ export class MessageRepository {
          return undefined;
       }
 
-      // Recursive function to populate replies
+      // Recursive function to populate replies; copies each level so deleted
+      // replies stay in the stored tree and reappear if restored
       const populateReplies = (msg: Message): Message => {
          if (!msg.replies || msg.replies.length === 0) {
             return msg;
          }
 
-         msg.replies = msg.replies
-            .filter(reply => !reply.deleted)
-            .map(reply => populateReplies(reply));
-
-         return msg;
+         return {
+            ...msg,
+            replies: msg.replies
+               .filter(reply => !reply.deleted)
+               .map(reply => populateReplies(reply))
+         };
       };
 
       return populateReplies({ ...message });
    }
 
+   /**
+    * Get a message thread as payloads, for clients that render it nested
+    * @param messageId - Root message ID
+    * @returns The root payload with its non-deleted replies nested below it
+    */
+   public getThreadTree(messageId: string): ThreadNode | undefined {
+      const thread = this.getMessageThread(messageId);
+      if (!thread) {
+         return undefined;
+      }
+
+      const toThreadNode = (msg: Message): ThreadNode => ({
+         ...toMessagePayload(msg, this.getReaders(msg.id)),
+         replies: (msg.replies || []).map(toThreadNode)
+      });
+
+      return toThreadNode(thread);
+   }
+
+   /**
+    * Get the reply counts of every message above a message in its thread
+    * Sent after a reply is added or deleted so clients can update the counts they show
+    * 
+    * @param messageId - Message whose ancestors changed
+    * @returns One count per ancestor, nearest first; empty for unknown or top-level messages
+    */
+   public getAncestorReplyCounts(messageId: string): ReplyCount[] {
+      const counts: ReplyCount[] = [];
+      let parentId = this.messages.get(messageId)?.parentId;
+
+      while (parentId) {
+         const parent = this.messages.get(parentId);
+         if (!parent) {
+            break;
+         }
+         counts.push({ id: parent.id, replyCount: countReplies(parent) });
+         parentId = parent.parentId;
+      }
+
+      return counts;
+   }
+
    /**
     * RECURSION: Search messages and all nested replies for keyword
     * Demonstrates recursive subproblem decomposition
@@ -441,6 +975,31 @@ export class MessageRepository {
       return results;
    }
 
+   /**
+    * Search a room with the /search query language, using the inverted index
+    * 
+    * @param room - Room to search
+    * @param query - Parsed query (see parseSearchQuery)
+    * @param limit - Maximum results to return (default: DEFAULT_SEARCH_LIMIT)
+    * @returns Ranked results with snippets, best first, and the total number of matches
+    * 
+    * Preconditions:
+    * - limit is a positive integer
+    */
+   public search(room: string, query: SearchQuery, limit: number = DEFAULT_SEARCH_LIMIT): SearchResults {
+      const { matches, total } = this.searchIndex.search(room, query, limit);
+
+      return {
+         query: query.raw,
+         results: matches.map(match => ({
+            message: toMessagePayload(this.messages.get(match.messageId)!, this.getReaders(match.messageId)),
+            score: match.score,
+            snippet: match.snippet
+         })),
+         total
+      };
+   }
+
    /**
     * RECURSION: Calculate depth of message thread
     * Base case: Message with no replies - depth is 0
@@ -483,43 +1042,175 @@ export class MessageRepository {
    }
 
    /**
-    * CONCURRENCY: Increment read receipt counter atomically
-    * Demonstrates atomic operations to prevent race conditions
+    * CONCURRENCY: Record a read receipt atomically
+    * Each user is counted once per message, so re-reading (e.g. after a reload) does not
+    * inflate the count; authors are never counted as readers of their own messages
     * 
     * @param messageId - Message ID
+    * @param username - User who read the message
     * @returns Updated count
+    * @throws NotFoundError if the message does not exist
+    * 
+    * Preconditions:
+    * - username is non-empty
+    */
+   public async incrementReadReceipt(messageId: string, username: string): Promise<number> {
+      if (!username || username.trim().length === 0) {
+         throw new Error('Precondition violated: username must be non-empty');
+      }
+
+      await this.acquireLock();
+      try {
+         const message = this.messages.get(messageId);
+         if (!message) {
+            throw new NotFoundError(`Message ${messageId} not found`);
+         }
+
+         this.addReader(message, username);
+         this.checkRep();
+         return this.getReadReceiptCount(messageId);
+      } finally {
+         this.releaseLock();
+      }
+   }
+
+   /**
+    * Record that a user has seen messages in a room and advance their last-read pointer
+    * IDs that are unknown or belong to another room are ignored, since clients may
+    * report messages from a page that is no longer current
+    * 
+    * @param room - Room the user is reading
+    * @param messageIds - Messages that came into view
+    * @param username - Reader
+    * @returns Updated reader lists for the messages whose readers changed
+    * 
+    * Preconditions:
+    * - room and username are non-empty
+    * 
+    * Postconditions:
+    * - username is a reader of every reported message in room it did not write
+    * - The last-read pointer is the latest of its old position and the reported messages
     */
-   private readReceiptCounts: Map<string, number> = new Map();
+   public async markRead(room: string, messageIds: string[], username: string): Promise<ReadReceiptUpdate[]> {
+      if (!room || !username) {
+         throw new Error('Precondition violated: room and username must be non-empty');
+      }
 
-   public async incrementReadReceipt(messageId: string): Promise<number> {
       await this.acquireLock();
       try {
-         const currentCount = this.readReceiptCounts.get(messageId) || 0;
-         const newCount = currentCount + 1;
-         this.readReceiptCounts.set(messageId, newCount);
-         return newCount;
+         const roomIds = Array.from(this.messagesByRoom.get(room) || []);
+         const current = this.getLastRead(room, username);
+         let latest = current !== undefined ? roomIds.indexOf(current) : -1;
+         const updates: ReadReceiptUpdate[] = [];
+
+         for (const messageId of new Set(messageIds)) {
+            const position = roomIds.indexOf(messageId);
+            if (position === -1) {
+               continue;
+            }
+
+            if (this.addReader(this.messages.get(messageId)!, username)) {
+               updates.push({ id: messageId, seenBy: this.getReaders(messageId) });
+            }
+            latest = Math.max(latest, position);
+         }
+
+         if (latest >= 0 && roomIds[latest] !== current) {
+            this.setLastRead(room, username, roomIds[latest]);
+            this.store.saveLastRead({ room, username, messageId: roomIds[latest] });
+         }
+
+         this.checkRep();
+         return updates;
       } finally {
          this.releaseLock();
       }
    }
 
    /**
-    * Get read receipt count
+    * Add a reader to a message and save it; authors are not readers of their own messages
+    * Callers must hold the lock
+    * @returns true if the reader was new
+    */
+   private addReader(message: Message, username: string): boolean {
+      if (message.username === username) {
+         return false;
+      }
+
+      const readers = this.readers.get(message.id) || new Set<string>();
+      if (readers.has(username)) {
+         return false;
+      }
+
+      readers.add(username);
+      this.readers.set(message.id, readers);
+      this.store.saveReadReceipt(message.id, Array.from(readers));
+      return true;
+   }
+
+   private setLastRead(room: string, username: string, messageId: string): void {
+      if (!this.lastRead.has(room)) {
+         this.lastRead.set(room, new Map());
+      }
+      this.lastRead.get(room)!.set(username.toLowerCase(), messageId);
+   }
+
+   /**
+    * Get read receipt count (distinct readers)
     */
    public getReadReceiptCount(messageId: string): number {
-      return this.readReceiptCounts.get(messageId) || 0;
+      return this.readers.get(messageId)?.size || 0;
+   }
+
+   /**
+    * Get the users who have read a message, in the order they read it
+    */
+   public getReaders(messageId: string): string[] {
+      return Array.from(this.readers.get(messageId) || []);
+   }
+
+   /**
+    * Get the last message a user has read in a room
+    * @returns Message ID, or undefined if the user has never read the room
+    */
+   public getLastRead(room: string, username: string): string | undefined {
+      return this.lastRead.get(room)?.get(username.toLowerCase());
+   }
+
+   /**
+    * Count messages by other users after a user's last-read pointer
+    * A user who has never read the room has nothing unread yet
+    * 
+    * @returns Number of non-deleted messages by others sent after the pointer
+    */
+   public getUnreadCount(room: string, username: string): number {
+      const lastReadId = this.getLastRead(room, username);
+      if (lastReadId === undefined) {
+         return 0;
+      }
+
+      const roomIds = Array.from(this.messagesByRoom.get(room) || []);
+      return roomIds
+         .slice(roomIds.indexOf(lastReadId) + 1)
+         .map(id => this.messages.get(id)!)
+         .filter(message => !message.deleted && message.username.toLowerCase() !== username.toLowerCase())
+         .length;
    }
 
    /**
     * Clear all messages (for testing)
+    * Also clears the backing store
     */
    public clear(): void {
       this.messages.clear();
       this.messagesByRoom.clear();
-      this.readReceiptCounts.clear();
+      this.readers.clear();
+      this.lastRead.clear();
+      this.searchIndex.clear();
+      this.store.clear();
       this.checkRep();
    }
 }
 
-// Export singleton instance
-export const messageRepository = new MessageRepository();
+// Export singleton instance, rebuilt from the configured store at startup
+export const messageRepository = new MessageRepository(createMessageStore());
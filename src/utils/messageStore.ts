@@ -0,0 +1,236 @@
+/**
+ * Message Storage Adapters
+ * Persists MessageRepository state behind a small storage interface
+ * - InMemoryMessageStore: keeps records in process memory (tests, ephemeral servers)
+ * - FileMessageStore: append-only JSONL log that survives restarts
+ *
+ * Stores only ever see flat message snapshots; the repository rebuilds
+ * its room index and reply trees from parentId when it loads.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Message } from '../types/index';
+import logger from './logger';
+
+/**
+ * Message as persisted: the replies tree is derived, so it is never stored
+ */
+export type StoredMessage = Omit<Message, 'replies'>;
+
+/**
+ * A user's last-read message in a room
+ */
+export interface LastReadPointer {
+   room: string;
+   username: string;
+   messageId: string;
+}
+
+/**
+ * Everything a repository needs to rebuild its state
+ */
+export interface MessageStoreSnapshot {
+   messages: StoredMessage[]; // In first-write order, so parents precede replies
+   readReceipts: Array<[string, string[]]>; // messageId -> usernames that have read it
+   lastRead: LastReadPointer[];
+}
+
+/**
+ * Storage adapter interface used by MessageRepository
+ * All writes are synchronous so they complete inside the repository lock
+ */
+export interface MessageStore {
+   load(): MessageStoreSnapshot;
+   saveMessage(message: Message): void;
+   saveReadReceipt(messageId: string, readers: string[]): void;
+   saveLastRead(pointer: LastReadPointer): void;
+   clear(): void;
+}
+
+/**
+ * Key of a last-read pointer; usernames are case-insensitive
+ */
+function lastReadKey(pointer: LastReadPointer): string {
+   return JSON.stringify([pointer.room, pointer.username.toLowerCase()]);
+}
+
+/**
+ * Copy a message without its replies tree
+ * Deep copy so later mutations in the repository don't leak into the store
+ */
+function toStoredMessage(message: Message): StoredMessage {
+   const { replies, ...stored } = message;
+   return JSON.parse(JSON.stringify(stored));
+}
+
+/**
+ * In-memory store
+ * Map insertion order is kept on overwrite, so first-write order is preserved
+ */
+export class InMemoryMessageStore implements MessageStore {
+   private messages: Map<string, StoredMessage> = new Map();
+   private readReceipts: Map<string, string[]> = new Map();
+   private lastRead: Map<string, LastReadPointer> = new Map();
+
+   public load(): MessageStoreSnapshot {
+      return {
+         messages: Array.from(this.messages.values()).map(m => JSON.parse(JSON.stringify(m))),
+         readReceipts: Array.from(this.readReceipts.entries()).map(([id, readers]) => [id, [...readers]]),
+         lastRead: Array.from(this.lastRead.values()).map(pointer => ({ ...pointer }))
+      };
+   }
+
+   public saveMessage(message: Message): void {
+      this.messages.set(message.id, toStoredMessage(message));
+   }
+
+   public saveReadReceipt(messageId: string, readers: string[]): void {
+      this.readReceipts.set(messageId, [...readers]);
+   }
+
+   public saveLastRead(pointer: LastReadPointer): void {
+      this.lastRead.set(lastReadKey(pointer), { ...pointer });
+   }
+
+   public clear(): void {
+      this.messages.clear();
+      this.readReceipts.clear();
+      this.lastRead.clear();
+   }
+}
+
+/**
+ * Record types written to the JSONL log
+ */
+type LogRecord =
+   | { type: 'message'; message: StoredMessage }
+   | { type: 'readReceipt'; messageId: string; readers: string[] }
+   | { type: 'lastRead'; pointer: LastReadPointer };
+
+/**
+ * Append-only JSONL file store
+ * Every mutation appends the latest snapshot of one record; on load the
+ * last write per key wins. The log is compacted on load once stale records
+ * outnumber live ones.
+ *
+ * Representation Invariant:
+ * - Each line of the file is one JSON LogRecord
+ * - A message record never appears before the record of its parent
+ */
+export class FileMessageStore implements MessageStore {
+   private filePath: string;
+
+   /**
+    * @param filePath - Path of the JSONL log (created if missing)
+    */
+   constructor(filePath: string) {
+      this.filePath = filePath;
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+   }
+
+   public load(): MessageStoreSnapshot {
+      const messages = new Map<string, StoredMessage>();
+      const readReceipts = new Map<string, string[]>();
+      const lastRead = new Map<string, LastReadPointer>();
+
+      if (!fs.existsSync(this.filePath)) {
+         return { messages: [], readReceipts: [], lastRead: [] };
+      }
+
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+      let recordCount = 0;
+
+      for (let i = 0; i < lines.length; i++) {
+         const line = lines[i].trim();
+         if (line.length === 0) {
+            continue;
+         }
+
+         let record: LogRecord;
+         try {
+            record = JSON.parse(line);
+         } catch (error) {
+            // A crash mid-append can leave a torn final line; anything else is corruption
+            if (i >= lines.length - 2) {
+               logger.warn(`Ignoring incomplete record at end of ${this.filePath}`);
+               continue;
+            }
+            throw new Error(`Corrupt message log ${this.filePath} at line ${i + 1}`);
+         }
+
+         recordCount++;
+         if (record.type === 'message') {
+            messages.set(record.message.id, record.message);
+         } else if (record.type === 'readReceipt') {
+            // Older logs hold anonymous counts, which cannot be attributed to readers
+            if (Array.isArray(record.readers)) {
+               readReceipts.set(record.messageId, record.readers);
+            }
+         } else if (record.type === 'lastRead') {
+            lastRead.set(lastReadKey(record.pointer), record.pointer);
+         }
+      }
+
+      const snapshot: MessageStoreSnapshot = {
+         messages: Array.from(messages.values()),
+         readReceipts: Array.from(readReceipts.entries()),
+         lastRead: Array.from(lastRead.values())
+      };
+
+      if (recordCount > 2 * (messages.size + readReceipts.size + lastRead.size)) {
+         this.compact(snapshot);
+      }
+
+      return snapshot;
+   }
+
+   public saveMessage(message: Message): void {
+      this.append({ type: 'message', message: toStoredMessage(message) });
+   }
+
+   public saveReadReceipt(messageId: string, readers: string[]): void {
+      this.append({ type: 'readReceipt', messageId, readers });
+   }
+
+   public saveLastRead(pointer: LastReadPointer): void {
+      this.append({ type: 'lastRead', pointer });
+   }
+
+   public clear(): void {
+      fs.writeFileSync(this.filePath, '');
+   }
+
+   /**
+    * Rewrite the log with one record per key
+    * Written to a temp file and renamed so a crash never loses the log
+    */
+   private compact(snapshot: MessageStoreSnapshot): void {
+      const records: LogRecord[] = [
+         ...snapshot.messages.map(message => ({ type: 'message' as const, message })),
+         ...snapshot.readReceipts.map(([messageId, readers]) => ({ type: 'readReceipt' as const, messageId, readers })),
+         ...snapshot.lastRead.map(pointer => ({ type: 'lastRead' as const, pointer }))
+      ];
+
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, records.map(r => JSON.stringify(r) + '\n').join(''));
+      fs.renameSync(tempPath, this.filePath);
+      logger.info(`Compacted message log ${this.filePath} to ${records.length} records`);
+   }
+
+   private append(record: LogRecord): void {
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+   }
+}
+
+/**
+ * Create the store configured for this process
+ * Uses memory under tests or when MESSAGE_STORE=memory, otherwise a JSONL
+ * log at MESSAGE_STORE_PATH (default: data/messages.jsonl)
+ */
+export function createMessageStore(): MessageStore {
+   if (process.env.NODE_ENV === 'test' || process.env.MESSAGE_STORE === 'memory') {
+      return new InMemoryMessageStore();
+   }
+   return new FileMessageStore(process.env.MESSAGE_STORE_PATH || path.join('data', 'messages.jsonl'));
+}
@@ -0,0 +1,177 @@
+/**
+ * Moderation Action Executor
+ * Carries out the actions of matched moderation rules
+ * - Sanctions go through the sanction store and UserRepository, flags into
+ *   the review queue, and every action is written to the audit log
+ * - Socket work (announcements, removing banned users) is left to the
+ *   caller, which gets a ModerationOutcome describing what happened
+ */
+
+import { ModerationAction, ModerationMatch, ReviewItem } from '../types/index';
+import { AuditLog, auditLog } from './auditLog';
+import { ReviewQueue, reviewQueue } from './reviewQueue';
+import { SanctionRepository, sanctionRepository } from './sanctions';
+import { UserRepository, userRepository } from './users';
+
+/**
+ * Who moderation rules act as in sanctions, audit entries and the review queue
+ */
+export const AUTOMOD_ACTOR = 'automod';
+
+export const DEFAULT_WARNING = 'Your message triggered a moderation warning';
+
+/**
+ * Actions that stop the message from being posted
+ */
+const BLOCKING_ACTIONS: readonly ModerationAction[] = ['delete', 'ban'];
+
+/**
+ * The message a set of rules matched
+ */
+export interface ModerationContext {
+   username: string;
+   room: string; // Where sanctions apply
+   text: string;
+   messageId?: string; // Omitted when the message was blocked and never stored
+   isPrivate?: boolean; // A direct message, which room moderators must not see
+}
+
+/**
+ * What executing the rules did, for the caller to announce
+ * A sanction's durationMs is omitted when it lasts until lifted
+ */
+export interface ModerationOutcome {
+   warnings: string[];
+   muted?: { durationMs?: number };
+   banned?: { durationMs?: number };
+   flagged?: ReviewItem;
+}
+
+/**
+ * Check whether any matched rule stops the message from being posted
+ */
+export function isBlocked(matches: ModerationMatch[]): boolean {
+   return matches.some(match => BLOCKING_ACTIONS.includes(match.action.type));
+}
+
+/**
+ * Pick the strongest of several sanctions: one without an end beats any timed one
+ */
+function strongest(matches: ModerationMatch[]): { durationMs?: number } | undefined {
+   if (matches.length === 0) {
+      return undefined;
+   }
+   if (matches.some(match => match.action.durationMs === undefined)) {
+      return {};
+   }
+   return { durationMs: Math.max(...matches.map(match => match.action.durationMs!)) };
+}
+
+/**
+ * ModerationActionExecutor Class
+ * Holds no state of its own: everything it does lands in the stores it was given
+ */
+export class ModerationActionExecutor {
+   private users: UserRepository;
+   private sanctions: SanctionRepository;
+   private audit: AuditLog;
+   private queue: ReviewQueue;
+
+   constructor(users: UserRepository, sanctions: SanctionRepository, audit: AuditLog, queue: ReviewQueue) {
+      this.users = users;
+      this.sanctions = sanctions;
+      this.audit = audit;
+      this.queue = queue;
+   }
+
+   /**
+    * Carry out the actions of the rules a message matched
+    * Several mutes or bans are merged into the strongest one, and several
+    * flags into one review item; each matched rule gets its own audit entry
+    * Flags on a private message are dropped: the review queue and audit log
+    * are per room, and the conversation is not the room's to read
+    *
+    * @param matches - Matched rules, from ModerationRuleEngine.match
+    * @param context - The message and where it was sent
+    * @returns What was done
+    *
+    * Postconditions:
+    * - A mute is in force in context.room for a mute match, and a ban for a ban match
+    * - The user's live muted flag is set if context.room is their active room
+    * - One audit entry per match, except flags on a private message; entries for
+    *   a private message do not name it
+    */
+   public execute(matches: ModerationMatch[], context: ModerationContext): ModerationOutcome {
+      const outcome: ModerationOutcome = { warnings: [] };
+      const acted = context.isPrivate ? matches.filter(match => match.action.type !== 'flag') : matches;
+      const byType = (type: ModerationAction) => acted.filter(match => match.action.type === type);
+
+      for (const match of acted) {
+         this.audit.record({
+            action: match.action.type,
+            username: context.username,
+            room: context.room,
+            actor: AUTOMOD_ACTOR,
+            ruleId: match.ruleId,
+            messageId: context.isPrivate ? undefined : context.messageId,
+            durationMs: match.action.durationMs,
+            detail: match.action.message
+         });
+      }
+
+      const mute = strongest(byType('mute'));
+      if (mute) {
+         this.sanctions.addSanction({
+            type: 'mute',
+            username: context.username,
+            room: context.room,
+            reason: this.reason(byType('mute')),
+            issuedBy: AUTOMOD_ACTOR,
+            durationMs: mute.durationMs
+         });
+         if (this.users.getUserByUsername(context.username)?.room === context.room) {
+            this.users.muteUser(context.username);
+         }
+         outcome.muted = mute;
+      }
+
+      const ban = strongest(byType('ban'));
+      if (ban) {
+         this.sanctions.addSanction({
+            type: 'ban',
+            username: context.username,
+            room: context.room,
+            reason: this.reason(byType('ban')),
+            issuedBy: AUTOMOD_ACTOR,
+            durationMs: ban.durationMs
+         });
+         outcome.banned = ban;
+      }
+
+      outcome.warnings = Array.from(new Set(byType('warn').map(match => match.action.message ?? DEFAULT_WARNING)));
+
+      const flags = byType('flag');
+      if (flags.length > 0) {
+         outcome.flagged = this.queue.add({
+            room: context.room,
+            messageId: context.messageId,
+            author: context.username,
+            text: context.text,
+            reason: flags.map(match => match.action.message ?? `Matched rule ${match.ruleId}`).join('; '),
+            reportedBy: AUTOMOD_ACTOR
+         });
+      }
+
+      return outcome;
+   }
+
+   /**
+    * Sanction reason naming the rules that gave it
+    */
+   private reason(matches: ModerationMatch[]): string {
+      return `Automatic moderation (rule ${matches.map(match => match.ruleId).join(', ')})`;
+   }
+}
+
+// Export singleton instance, wired to the shared stores
+export const moderationExecutor = new ModerationActionExecutor(userRepository, sanctionRepository, auditLog, reviewQueue);
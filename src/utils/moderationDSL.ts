@@ -1,163 +1,714 @@
 /**
  * Domain-Specific Language (DSL) for Chat Moderation
  * Implements a little language for automation rules
- * 
+ *
  * Grammar:
- * Rule -> 'when' Condition 'then' Action
- * Condition -> Expression ('and' Expression | 'or' Expression)*
- * Expression -> Field Operator Value
- * Field -> 'message' | 'user' | 'word_count'
- * Operator -> 'contains' | 'equals' | 'matches' | '>' | '<' | '>=' | '<='
- * Action -> 'mute' | 'ban' | 'delete' | 'warn' | 'flag'
- * 
+ * Rule       -> 'when' Condition 'then' Action
+ * Condition  -> AndExpr ('or' AndExpr)*
+ * AndExpr    -> NotExpr ('and' NotExpr)*
+ * NotExpr    -> 'not' NotExpr | Primary
+ * Primary    -> '(' Condition ')' | Comparison
+ * Comparison -> Field Operator Value
+ * Field      -> 'message' | 'user' | 'username' | 'word_count' | 'length' | 'caps_ratio'
+ *             | 'link_count' | 'mention_count' | 'duplicate_count' | 'user.warnings'
+ *             | 'user.account_age' | 'messages_last' '(' Duration ')'
+ * Operator   -> 'contains' | 'equals' | 'matches' | '>' | '<' | '>=' | '<='
+ * Value      -> String | Number | Duration
+ * Action     -> ('mute' | 'ban') ('for' Duration)? | ('warn' | 'flag') String? | 'delete'
+ * Duration   -> a number and unit such as 30s, 10m, 2h or 1d
+ *
+ * message, user and username are text; user.account_age is a duration; the
+ * other fields are numbers. caps_ratio is the share of letters that are
+ * capitals (0 to 1). messages_last(10s) counts the sender's messages in the
+ * last 10 seconds, and duplicate_count how often they sent this text in the
+ * last 10 minutes, both counting this message. user.warnings counts the
+ * warnings they got in the last day.
+ *
+ * Keywords, fields and actions are case-insensitive. Strings are quoted with
+ * ' or " and may contain keywords, spaces and \-escaped quotes. Rules may span
+ * several lines.
+ *
  * Example Rules:
  * "when message contains 'spam' then delete"
  * "when word_count > 50 then warn"
- * "when user equals 'baduser' then ban"
+ * "when (message contains 'buy' or message contains 'sell') and not user equals 'admin' then flag"
+ * "when message contains 'idiot' then mute for 10m"
+ * "when length > 500 then warn 'Please keep messages short'"
+ * "when messages_last(10s) > 5 or duplicate_count >= 3 then mute for 5m"
+ * "when user.account_age < 1d and link_count > 0 then flag 'New account posting links'"
  */
 
-import { ModerationRule } from '../types/index';
+import {
+   ModerationAction,
+   ModerationActionSpec,
+   ModerationExpression,
+   ModerationField,
+   ModerationMatch,
+   ModerationOperator,
+   ModerationParseError,
+   ModerationParseResult,
+   ModerationRule,
+   ModerationRuleAst
+} from '../types/index';
+import { AccountRepository, accountRepository } from './accounts';
+import { ACTIVITY_WINDOW_MS, ActivityTracker, activityTracker } from './activityTracker';
+import { formatDuration, parseDuration } from './sanctions';
+
+type FieldType = 'text' | 'number' | 'duration';
+
+const FIELD_TYPES: ReadonlyMap<ModerationField, FieldType> = new Map<ModerationField, FieldType>([
+   ['message', 'text'],
+   ['user', 'text'],
+   ['username', 'text'],
+   ['word_count', 'number'],
+   ['length', 'number'],
+   ['caps_ratio', 'number'],
+   ['link_count', 'number'],
+   ['mention_count', 'number'],
+   ['messages_last', 'number'],
+   ['duplicate_count', 'number'],
+   ['user.warnings', 'number'],
+   ['user.account_age', 'duration']
+]);
+const FIELD_NAMES = Array.from(FIELD_TYPES.keys(), field => field === 'messages_last' ? 'messages_last(<duration>)' : field);
+const TYPE_NAMES: Record<FieldType, string> = { text: 'text', number: 'a number', duration: 'a duration' };
+const VALUE_HINTS: Record<FieldType, string> = { text: 'a quoted string', number: 'a number', duration: 'a duration such as 1d' };
+const WORD_OPERATORS: readonly ModerationOperator[] = ['contains', 'equals', 'matches'];
+const ACTIONS: readonly ModerationAction[] = ['mute', 'ban', 'delete', 'warn', 'flag'];
+const KEYWORDS: readonly string[] = ['when', 'then', 'and', 'or', 'not', 'for'];
+
+interface Token {
+   type: 'word' | 'string' | 'number' | 'duration' | 'symbol' | 'end';
+   text: string; // Words are lowercased; strings have quotes and escapes removed
+   line: number;
+   column: number;
+}
+
+/**
+ * Thrown inside the parser to abandon a rule at its first syntax error
+ */
+class SyntaxFailure extends Error {
+   constructor(public readonly error: ModerationParseError) {
+      super(error.message);
+   }
+}
+
+function fail(token: Pick<Token, 'line' | 'column'>, message: string): never {
+   throw new SyntaxFailure({ message, line: token.line, column: token.column });
+}
+
+/**
+ * Split rule source into tokens, ending with an 'end' token
+ * @throws SyntaxFailure on an unterminated string or an unexpected character
+ */
+function tokenize(source: string): Token[] {
+   const tokens: Token[] = [];
+   let line = 1;
+   let column = 1;
+   let i = 0;
+
+   const advance = (count: number): void => {
+      for (let k = 0; k < count; k++, i++) {
+         if (source[i] === '\n') {
+            line++;
+            column = 1;
+         } else {
+            column++;
+         }
+      }
+   };
+
+   while (i < source.length) {
+      const rest = source.slice(i);
+      const start = { line, column };
+
+      const space = rest.match(/^\s+/);
+      if (space) {
+         advance(space[0].length);
+         continue;
+      }
+
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*/);
+      if (word) {
+         tokens.push({ type: 'word', text: word[0].toLowerCase(), ...start });
+         advance(word[0].length);
+         continue;
+      }
+
+      const duration = rest.match(/^\d+[A-Za-z]+/);
+      if (duration) {
+         tokens.push({ type: 'duration', text: duration[0].toLowerCase(), ...start });
+         advance(duration[0].length);
+         continue;
+      }
+
+      const number = rest.match(/^-?\d+(\.\d+)?/);
+      if (number) {
+         tokens.push({ type: 'number', text: number[0], ...start });
+         advance(number[0].length);
+         continue;
+      }
+
+      const symbol = rest.match(/^(>=|<=|>|<|\(|\))/);
+      if (symbol) {
+         tokens.push({ type: 'symbol', text: symbol[0], ...start });
+         advance(symbol[0].length);
+         continue;
+      }
 
-interface RuleCondition {
-   field: string;
-   operator: string;
-   value: string | number;
+      if (rest[0] === '"' || rest[0] === "'") {
+         const quote = rest[0];
+         let text = '';
+         let j = 1;
+         while (j < rest.length && rest[j] !== quote) {
+            if (rest[j] === '\\' && j + 1 < rest.length) {
+               j++;
+            }
+            text += rest[j];
+            j++;
+         }
+         if (j >= rest.length) {
+            fail(start, `Unterminated string: expected a closing ${quote}`);
+         }
+         tokens.push({ type: 'string', text, ...start });
+         advance(j + 1);
+         continue;
+      }
+
+      fail(start, `Unexpected character '${rest[0]}'`);
+   }
+
+   tokens.push({ type: 'end', text: '', line, column });
+   return tokens;
 }
 
-interface ParsedRule {
-   conditions: RuleCondition[];
-   action: string;
-   logic: 'and' | 'or';
+/**
+ * Describe a token for an error message
+ */
+function describe(token: Token): string {
+   switch (token.type) {
+      case 'end':
+         return 'the end of the rule';
+      case 'string':
+         return `the string "${token.text}"`;
+      default:
+         return `'${token.text}'`;
+   }
 }
 
 /**
  * DSL Parser for Moderation Rules
+ * A recursive-descent parser with one method per grammar rule. Syntax errors
+ * stop the parse; type errors (e.g. a number compared with 'contains') are
+ * collected so every one in the rule is reported at once.
  */
 export class ModerationDSLParser {
+   private tokens: Token[] = [];
+   private position = 0;
+   private errors: ModerationParseError[] = [];
+
+   /**
+    * Parse a rule string into an AST
+    * @param ruleString - DSL rule source
+    * @returns The rule, or the errors with their line and column
+    */
+   public parse(ruleString: string): ModerationParseResult {
+      this.position = 0;
+      this.errors = [];
+
+      try {
+         this.tokens = tokenize(ruleString);
+         const rule = this.parseRule();
+         return this.errors.length === 0 ? { rule, errors: [] } : { errors: this.errors };
+      } catch (error) {
+         if (error instanceof SyntaxFailure) {
+            return { errors: [...this.errors, error.error] };
+         }
+         throw error;
+      }
+   }
+
+   private peek(): Token {
+      return this.tokens[this.position];
+   }
+
+   private next(): Token {
+      const token = this.tokens[this.position];
+      if (token.type !== 'end') {
+         this.position++;
+      }
+      return token;
+   }
+
+   /**
+    * Consume the keyword if it is next
+    */
+   private accept(keyword: string): boolean {
+      const token = this.peek();
+      if (token.type === 'word' && token.text === keyword) {
+         this.position++;
+         return true;
+      }
+      return false;
+   }
+
+   private expectKeyword(keyword: string, context: string): void {
+      if (!this.accept(keyword)) {
+         fail(this.peek(), `Expected '${keyword}' ${context} but found ${describe(this.peek())}`);
+      }
+   }
+
    /**
-    * Parse a rule string into structured format
-    * @param ruleString - DSL rule string
-    * @returns Parsed rule object
+    * Record a type error without stopping the parse
     */
-   public parse(ruleString: string): ParsedRule | null {
-      const normalized = ruleString.toLowerCase().trim();
+   private report(token: Token, message: string): void {
+      this.errors.push({ message, line: token.line, column: token.column });
+   }
+
+   // Rule -> 'when' Condition 'then' Action
+   private parseRule(): ModerationRuleAst {
+      this.expectKeyword('when', 'at the start of the rule');
+      const condition = this.parseCondition();
+      this.expectKeyword('then', 'after the condition');
+      const action = this.parseAction();
+
+      const extra = this.peek();
+      if (extra.type !== 'end') {
+         fail(extra, `Unexpected ${describe(extra)} after the action`);
+      }
+      return { condition, action };
+   }
+
+   // Condition -> AndExpr ('or' AndExpr)*
+   private parseCondition(): ModerationExpression {
+      let left = this.parseAnd();
+      while (this.accept('or')) {
+         left = { kind: 'or', left, right: this.parseAnd() };
+      }
+      return left;
+   }
 
-      // Extract condition and action parts
-      const whenThenMatch = normalized.match(/when\s+(.+)\s+then\s+(\w+)/);
-      if (!whenThenMatch) {
-         return null;
+   // AndExpr -> NotExpr ('and' NotExpr)*
+   private parseAnd(): ModerationExpression {
+      let left = this.parseNot();
+      while (this.accept('and')) {
+         left = { kind: 'and', left, right: this.parseNot() };
       }
+      return left;
+   }
 
-      const conditionPart = whenThenMatch[1];
-      const action = whenThenMatch[2];
+   // NotExpr -> 'not' NotExpr | Primary
+   private parseNot(): ModerationExpression {
+      if (this.accept('not')) {
+         return { kind: 'not', operand: this.parseNot() };
+      }
+      return this.parsePrimary();
+   }
 
-      // Determine logic operator
-      const logic: 'and' | 'or' = conditionPart.includes(' or ') ? 'or' : 'and';
+   // Primary -> '(' Condition ')' | Comparison
+   private parsePrimary(): ModerationExpression {
+      const token = this.peek();
+      if (token.type === 'symbol' && token.text === '(') {
+         this.next();
+         const inner = this.parseCondition();
+         const close = this.next();
+         if (close.type !== 'symbol' || close.text !== ')') {
+            fail(close, `Expected ')' to close the '(' at line ${token.line}, column ${token.column} but found ${describe(close)}`);
+         }
+         return inner;
+      }
+      return this.parseComparison();
+   }
 
-      // Split conditions
-      const conditionStrings = conditionPart.split(logic === 'and' ? ' and ' : ' or ');
-      const conditions: RuleCondition[] = [];
+   // Comparison -> Field Operator Value
+   private parseComparison(): ModerationExpression {
+      const fieldToken = this.next();
+      if (fieldToken.type !== 'word' || KEYWORDS.includes(fieldToken.text)) {
+         fail(fieldToken, `Expected a condition such as message contains "spam" but found ${describe(fieldToken)}`);
+      }
+      const field = fieldToken.text as ModerationField;
+      const fieldType = FIELD_TYPES.get(field);
+      if (!fieldType) {
+         this.report(fieldToken, `Unknown field '${fieldToken.text}'. Use one of: ${FIELD_NAMES.join(', ')}`);
+      }
+      const windowMs = field === 'messages_last' ? this.parseWindow() : undefined;
+
+      const operatorToken = this.next();
+      const operator = operatorToken.text as ModerationOperator;
+      const isOperator = operatorToken.type === 'word'
+         ? WORD_OPERATORS.includes(operator)
+         : operatorToken.type === 'symbol' && !['(', ')'].includes(operatorToken.text);
+      if (!isOperator) {
+         fail(operatorToken, `Expected an operator (${WORD_OPERATORS.join(', ')}, >, <, >=, <=) after '${fieldToken.text}' but found ${describe(operatorToken)}`);
+      }
 
-      for (const condStr of conditionStrings) {
-         const condition = this.parseCondition(condStr.trim());
-         if (condition) {
-            conditions.push(condition);
+      const valueToken = this.next();
+      let value: string | number;
+      if (valueToken.type === 'string') {
+         value = valueToken.text;
+      } else if (valueToken.type === 'number') {
+         value = parseFloat(valueToken.text);
+      } else if (valueToken.type === 'duration') {
+         const durationMs = parseDuration(valueToken.text);
+         if (durationMs === null) {
+            this.report(valueToken, `Invalid duration '${valueToken.text}': use 30s, 10m, 2h or 1d`);
          }
+         value = durationMs ?? 0;
+      } else {
+         fail(valueToken, `Expected a quoted string, a number or a duration after '${operator}' but found ${describe(valueToken)}`);
       }
 
-      if (conditions.length === 0) {
-         return null;
+      this.checkTypes(fieldToken, fieldType, operatorToken, valueToken);
+      return windowMs === undefined
+         ? { kind: 'comparison', field, operator, value }
+         : { kind: 'comparison', field, windowMs, operator, value };
+   }
+
+   // 'messages_last' '(' Duration ')'
+   private parseWindow(): number {
+      const open = this.next();
+      if (open.type !== 'symbol' || open.text !== '(') {
+         fail(open, `Expected '(' and a duration after 'messages_last', as in messages_last(10s), but found ${describe(open)}`);
+      }
+
+      const durationToken = this.next();
+      const windowMs = durationToken.type === 'duration' ? parseDuration(durationToken.text) : null;
+      if (windowMs === null) {
+         fail(durationToken, `Expected a duration such as 10s or 5m in messages_last(...) but found ${describe(durationToken)}`);
+      }
+      if (windowMs > ACTIVITY_WINDOW_MS) {
+         this.report(durationToken, `messages_last can look back at most ${formatDuration(ACTIVITY_WINDOW_MS)}`);
       }
 
-      return { conditions, action, logic };
+      const close = this.next();
+      if (close.type !== 'symbol' || close.text !== ')') {
+         fail(close, `Expected ')' after the duration of messages_last but found ${describe(close)}`);
+      }
+      return windowMs;
    }
 
    /**
-    * Parse a single condition
+    * Report comparisons whose field, operator and value types do not fit together
+    * @param fieldType - The field's type, or undefined for an unknown field (already reported)
     */
-   private parseCondition(condStr: string): RuleCondition | null {
-      // Try different operators in order of specificity
-      const operators = ['contains', 'equals', 'matches', '>=', '<=', '>', '<'];
-console.log("these are the operators", operators)
-      for (const op of operators) {
-         const parts = condStr.split(` ${op} `);
-         if (parts.length === 2) {
-            const field = parts[0].trim();
-            let value: string | number = parts[1].trim().replace(/['"]/g, '');
-
-            // Try to parse as number
-            const numValue = parseFloat(value);
-            if (!isNaN(numValue)) {
-               value = numValue;
-            }
-            return { field, operator: op, value }
+   private checkTypes(fieldToken: Token, fieldType: FieldType | undefined, operatorToken: Token, valueToken: Token): void {
+      const operator = operatorToken.text;
+      const valueType: FieldType = valueToken.type === 'string' ? 'text' : valueToken.type === 'duration' ? 'duration' : 'number';
+      const mismatch = (type: FieldType): string =>
+         `'${fieldToken.text}' is ${TYPE_NAMES[type]}, so compare it with ${VALUE_HINTS[type]}`;
+
+      if (operator === 'contains' || operator === 'matches') {
+         if (fieldType && fieldType !== 'text') {
+            this.report(operatorToken, `'${operator}' needs a text field, but '${fieldToken.text}' is ${TYPE_NAMES[fieldType]}`);
+         }
+         if (valueType !== 'text') {
+            this.report(valueToken, `'${operator}' needs a quoted string`);
+         }
+      } else if (operator === 'equals') {
+         if (fieldType && valueType !== fieldType) {
+            this.report(valueToken, mismatch(fieldType));
+         }
+      } else {
+         if (fieldType === 'text') {
+            this.report(operatorToken, `'${operator}' needs a number field, but '${fieldToken.text}' is text`);
+         }
+         if (valueType === 'text') {
+            this.report(valueToken, `'${operator}' needs a number`);
+         } else if (fieldType && fieldType !== 'text' && valueType !== fieldType) {
+            this.report(valueToken, mismatch(fieldType));
          }
       }
-      return null;
+
+      if (operator === 'matches' && valueToken.type === 'string') {
+         try {
+            new RegExp(valueToken.text);
+         } catch {
+            this.report(valueToken, `Invalid regular expression "${valueToken.text}"`);
+         }
+      }
+   }
+
+   // Action -> ('mute' | 'ban') ('for' Duration)? | ('warn' | 'flag') String? | 'delete'
+   private parseAction(): ModerationActionSpec {
+      const token = this.next();
+      if (token.type !== 'word') {
+         fail(token, `Expected an action (${ACTIONS.join(', ')}) but found ${describe(token)}`);
+      }
+      const action: ModerationActionSpec = { type: token.text as ModerationAction };
+      if (!ACTIONS.includes(action.type)) {
+         this.report(token, `Unknown action '${token.text}'. Use one of: ${ACTIONS.join(', ')}`);
+         return action;
+      }
+
+      if ((action.type === 'mute' || action.type === 'ban') && this.accept('for')) {
+         const durationToken = this.next();
+         const durationMs = durationToken.type === 'duration' ? parseDuration(durationToken.text) : null;
+         if (durationMs === null) {
+            fail(durationToken, `Expected a duration such as 30s, 10m, 2h or 1d after 'for' but found ${describe(durationToken)}`);
+         }
+         action.durationMs = durationMs;
+      } else if ((action.type === 'warn' || action.type === 'flag') && this.peek().type === 'string') {
+         action.message = this.next().text;
+      }
+      return action;
+   }
+}
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+const MENTION_PATTERN = /(?:^|\s)@\w+/g;
+
+/**
+ * What rules can ask about a message and its sender, worked out once per message
+ * Text facts are worked out up front; facts about the sender's activity are
+ * looked up the first time a rule asks, then kept for the other rules
+ */
+class MessageFacts {
+   public readonly message: string; // Lowercased
+   public readonly username: string; // Lowercased
+   public readonly wordCount: number;
+   public readonly length: number;
+   public readonly capsRatio: number; // Capitals among letters; 0 without letters
+   public readonly linkCount: number;
+   public readonly mentionCount: number;
+
+   private readonly text: string;
+   private readonly sender: string;
+   private readonly activity: ActivityTracker;
+   private readonly accounts: AccountRepository;
+   private readonly now: number;
+   private messageCounts: Map<number, number> = new Map(); // window -> messages in it
+   private duplicates?: number;
+   private warnings?: number;
+   private accountAge?: number;
+
+   constructor(text: string, sender: string, activity: ActivityTracker, accounts: AccountRepository, now: number) {
+      this.message = text.toLowerCase();
+      this.username = sender.toLowerCase();
+      this.wordCount = text.split(/\s+/).length;
+      this.length = text.length;
+
+      const letters = text.match(/\p{L}/gu)?.length ?? 0;
+      const capitals = text.match(/\p{Lu}/gu)?.length ?? 0;
+      this.capsRatio = letters === 0 ? 0 : capitals / letters;
+      this.linkCount = text.match(LINK_PATTERN)?.length ?? 0;
+      this.mentionCount = text.match(MENTION_PATTERN)?.length ?? 0;
+
+      this.text = text;
+      this.sender = sender;
+      this.activity = activity;
+      this.accounts = accounts;
+      this.now = now;
+   }
+
+   public messagesInLast(windowMs: number): number {
+      let count = this.messageCounts.get(windowMs);
+      if (count === undefined) {
+         count = this.activity.countMessages(this.sender, windowMs, this.now);
+         this.messageCounts.set(windowMs, count);
+      }
+      return count;
+   }
+
+   public get duplicateCount(): number {
+      if (this.duplicates === undefined) {
+         this.duplicates = this.activity.countDuplicates(this.sender, this.text, this.now);
+      }
+      return this.duplicates;
+   }
+
+   public get warningCount(): number {
+      if (this.warnings === undefined) {
+         this.warnings = this.activity.countWarnings(this.sender, this.now);
+      }
+      return this.warnings;
    }
 
    /**
-    * Validate a parsed rule
+    * Time since the sender registered; 0 for a sender without an account
     */
-   public validate(rule: ParsedRule): boolean {
-      const validFields = ['message', 'user', 'username', 'word_count', 'length'];
-      const validOperators = ['contains', 'equals', 'matches', '>', '<', '>=', '<='];
-      const validActions = ['mute', 'ban', 'delete', 'warn', 'flag'];
+   public get accountAgeMs(): number {
+      if (this.accountAge === undefined) {
+         const createdAt = this.accounts.getAccount(this.sender)?.createdAt;
+         this.accountAge = createdAt === undefined ? 0 : Math.max(0, this.now - createdAt);
+      }
+      return this.accountAge;
+   }
+}
 
-      // Validate action
-      if (!validActions.includes(rule.action)) {
-         return false;
+/**
+ * A compiled condition
+ */
+type RuleEvaluator = (facts: MessageFacts) => boolean;
+
+interface CompiledRule {
+   action: ModerationActionSpec;
+   matches: RuleEvaluator;
+}
+
+/**
+ * Compiles parsed conditions into closures, so evaluating a message walks no AST
+ * and builds no regular expressions; identical patterns share one RegExp
+ */
+class RuleCompiler {
+   private regexes: Map<string, RegExp> = new Map(); // pattern -> case-insensitive RegExp
+
+   /**
+    * Compile a condition
+    * @param expression - Condition accepted by ModerationDSLParser, so its types fit
+    */
+   public compile(expression: ModerationExpression): RuleEvaluator {
+      switch (expression.kind) {
+         case 'or': {
+            const left = this.compile(expression.left);
+            const right = this.compile(expression.right);
+            return facts => left(facts) || right(facts);
+         }
+         case 'and': {
+            const left = this.compile(expression.left);
+            const right = this.compile(expression.right);
+            return facts => left(facts) && right(facts);
+         }
+         case 'not': {
+            const operand = this.compile(expression.operand);
+            return facts => !operand(facts);
+         }
+         case 'comparison':
+            return this.compileComparison(expression);
       }
+   }
+
+   /**
+    * Compile a single comparison; text is compared case-insensitively
+    */
+   private compileComparison(comparison: Extract<ModerationExpression, { kind: 'comparison' }>): RuleEvaluator {
+      const field = this.compileField(comparison);
+      const value = typeof comparison.value === 'string'
+         ? comparison.value.toLowerCase()
+         : comparison.value;
 
-      // Validate each condition
-      for (const condition of rule.conditions) {
-         if (!validFields.includes(condition.field)) {
-            return false;
+      switch (comparison.operator) {
+         case 'contains':
+            return facts => (field(facts) as string).includes(value as string);
+         case 'equals':
+            return facts => field(facts) === value;
+         case 'matches': {
+            const regex = this.getRegex(comparison.value as string);
+            return facts => regex.test(field(facts) as string);
          }
-         if (!validOperators.includes(condition.operator)) {
-            return false;
+         case '>':
+            return facts => (field(facts) as number) > (value as number);
+         case '<':
+            return facts => (field(facts) as number) < (value as number);
+         case '>=':
+            return facts => (field(facts) as number) >= (value as number);
+         case '<=':
+            return facts => (field(facts) as number) <= (value as number);
+      }
+   }
+
+   private compileField(comparison: Extract<ModerationExpression, { kind: 'comparison' }>): (facts: MessageFacts) => string | number {
+      switch (comparison.field) {
+         case 'message':
+            return facts => facts.message;
+         case 'user':
+         case 'username':
+            return facts => facts.username;
+         case 'word_count':
+            return facts => facts.wordCount;
+         case 'length':
+            return facts => facts.length;
+         case 'caps_ratio':
+            return facts => facts.capsRatio;
+         case 'link_count':
+            return facts => facts.linkCount;
+         case 'mention_count':
+            return facts => facts.mentionCount;
+         case 'messages_last': {
+            const windowMs = comparison.windowMs!;
+            return facts => facts.messagesInLast(windowMs);
          }
+         case 'duplicate_count':
+            return facts => facts.duplicateCount;
+         case 'user.warnings':
+            return facts => facts.warningCount;
+         case 'user.account_age':
+            return facts => facts.accountAgeMs;
       }
+   }
 
-      return true;
+   /**
+    * Get the shared RegExp for a pattern; without the g flag, test() keeps no state between messages
+    */
+   private getRegex(pattern: string): RegExp {
+      let regex = this.regexes.get(pattern);
+      if (!regex) {
+         regex = new RegExp(pattern, 'i');
+         this.regexes.set(pattern, regex);
+      }
+      return regex;
    }
 }
 
 /**
  * Moderation Rule Engine
  * Evaluates rules against messages and executes actions
+ * - Rules about a sender's recent activity read it from an ActivityTracker;
+ *   callers record each message there before matching it
  */
 export class ModerationRuleEngine {
    private rules: Map<string, ModerationRule>;
+   private parsed: Map<string, ModerationRuleAst>; // rule ID -> AST of its condition string
+   private compiled: Map<string, CompiledRule>; // rule ID -> compiled rule, for enabled rules only
    private parser: ModerationDSLParser;
+   private compiler: RuleCompiler;
+   private activity: ActivityTracker;
+   private accounts: AccountRepository;
 
-   constructor() {
+   /**
+    * Constructor
+    * @param activity - Where senders' recent messages and warnings are recorded (default: shared tracker)
+    * @param accounts - Where account ages come from (default: shared repository)
+    */
+   constructor(activity: ActivityTracker = activityTracker, accounts: AccountRepository = accountRepository) {
+      this.activity = activity;
+      this.accounts = accounts;
       this.rules = new Map();
+      this.parsed = new Map();
+      this.compiled = new Map();
       this.parser = new ModerationDSLParser();
+      this.compiler = new RuleCompiler();
    }
 
    /**
-    * Add a moderation rule
+    * Add a moderation rule, compiling it if it is enabled
+    * @returns Why the rule's condition does not parse; empty if the rule was added
     */
-   public addRule(rule: ModerationRule): boolean {
-      const parsed = this.parser.parse(rule.condition);
-      if (!parsed || !this.parser.validate(parsed)) {
-         return false;
+   public addRule(rule: ModerationRule): ModerationParseError[] {
+      const { rule: ast, errors } = this.parser.parse(rule.condition);
+      if (!ast) {
+         return errors;
       }
 
       this.rules.set(rule.id, rule);
-      return true;
+      this.parsed.set(rule.id, ast);
+      this.compiled.delete(rule.id);
+      if (rule.enabled) {
+         this.compileRule(rule.id);
+      }
+      return [];
    }
 
    /**
     * Remove a rule
     */
    public removeRule(ruleId: string): boolean {
+      this.parsed.delete(ruleId);
+      this.compiled.delete(ruleId);
       return this.rules.delete(ruleId);
    }
 
    /**
-    * Enable/disable a rule
+    * Enable/disable a rule; enabling compiles it, disabling drops the compiled form
     */
    public toggleRule(ruleId: string, enabled: boolean): boolean {
       const rule = this.rules.get(ruleId);
@@ -165,119 +716,50 @@ export class ModerationRuleEngine {
          return false;
       }
       rule.enabled = enabled;
+
+      if (!enabled) {
+         this.compiled.delete(ruleId);
+      } else if (!this.compiled.has(ruleId)) {
+         this.compileRule(ruleId);
+      }
       return true;
    }
 
    /**
-    * Evaluate a message against all enabled rules
-    * @param message - Message text
-    * @param username - Username of sender
-    * @returns Array of actions to execute
+    * Compile a parsed rule into the set evaluate() runs
     */
-   public evaluate(message: string, username: string): string[] {
-      const actions: string[] = [];
-
-      for (const rule of this.rules.values()) {
-         if (!rule.enabled) {
-            continue;
-         }
-
-         const parsed = this.parser.parse(rule.condition);
-         if (!parsed) {
-            continue;
-         }
-
-         if (this.evaluateRule(parsed, message, username)) {
-            const actionParsed = this.parser.parse(rule.action);
-            if (actionParsed) {
-               actions.push(actionParsed.action);
-            } else {
-               // Simple action format
-               actions.push(rule.action);
-            }
-         }
-      }
-
-      return actions;
+   private compileRule(ruleId: string): void {
+      const ast = this.parsed.get(ruleId)!;
+      this.compiled.set(ruleId, { action: ast.action, matches: this.compiler.compile(ast.condition) });
    }
 
    /**
-    * Evaluate a single parsed rule
+    * Find the enabled rules a message matches
+    * Runs on every chat message, so it only calls the compiled rules
+    * @param message - Message text
+    * @param username - Username of sender
+    * @param now - When the message was sent; activity windows end here
+    * @returns Each matching rule with the action from its 'then' clause
     */
-   private evaluateRule(rule: ParsedRule, message: string, username: string): boolean {
-      const results: boolean[] = [];
+   public match(message: string, username: string, now: number = Date.now()): ModerationMatch[] {
+      const facts = new MessageFacts(message, username, this.activity, this.accounts, now);
+      const matches: ModerationMatch[] = [];
 
-      for (const condition of rule.conditions) {
-         const result = this.evaluateCondition(condition, message, username);
-         results.push(result);
+      for (const [ruleId, rule] of this.compiled) {
+         if (rule.matches(facts)) {
+            matches.push({ ruleId, action: rule.action });
+         }
       }
 
-      // Apply logic operator
-      if (rule.logic === 'and') {
-         return results.every(r => r);
-      } else {
-         return results.some(r => r);
-      }
+      return matches;
    }
 
    /**
-    * Evaluate a single condition
+    * Evaluate a message against all enabled rules
+    * @returns The action types of the matching rules
     */
-   private evaluateCondition(condition: RuleCondition, message: string, username: string): boolean {
-      let fieldValue: string | number;
-
-      // Get field value
-      switch (condition.field) {
-         case 'message':
-            fieldValue = message.toLowerCase();
-            break;
-         case 'user':
-         case 'username':
-            fieldValue = username.toLowerCase();
-            break;
-         case 'word_count':
-            fieldValue = message.split(/\s+/).length;
-            break;
-         case 'length':
-            fieldValue = message.length;
-            break;
-         default:
-            return false;
-      }
-
-      // Apply operator
-      const condValue = typeof condition.value === 'string' 
-         ? condition.value.toLowerCase() 
-         : condition.value;
-
-      switch (condition.operator) {
-         case 'contains':
-            return typeof fieldValue === 'string' && 
-                   fieldValue.includes(condValue as string);
-         case 'equals':
-            return fieldValue === condValue;
-         case 'matches':
-            try {
-               const regex = new RegExp(condValue as string);
-               return typeof fieldValue === 'string' && regex.test(fieldValue);
-            } catch {
-               return false;
-            }
-         case '>':
-            return typeof fieldValue === 'number' && 
-                   fieldValue > (condValue as number);
-         case '<':
-            return typeof fieldValue === 'number' && 
-                   fieldValue < (condValue as number);
-         case '>=':
-            return typeof fieldValue === 'number' && 
-                   fieldValue >= (condValue as number);
-         case '<=':
-            return typeof fieldValue === 'number' && 
-                   fieldValue <= (condValue as number);
-         default:
-            return false;
-      }
+   public evaluate(message: string, username: string, now: number = Date.now()): ModerationAction[] {
+      return this.match(message, username, now).map(match => match.action.type);
    }
 
    /**
@@ -0,0 +1,149 @@
+/**
+ * Permission Model
+ * Central mapping from actions to the roles allowed to perform them
+ * - Commands declare the permission they need in the command registry
+ * - Defaults apply in every room
+ * - Rooms can override the allowed roles for any permission
+ */
+
+import { UserRole } from '../types/index';
+
+export type Permission =
+   | 'edit-others'
+   | 'delete-others'
+   | 'restore-messages'
+   | 'mute'
+   | 'ban'
+   | 'pin'
+   | 'review-queue'
+   | 'view-history'
+   | 'manage-rules'
+   | 'manage-roles'
+   | 'manage-rooms';
+
+export const ROLES: UserRole[] = ['user', 'moderator', 'admin'];
+
+/**
+ * Roles granted each permission when a room has no override
+ */
+const DEFAULT_GRANTS: Record<Permission, UserRole[]> = {
+   'edit-others': ['admin'],
+   'delete-others': ['admin', 'moderator'],
+   'restore-messages': ['admin', 'moderator'],
+   'mute': ['admin', 'moderator'],
+   'ban': ['admin'],
+   'pin': ['admin', 'moderator'],
+   'review-queue': ['admin', 'moderator'],
+   'view-history': ['admin', 'moderator'],
+   'manage-rules': ['admin'],
+   'manage-roles': ['admin'],
+   'manage-rooms': ['admin']
+};
+
+/**
+ * Check whether a string names a role
+ */
+export function isRole(value: string): value is UserRole {
+   return (ROLES as string[]).includes(value);
+}
+
+/**
+ * PermissionMatrix Class
+ *
+ * Abstraction Function:
+ * AF(grants, roomOverrides) = For each room, a mapping from permission to the
+ *   set of roles holding it: roomOverrides[room][permission] if present,
+ *   otherwise grants[permission]
+ *
+ * Representation Invariant:
+ * - grants has an entry for every permission
+ * - Every role in grants and roomOverrides is admin, moderator or user
+ */
+export class PermissionMatrix {
+   private grants: Map<Permission, Set<UserRole>>;
+   private roomOverrides: Map<string, Map<Permission, Set<UserRole>>>;
+
+   constructor() {
+      this.grants = new Map();
+      this.roomOverrides = new Map();
+      for (const [permission, roles] of Object.entries(DEFAULT_GRANTS)) {
+         this.grants.set(permission as Permission, new Set(roles));
+      }
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const permission of Object.keys(DEFAULT_GRANTS)) {
+         if (!this.grants.has(permission as Permission)) {
+            throw new Error('Invariant violation: missing default grant');
+         }
+      }
+
+      const allRoleSets = [
+         ...this.grants.values(),
+         ...Array.from(this.roomOverrides.values()).flatMap(overrides => Array.from(overrides.values()))
+      ];
+      for (const roles of allRoleSets) {
+         for (const role of roles) {
+            if (!isRole(role)) {
+               throw new Error('Invariant violation: invalid role');
+            }
+         }
+      }
+   }
+
+   /**
+    * Check whether a role holds a permission
+    * @param role - Role to check (users without a role are treated as 'user')
+    * @param permission - Permission to check
+    * @param room - Optional room whose overrides apply
+    */
+   public can(role: UserRole | undefined, permission: Permission, room?: string): boolean {
+      return this.getAllowedRoles(permission, room).includes(role || 'user');
+   }
+
+   /**
+    * Get the roles holding a permission, taking room overrides into account
+    */
+   public getAllowedRoles(permission: Permission, room?: string): UserRole[] {
+      const override = room ? this.roomOverrides.get(room)?.get(permission) : undefined;
+      return Array.from(override || this.grants.get(permission) || []);
+   }
+
+   /**
+    * Override the roles holding a permission in one room
+    *
+    * Preconditions:
+    * - Every role is admin, moderator or user
+    */
+   public setRoomOverride(room: string, permission: Permission, roles: UserRole[]): void {
+      for (const role of roles) {
+         if (!isRole(role)) {
+            throw new Error(`Precondition violated: invalid role ${role}`);
+         }
+      }
+
+      if (!this.roomOverrides.has(room)) {
+         this.roomOverrides.set(room, new Map());
+      }
+      this.roomOverrides.get(room)!.set(permission, new Set(roles));
+      this.checkRep();
+   }
+
+   /**
+    * Remove a room override, or all overrides for the room if no permission is given
+    */
+   public clearRoomOverride(room: string, permission?: Permission): void {
+      if (permission) {
+         this.roomOverrides.get(room)?.delete(permission);
+      } else {
+         this.roomOverrides.delete(room);
+      }
+   }
+}
+
+// Export singleton instance
+export const permissions = new PermissionMatrix();
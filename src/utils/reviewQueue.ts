@@ -0,0 +1,298 @@
+/**
+ * Review Queue ADT
+ * Messages waiting for a moderator, per room, oldest first
+ * - Moderation rules with a 'flag' action add items automatically, and users
+ *   add them with /report
+ * - Items stay open until a moderator dismisses them or acts on them; closed
+ *   items are kept for reference, up to MAX_CLOSED_REVIEW_ITEMS
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ReviewItem, ReviewNote, ReviewResolution, ReviewStatus } from '../types/index';
+import { ConflictError, NotFoundError, RateLimitedError } from './errors';
+import { formatDuration } from './sanctions';
+
+export const MAX_CLOSED_REVIEW_ITEMS = 1000;
+export const MAX_REPORTS_PER_WINDOW = 5;
+export const REPORT_WINDOW_MS = 10 * 60 * 1000;
+
+export const REVIEW_STATUSES: ReviewStatus[] = ['open', 'dismissed', 'actioned'];
+export const REVIEW_RESOLUTIONS: ReviewResolution[] = ['dismiss', 'delete', 'warn', 'mute', 'ban'];
+
+/**
+ * Check whether a string names a review status
+ */
+export function isReviewStatus(value: string): value is ReviewStatus {
+   return (REVIEW_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Check whether a string names a review resolution
+ */
+export function isReviewResolution(value: string): value is ReviewResolution {
+   return (REVIEW_RESOLUTIONS as string[]).includes(value);
+}
+
+/**
+ * ReviewQueue Class
+ *
+ * Abstraction Function:
+ * AF(items, nextId) = The messages flagged or reported for moderators, in the
+ *   order they were added; nextId is the ID the next item gets
+ *
+ * Representation Invariant:
+ * - Item IDs are unique decimal integers below nextId
+ * - createdAt is non-decreasing along items
+ * - An open item has no resolution, resolvedBy or resolvedAt; a closed one has
+ *   all three, and is dismissed exactly when its resolution is 'dismiss'
+ * - At most MAX_CLOSED_REVIEW_ITEMS items are closed
+ */
+export class ReviewQueue {
+   private items: Map<string, ReviewItem>; // id -> item, in insertion order
+   private nextId: number;
+   private filePath?: string;
+
+   /**
+    * Constructor
+    * @param filePath - Optional JSON file to load from and save to; in-memory if omitted
+    */
+   constructor(filePath?: string) {
+      this.items = new Map();
+      this.nextId = 1;
+      this.filePath = filePath;
+      this.load();
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      let previous = 0;
+      let closed = 0;
+      for (const [id, item] of this.items) {
+         if (id !== item.id || !/^\d+$/.test(id) || Number(id) >= this.nextId) {
+            throw new Error('Invariant violation: invalid review item ID');
+         }
+         if (item.createdAt < previous) {
+            throw new Error('Invariant violation: review items out of order');
+         }
+         previous = item.createdAt;
+
+         const resolved = [item.resolution, item.resolvedBy, item.resolvedAt].filter(field => field !== undefined).length;
+         if (item.status === 'open' ? resolved !== 0 : resolved !== 3) {
+            throw new Error('Invariant violation: review item resolution does not match its status');
+         }
+         if (item.status !== 'open' && (item.status === 'dismissed') !== (item.resolution === 'dismiss')) {
+            throw new Error('Invariant violation: review item status does not match its resolution');
+         }
+         if (item.status !== 'open') {
+            closed++;
+         }
+      }
+      if (closed > MAX_CLOSED_REVIEW_ITEMS) {
+         throw new Error('Invariant violation: too many closed review items');
+      }
+   }
+
+   /**
+    * Add an open item to the queue
+    *
+    * Preconditions:
+    * - room, author, reason and reportedBy are non-empty
+    *
+    * Postconditions:
+    * - The item is open, unassigned and last in the queue
+    * - checkRep() passes
+    */
+   public add(item: Pick<ReviewItem, 'room' | 'messageId' | 'author' | 'text' | 'reason' | 'reportedBy'>): ReviewItem {
+      if (!item.room || !item.author || !item.reason || !item.reportedBy) {
+         throw new Error('Precondition violated: room, author, reason and reportedBy must be non-empty');
+      }
+
+      const last = Array.from(this.items.values()).pop();
+      const added: ReviewItem = {
+         ...item,
+         id: String(this.nextId++),
+         createdAt: Math.max(Date.now(), last?.createdAt ?? 0),
+         status: 'open',
+         notes: []
+      };
+
+      this.items.set(added.id, added);
+      this.save();
+      this.checkRep();
+      return added;
+   }
+
+   /**
+    * Add an item for a user's report of a stored message
+    * @throws ConflictError if the user's earlier report of the message is still open
+    * @throws RateLimitedError if the user made MAX_REPORTS_PER_WINDOW reports in the last REPORT_WINDOW_MS
+    *
+    * Preconditions:
+    * - As for add(), and messageId is set
+    */
+   public report(item: Pick<ReviewItem, 'room' | 'messageId' | 'author' | 'text' | 'reason' | 'reportedBy'>): ReviewItem {
+      if (!item.messageId) {
+         throw new Error('Precondition violated: reports must name a message');
+      }
+
+      const byReporter = Array.from(this.items.values()).filter(existing => existing.reportedBy === item.reportedBy);
+      if (byReporter.some(existing => existing.messageId === item.messageId && existing.status === 'open')) {
+         throw new ConflictError('You have already reported this message');
+      }
+
+      const recent = byReporter.filter(existing => existing.createdAt > Date.now() - REPORT_WINDOW_MS);
+      if (recent.length >= MAX_REPORTS_PER_WINDOW) {
+         const retryAfterMs = recent[recent.length - MAX_REPORTS_PER_WINDOW].createdAt + REPORT_WINDOW_MS - Date.now();
+         throw new RateLimitedError(
+            `You can make ${MAX_REPORTS_PER_WINDOW} reports every ${formatDuration(REPORT_WINDOW_MS)}`,
+            retryAfterMs,
+            'report'
+         );
+      }
+
+      return this.add(item);
+   }
+
+   /**
+    * Get the items for a room, oldest first
+    * @param status - Only items in this state, if given
+    */
+   public getItems(room: string, status?: ReviewStatus): ReviewItem[] {
+      return Array.from(this.items.values())
+         .filter(item => item.room === room && (status === undefined || item.status === status));
+   }
+
+   /**
+    * Get an item by ID
+    */
+   public getItem(id: string): ReviewItem | undefined {
+      return this.items.get(id);
+   }
+
+   /**
+    * Give an open item to a moderator, replacing any earlier assignee
+    * @throws NotFoundError if there is no such item
+    * @throws ConflictError if the item is closed
+    */
+   public assign(id: string, assignee: string): ReviewItem {
+      const item = this.requireOpen(id);
+      item.assignee = assignee;
+
+      this.save();
+      this.checkRep();
+      return item;
+   }
+
+   /**
+    * Add a note to an item, open or closed
+    * @throws NotFoundError if there is no such item
+    *
+    * Preconditions:
+    * - author and text are non-empty
+    */
+   public addNote(id: string, author: string, text: string): ReviewItem {
+      if (!author || !text) {
+         throw new Error('Precondition violated: author and text must be non-empty');
+      }
+
+      const item = this.requireItem(id);
+      const note: ReviewNote = { author, text, createdAt: Date.now() };
+      item.notes.push(note);
+
+      this.save();
+      this.checkRep();
+      return item;
+   }
+
+   /**
+    * Close an open item
+    * @param resolution - 'dismiss' leaves it dismissed; anything else, actioned
+    * @param resolvedBy - The moderator closing it
+    * @throws NotFoundError if there is no such item
+    * @throws ConflictError if the item is already closed
+    *
+    * Postconditions:
+    * - The item is closed; the oldest closed items are dropped past MAX_CLOSED_REVIEW_ITEMS
+    * - checkRep() passes
+    */
+   public resolve(id: string, resolution: ReviewResolution, resolvedBy: string): ReviewItem {
+      const item = this.requireOpen(id);
+      item.status = resolution === 'dismiss' ? 'dismissed' : 'actioned';
+      item.resolution = resolution;
+      item.resolvedBy = resolvedBy;
+      item.resolvedAt = Date.now();
+
+      const closed = Array.from(this.items.values()).filter(existing => existing.status !== 'open');
+      for (const dropped of closed.slice(0, Math.max(0, closed.length - MAX_CLOSED_REVIEW_ITEMS))) {
+         this.items.delete(dropped.id);
+      }
+
+      this.save();
+      this.checkRep();
+      return item;
+   }
+
+   /**
+    * Clear all items (for testing)
+    */
+   public clear(): void {
+      this.items.clear();
+      this.nextId = 1;
+      this.save();
+      this.checkRep();
+   }
+
+   private requireItem(id: string): ReviewItem {
+      const item = this.items.get(id);
+      if (!item) {
+         throw new NotFoundError(`Review item ${id} not found`);
+      }
+      return item;
+   }
+
+   private requireOpen(id: string): ReviewItem {
+      const item = this.requireItem(id);
+      if (item.status !== 'open') {
+         throw new ConflictError(`Review item ${id} is already ${item.status}`);
+      }
+      return item;
+   }
+
+   private load(): void {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+         return;
+      }
+
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { nextId: number; items: ReviewItem[] };
+      for (const item of data.items) {
+         this.items.set(item.id, item);
+      }
+      this.nextId = data.nextId;
+   }
+
+   private save(): void {
+      if (!this.filePath) {
+         return;
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      const data = { nextId: this.nextId, items: Array.from(this.items.values()) };
+      fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+   }
+}
+
+/**
+ * Export singleton instance
+ * Saved to REVIEW_QUEUE_PATH (default: data/review-queue.json), in memory under tests
+ */
+export const reviewQueue = new ReviewQueue(
+   process.env.NODE_ENV === 'test'
+      ? undefined
+      : process.env.REVIEW_QUEUE_PATH || path.join('data', 'review-queue.json')
+);
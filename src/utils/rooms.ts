@@ -0,0 +1,580 @@
+/**
+ * Room Registry ADT
+ * Chat rooms and their metadata
+ * - Rooms are created with /create and saved to a JSON file
+ * - Public rooms are listed on the landing page; private and invite-only
+ *   rooms are joined by name
+ * - Room passwords are hashed the same way as account passwords
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { EditPolicy, HistoryVisibility, Room, RoomResult, RoomSummary, RoomVisibility } from '../types/index';
+import { hashPassword, verifyPassword } from './accounts';
+
+/**
+ * Room names are used in URLs and as socket.io room keys; the pattern
+ * excludes ':' so they never collide with direct message rooms
+ */
+export const ROOM_NAME_PATTERN = /^[A-Za-z0-9_-]{1,30}$/;
+export const ROOM_VISIBILITIES: RoomVisibility[] = ['public', 'private', 'invite-only'];
+export const HISTORY_VISIBILITIES: HistoryVisibility[] = ['everyone', 'author', 'moderators'];
+
+const MAX_DISPLAY_NAME_LENGTH = 50;
+const MAX_TOPIC_LENGTH = 200;
+const MIN_ROOM_PASSWORD_LENGTH = 4;
+const MAX_ROOM_MEMBERS = 1000;
+const MAX_UNDO_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_POLICY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_EDITS_LIMIT = 100;
+const SYSTEM_CREATOR = 'system';
+
+/**
+ * How long authors can /undo a delete in rooms that have not set their own window
+ */
+export const DEFAULT_UNDO_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * Rooms that exist before anyone creates one
+ */
+export const DEFAULT_ROOMS: Array<{ name: string; displayName: string }> = [
+   { name: 'Room-1', displayName: 'General Chat' },
+   { name: 'Room-2', displayName: 'Gaming' },
+   { name: 'Room-3', displayName: 'Tech Talk' },
+   { name: 'Room-4', displayName: 'Creative' },
+   { name: 'Room-5', displayName: 'Music Lounge' },
+   { name: 'Room-6', displayName: 'viv room' }
+];
+
+export interface CreateRoomOptions {
+   displayName?: string; // Default: the room name
+   topic?: string;
+   visibility?: RoomVisibility; // Default: public
+   password?: string;
+   maxMembers?: number;
+}
+
+export interface JoinCheck {
+   password?: string;
+   memberCount: number; // Users currently in the room
+   bypass?: boolean; // Skip invite, password and capacity checks (room managers)
+}
+
+/**
+ * Check whether a value is a room visibility
+ */
+export function isRoomVisibility(value: string): value is RoomVisibility {
+   return (ROOM_VISIBILITIES as string[]).includes(value);
+}
+
+/**
+ * Check whether a value is an edit history visibility
+ */
+export function isHistoryVisibility(value: string): value is HistoryVisibility {
+   return (HISTORY_VISIBILITIES as string[]).includes(value);
+}
+
+/**
+ * Build the client-facing view of a room
+ * @param room - Room to summarize
+ * @param memberCount - Users currently in the room
+ */
+export function toRoomSummary(room: Room, memberCount: number): RoomSummary {
+   return {
+      name: room.name,
+      displayName: room.displayName,
+      topic: room.topic,
+      createdBy: room.createdBy,
+      createdAt: room.createdAt,
+      visibility: room.visibility,
+      hasPassword: room.passwordHash !== undefined,
+      ...(room.maxMembers !== undefined && { maxMembers: room.maxMembers }),
+      memberCount
+   };
+}
+
+/**
+ * RoomRegistry Class
+ *
+ * Abstraction Function:
+ * AF(rooms) = The chat rooms users can join where:
+ *   - Each room has a unique name (case-insensitive)
+ *   - A room with a passwordHash can only be joined with its password
+ *   - A room with maxMembers admits at most that many users at once
+ *   - An invite-only room admits its creator and the users in invited
+ *   - Edit histories are visible per historyVisibility (everyone when omitted);
+ *     authors can always see the history of their own messages
+ *   - Authors can undo a delete for undoWindowMs (DEFAULT_UNDO_WINDOW_MS when omitted)
+ *   - Authors' edits and deletes are limited by editPolicy (no limits when omitted)
+ *
+ * Representation Invariant:
+ * - rooms keys are lowercase names of their values
+ * - Every name matches ROOM_NAME_PATTERN
+ * - Every visibility is public, private or invite-only
+ * - maxMembers, when set, is a positive integer
+ * - invited contains no duplicate usernames (case-insensitive)
+ * - historyVisibility, when set, is everyone, author or moderators
+ * - undoWindowMs, when set, is an integer from 0 to MAX_UNDO_WINDOW_MS
+ * - editPolicy, when set, passes validateEditPolicy
+ */
+export class RoomRegistry {
+   private rooms: Map<string, Room>;
+   private filePath?: string;
+
+   /**
+    * Constructor
+    * @param filePath - JSON file to load from and save to (omit to keep rooms in memory)
+    * @param defaults - Rooms to create when there is no saved registry yet
+    */
+   constructor(filePath?: string, defaults: Array<{ name: string; displayName: string }> = DEFAULT_ROOMS) {
+      this.rooms = new Map();
+      this.filePath = filePath;
+      this.load();
+
+      if (this.rooms.size === 0) {
+         for (const { name, displayName } of defaults) {
+            this.createRoom(name, SYSTEM_CREATOR, { displayName });
+         }
+      }
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const [key, room] of this.rooms) {
+         if (key !== room.name.toLowerCase()) {
+            throw new Error('Invariant violation: room key does not match name');
+         }
+         if (!ROOM_NAME_PATTERN.test(room.name)) {
+            throw new Error('Invariant violation: invalid room name');
+         }
+         if (!isRoomVisibility(room.visibility)) {
+            throw new Error('Invariant violation: invalid room visibility');
+         }
+         if (room.maxMembers !== undefined && (!Number.isInteger(room.maxMembers) || room.maxMembers <= 0)) {
+            throw new Error('Invariant violation: maxMembers must be a positive integer');
+         }
+         if (room.historyVisibility !== undefined && !isHistoryVisibility(room.historyVisibility)) {
+            throw new Error('Invariant violation: invalid history visibility');
+         }
+         if (room.undoWindowMs !== undefined && this.validateUndoWindow(room.undoWindowMs)) {
+            throw new Error('Invariant violation: invalid undo window');
+         }
+         if (room.editPolicy !== undefined && this.validateEditPolicy(room.editPolicy)) {
+            throw new Error('Invariant violation: invalid edit policy');
+         }
+         const invited = new Set(room.invited.map(username => username.toLowerCase()));
+         if (invited.size !== room.invited.length) {
+            throw new Error('Invariant violation: duplicate invite');
+         }
+      }
+   }
+
+   /**
+    * Create a room
+    * @param name - Room name (letters, digits, _ and -, at most 30 characters)
+    * @param createdBy - Username of the creator
+    * @param options - Display name, topic, visibility, password and member limit
+    * @returns The new room, or an error if the name or an option is invalid
+    */
+   public createRoom(name: string, createdBy: string, options: CreateRoomOptions = {}): RoomResult {
+      if (!createdBy) {
+         throw new Error('Precondition violated: creator must be non-empty');
+      }
+
+      if (typeof name !== 'string' || !ROOM_NAME_PATTERN.test(name)) {
+         return { error: 'Room names must be 1-30 letters, digits, _ or -' };
+      }
+
+      if (this.rooms.has(name.toLowerCase())) {
+         return { error: `Room ${name} already exists` };
+      }
+
+      const displayName = (options.displayName ?? name).trim();
+      const topic = (options.topic ?? '').trim();
+      const error = this.validateDisplayName(displayName)
+         ?? this.validateTopic(topic)
+         ?? (options.password !== undefined ? this.validatePassword(options.password) : undefined)
+         ?? (options.maxMembers !== undefined ? this.validateMaxMembers(options.maxMembers) : undefined);
+      if (error) {
+         return { error };
+      }
+
+      const room: Room = {
+         name,
+         displayName,
+         topic,
+         createdBy,
+         createdAt: Date.now(),
+         visibility: options.visibility ?? 'public',
+         ...(options.password !== undefined && { passwordHash: hashPassword(options.password) }),
+         ...(options.maxMembers !== undefined && { maxMembers: options.maxMembers }),
+         invited: []
+      };
+
+      this.rooms.set(name.toLowerCase(), room);
+      this.save();
+      this.checkRep();
+      return { room };
+   }
+
+   /**
+    * Look up a room by name (case-insensitive)
+    */
+   public getRoom(name: string): Room | undefined {
+      if (typeof name !== 'string') {
+         return undefined;
+      }
+      return this.rooms.get(name.toLowerCase());
+   }
+
+   /**
+    * Get every room, in creation order
+    */
+   public listRooms(): Room[] {
+      return Array.from(this.rooms.values());
+   }
+
+   /**
+    * Get the rooms shown on the landing page, in creation order
+    */
+   public listPublicRooms(): Room[] {
+      return this.listRooms().filter(room => room.visibility === 'public');
+   }
+
+   /**
+    * Check whether a user created a room
+    */
+   public isCreator(name: string, username: string): boolean {
+      const room = this.getRoom(name);
+      return room !== undefined && room.createdBy.toLowerCase() === username.toLowerCase();
+   }
+
+   /**
+    * Set a room's topic (an empty topic clears it)
+    */
+   public setTopic(name: string, topic: string): RoomResult {
+      return this.update(name, room => {
+         const trimmed = topic.trim();
+         const error = this.validateTopic(trimmed);
+         if (!error) {
+            room.topic = trimmed;
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Set the name shown for a room
+    */
+   public setDisplayName(name: string, displayName: string): RoomResult {
+      return this.update(name, room => {
+         const trimmed = displayName.trim();
+         const error = this.validateDisplayName(trimmed);
+         if (!error) {
+            room.displayName = trimmed;
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Set who can see and join a room
+    */
+   public setVisibility(name: string, visibility: RoomVisibility): RoomResult {
+      if (!isRoomVisibility(visibility)) {
+         throw new Error('Precondition violated: visibility must be public, private or invite-only');
+      }
+
+      return this.update(name, room => {
+         room.visibility = visibility;
+         return undefined;
+      });
+   }
+
+   /**
+    * Set who may view the edit history of messages in a room
+    */
+   public setHistoryVisibility(name: string, visibility: HistoryVisibility): RoomResult {
+      if (!isHistoryVisibility(visibility)) {
+         throw new Error('Precondition violated: history visibility must be everyone, author or moderators');
+      }
+
+      return this.update(name, room => {
+         room.historyVisibility = visibility;
+         return undefined;
+      });
+   }
+
+   /**
+    * Check whether a user may view a message's edit history
+    * @param name - Room the message was sent in
+    * @param username - User asking
+    * @param author - Author of the message
+    * @param moderator - Whether the user holds the 'view-history' permission in the room
+    */
+   public canViewHistory(name: string, username: string, author: string, moderator: boolean): boolean {
+      const room = this.getRoom(name);
+      if (!room) {
+         return false;
+      }
+      if (username.toLowerCase() === author.toLowerCase()) {
+         return true;
+      }
+
+      switch (room.historyVisibility ?? 'everyone') {
+         case 'everyone':
+            return true;
+         case 'moderators':
+            return moderator;
+         default:
+            return false;
+      }
+   }
+
+   /**
+    * Get how long authors in a room can undo deleting a message
+    * @returns Window in milliseconds; 0 if undo is off or the room does not exist
+    */
+   public getUndoWindow(name: string): number {
+      const room = this.getRoom(name);
+      return room ? room.undoWindowMs ?? DEFAULT_UNDO_WINDOW_MS : 0;
+   }
+
+   /**
+    * Set how long authors can undo deleting a message
+    * @param undoWindowMs - Window in milliseconds, or 0 to turn undo off
+    */
+   public setUndoWindow(name: string, undoWindowMs: number): RoomResult {
+      return this.update(name, room => {
+         const error = this.validateUndoWindow(undoWindowMs);
+         if (!error) {
+            room.undoWindowMs = undoWindowMs;
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Get the limits on editing and deleting messages in a room
+    * @returns A copy of the policy; empty (no limits) if none is set or the room does not exist
+    */
+   public getEditPolicy(name: string): EditPolicy {
+      return { ...this.getRoom(name)?.editPolicy };
+   }
+
+   /**
+    * Replace a room's edit policy
+    * @param policy - New limits; omitted limits are removed
+    */
+   public setEditPolicy(name: string, policy: EditPolicy): RoomResult {
+      return this.update(name, room => {
+         const error = this.validateEditPolicy(policy);
+         if (!error) {
+            // Drop limits that were passed as undefined so the saved policy stays minimal
+            room.editPolicy = JSON.parse(JSON.stringify(policy));
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Set or remove a room's password
+    * @param password - New password, or undefined to remove it
+    */
+   public setPassword(name: string, password: string | undefined): RoomResult {
+      return this.update(name, room => {
+         if (password === undefined) {
+            delete room.passwordHash;
+            return undefined;
+         }
+
+         const error = this.validatePassword(password);
+         if (!error) {
+            room.passwordHash = hashPassword(password);
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Set or remove a room's member limit
+    * @param maxMembers - New limit, or undefined for no limit
+    */
+   public setMaxMembers(name: string, maxMembers: number | undefined): RoomResult {
+      return this.update(name, room => {
+         if (maxMembers === undefined) {
+            delete room.maxMembers;
+            return undefined;
+         }
+
+         const error = this.validateMaxMembers(maxMembers);
+         if (!error) {
+            room.maxMembers = maxMembers;
+         }
+         return error;
+      });
+   }
+
+   /**
+    * Allow a user into an invite-only room (inviting twice has no effect)
+    */
+   public invite(name: string, username: string): RoomResult {
+      if (!username) {
+         throw new Error('Precondition violated: username must be non-empty');
+      }
+
+      return this.update(name, room => {
+         if (!room.invited.some(invited => invited.toLowerCase() === username.toLowerCase())) {
+            room.invited.push(username);
+         }
+         return undefined;
+      });
+   }
+
+   /**
+    * Check whether a user may join a room
+    * @param name - Room name
+    * @param username - User joining
+    * @param check - Password supplied, current member count and whether to bypass restrictions
+    * @returns Why the user cannot join, or undefined if they can
+    */
+   public checkJoin(name: string, username: string, check: JoinCheck): string | undefined {
+      const room = this.getRoom(name);
+      if (!room) {
+         return `Room ${name} does not exist`;
+      }
+
+      const isCreator = room.createdBy.toLowerCase() === username.toLowerCase();
+      if (check.bypass || isCreator) {
+         return undefined;
+      }
+
+      if (room.visibility === 'invite-only'
+         && !room.invited.some(invited => invited.toLowerCase() === username.toLowerCase())) {
+         return `Room ${room.name} is invite-only`;
+      }
+
+      if (room.passwordHash !== undefined
+         && (typeof check.password !== 'string' || !verifyPassword(check.password, room.passwordHash))) {
+         return check.password ? 'Incorrect room password' : `Room ${room.name} requires a password`;
+      }
+
+      if (room.maxMembers !== undefined && check.memberCount >= room.maxMembers) {
+         return `Room ${room.name} is full (${room.maxMembers} members)`;
+      }
+
+      return undefined;
+   }
+
+   /**
+    * Remove all rooms, including the defaults (for testing)
+    */
+   public clear(): void {
+      this.rooms.clear();
+      this.save();
+      this.checkRep();
+   }
+
+   private update(name: string, apply: (room: Room) => string | undefined): RoomResult {
+      const room = this.getRoom(name);
+      if (!room) {
+         return { error: `Room ${name} does not exist` };
+      }
+
+      const error = apply(room);
+      if (error) {
+         return { error };
+      }
+
+      this.save();
+      this.checkRep();
+      return { room };
+   }
+
+   private validateDisplayName(displayName: string): string | undefined {
+      if (displayName.length === 0 || displayName.length > MAX_DISPLAY_NAME_LENGTH) {
+         return `Display names must be 1-${MAX_DISPLAY_NAME_LENGTH} characters`;
+      }
+      return undefined;
+   }
+
+   private validateTopic(topic: string): string | undefined {
+      if (topic.length > MAX_TOPIC_LENGTH) {
+         return `Topics must be at most ${MAX_TOPIC_LENGTH} characters`;
+      }
+      return undefined;
+   }
+
+   private validatePassword(password: string): string | undefined {
+      if (typeof password !== 'string' || password.length < MIN_ROOM_PASSWORD_LENGTH) {
+         return `Room passwords must be at least ${MIN_ROOM_PASSWORD_LENGTH} characters`;
+      }
+      return undefined;
+   }
+
+   private validateMaxMembers(maxMembers: number): string | undefined {
+      if (!Number.isInteger(maxMembers) || maxMembers <= 0 || maxMembers > MAX_ROOM_MEMBERS) {
+         return `Member limits must be a whole number from 1 to ${MAX_ROOM_MEMBERS}`;
+      }
+      return undefined;
+   }
+
+   private validateUndoWindow(undoWindowMs: number): string | undefined {
+      if (!Number.isInteger(undoWindowMs) || undoWindowMs < 0 || undoWindowMs > MAX_UNDO_WINDOW_MS) {
+         return 'Undo windows must be between 0 and 1 day';
+      }
+      return undefined;
+   }
+
+   private validateEditPolicy(policy: EditPolicy): string | undefined {
+      for (const windowMs of [policy.editWindowMs, policy.deleteWindowMs]) {
+         if (windowMs !== undefined
+            && (!Number.isInteger(windowMs) || windowMs <= 0 || windowMs > MAX_POLICY_WINDOW_MS)) {
+            return 'Edit and delete windows must be between 1 second and 30 days';
+         }
+      }
+      if (policy.maxEdits !== undefined
+         && (!Number.isInteger(policy.maxEdits) || policy.maxEdits < 0 || policy.maxEdits > MAX_EDITS_LIMIT)) {
+         return `Edit limits must be a whole number from 0 to ${MAX_EDITS_LIMIT}`;
+      }
+      if (policy.lockReplied !== undefined && typeof policy.lockReplied !== 'boolean') {
+         return 'The reply lock must be on or off';
+      }
+      return undefined;
+   }
+
+   private load(): void {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+         return;
+      }
+
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { rooms: Room[] };
+      for (const room of data.rooms) {
+         this.rooms.set(room.name.toLowerCase(), { ...room, invited: room.invited || [] });
+      }
+   }
+
+   private save(): void {
+      if (!this.filePath) {
+         return;
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ rooms: this.listRooms() }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+   }
+}
+
+/**
+ * Export singleton instance
+ * Saved to ROOMS_PATH (default: data/rooms.json), in memory under tests
+ */
+export const roomRegistry = new RoomRegistry(
+   process.env.NODE_ENV === 'test'
+      ? undefined
+      : process.env.ROOMS_PATH || path.join('data', 'rooms.json')
+);
@@ -0,0 +1,257 @@
+/**
+ * Sanction Repository ADT
+ * Persistent bans and mutes keyed by username and optionally by room
+ * - Sanctions outlive the socket connection, so reconnecting does not lift them
+ * - Timed sanctions carry an expiry and are removed by expireSanctions()
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Sanction, SanctionType } from '../types/index';
+
+const DURATION_UNITS: Record<string, number> = {
+   s: 1000,
+   m: 60 * 1000,
+   h: 60 * 60 * 1000,
+   d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a duration such as "30s", "10m", "2h" or "1d"
+ * @param input - Duration string
+ * @returns Duration in milliseconds, or null if malformed or not positive
+ */
+export function parseDuration(input: string): number | null {
+   const match = /^(\d+)([smhd])$/i.exec(input.trim());
+   if (!match) {
+      return null;
+   }
+
+   const ms = parseInt(match[1], 10) * DURATION_UNITS[match[2].toLowerCase()];
+   return ms > 0 ? ms : null;
+}
+
+/**
+ * Format milliseconds as the largest whole unit, e.g. 600000 -> "10m"
+ */
+export function formatDuration(ms: number): string {
+   for (const unit of ['d', 'h', 'm']) {
+      if (ms % DURATION_UNITS[unit] === 0) {
+         return `${ms / DURATION_UNITS[unit]}${unit}`;
+      }
+   }
+   return `${Math.ceil(ms / 1000)}s`;
+}
+
+/**
+ * Parameters for issuing a sanction
+ */
+export interface SanctionRequest {
+   type: SanctionType;
+   username: string;
+   room?: string;
+   reason?: string;
+   issuedBy: string;
+   durationMs?: number;
+}
+
+/**
+ * SanctionRepository Class
+ *
+ * Abstraction Function:
+ * AF(sanctions) = The bans and mutes in force, where each applies to one
+ *   username either in one room or (room omitted) in every room, until
+ *   expiresAt or until lifted
+ *
+ * Representation Invariant:
+ * - At most one sanction per (type, lowercase username, room) key
+ * - expiresAt, if set, is after createdAt
+ */
+export class SanctionRepository {
+   private sanctions: Map<string, Sanction>; // "type:username:room" -> Sanction
+   private filePath?: string;
+
+   /**
+    * Constructor
+    * @param filePath - Optional JSON file to load from and save to; in-memory if omitted
+    */
+   constructor(filePath?: string) {
+      this.sanctions = new Map();
+      this.filePath = filePath;
+      this.load();
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const [key, sanction] of this.sanctions) {
+         if (key !== SanctionRepository.key(sanction.type, sanction.username, sanction.room)) {
+            throw new Error('Invariant violation: sanction key does not match sanction');
+         }
+         if (sanction.expiresAt !== undefined && sanction.expiresAt <= sanction.createdAt) {
+            throw new Error('Invariant violation: sanction expires before it was created');
+         }
+      }
+   }
+
+   private static key(type: SanctionType, username: string, room?: string): string {
+      return `${type}:${username.toLowerCase()}:${room ?? '*'}`;
+   }
+
+   /**
+    * Issue a sanction, replacing any existing one with the same scope
+    *
+    * Preconditions:
+    * - username and issuedBy are non-empty
+    * - durationMs, if given, is positive
+    *
+    * Postconditions:
+    * - Sanction is in force and saved
+    * - checkRep() passes
+    */
+   public addSanction(request: SanctionRequest): Sanction {
+      if (!request.username || !request.issuedBy) {
+         throw new Error('Precondition violated: username and issuedBy must be non-empty');
+      }
+      if (request.durationMs !== undefined && request.durationMs <= 0) {
+         throw new Error('Precondition violated: duration must be positive');
+      }
+
+      const now = Date.now();
+      const sanction: Sanction = {
+         id: crypto.randomUUID(),
+         type: request.type,
+         username: request.username,
+         room: request.room,
+         reason: request.reason || 'No reason given',
+         issuedBy: request.issuedBy,
+         createdAt: now,
+         expiresAt: request.durationMs !== undefined ? now + request.durationMs : undefined
+      };
+
+      this.sanctions.set(SanctionRepository.key(sanction.type, sanction.username, sanction.room), sanction);
+      this.save();
+      this.checkRep();
+      return sanction;
+   }
+
+   /**
+    * Lift the sanction with exactly this scope
+    * @returns Removed sanction, or undefined if none was in force
+    */
+   public removeSanction(type: SanctionType, username: string, room?: string): Sanction | undefined {
+      const key = SanctionRepository.key(type, username, room);
+      const sanction = this.sanctions.get(key);
+      if (!sanction) {
+         return undefined;
+      }
+
+      this.sanctions.delete(key);
+      this.save();
+      this.checkRep();
+      return sanction;
+   }
+
+   /**
+    * Find the sanction in force for a user in a room
+    * Room-scoped sanctions take precedence over global ones
+    * @returns Active sanction, or undefined
+    */
+   public getActiveSanction(
+      type: SanctionType,
+      username: string,
+      room: string,
+      now: number = Date.now()
+   ): Sanction | undefined {
+      const candidates = [
+         this.sanctions.get(SanctionRepository.key(type, username, room)),
+         this.sanctions.get(SanctionRepository.key(type, username))
+      ];
+
+      return candidates.find(s => s !== undefined && (s.expiresAt === undefined || s.expiresAt > now));
+   }
+
+   public isBanned(username: string, room: string): boolean {
+      return this.getActiveSanction('ban', username, room) !== undefined;
+   }
+
+   public isMuted(username: string, room: string): boolean {
+      return this.getActiveSanction('mute', username, room) !== undefined;
+   }
+
+   /**
+    * Remove every sanction whose expiry has passed
+    * @param now - Current time (default: Date.now())
+    * @returns The sanctions that expired, so callers can announce them
+    */
+   public expireSanctions(now: number = Date.now()): Sanction[] {
+      const expired: Sanction[] = [];
+
+      for (const [key, sanction] of this.sanctions) {
+         if (sanction.expiresAt !== undefined && sanction.expiresAt <= now) {
+            this.sanctions.delete(key);
+            expired.push(sanction);
+         }
+      }
+
+      if (expired.length > 0) {
+         this.save();
+         this.checkRep();
+      }
+      return expired;
+   }
+
+   /**
+    * Get all sanctions, optionally for one user
+    */
+   public getSanctions(username?: string): Sanction[] {
+      const all = Array.from(this.sanctions.values());
+      return username
+         ? all.filter(s => s.username.toLowerCase() === username.toLowerCase())
+         : all;
+   }
+
+   /**
+    * Clear all sanctions (for testing)
+    */
+   public clear(): void {
+      this.sanctions.clear();
+      this.save();
+      this.checkRep();
+   }
+
+   private load(): void {
+      if (!this.filePath || !fs.existsSync(this.filePath)) {
+         return;
+      }
+
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { sanctions: Sanction[] };
+      for (const sanction of data.sanctions) {
+         this.sanctions.set(SanctionRepository.key(sanction.type, sanction.username, sanction.room), sanction);
+      }
+   }
+
+   private save(): void {
+      if (!this.filePath) {
+         return;
+      }
+
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ sanctions: Array.from(this.sanctions.values()) }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+   }
+}
+
+/**
+ * Export singleton instance
+ * Saved to SANCTIONS_PATH (default: data/sanctions.json), in memory under tests
+ */
+export const sanctionRepository = new SanctionRepository(
+   process.env.NODE_ENV === 'test'
+      ? undefined
+      : process.env.SANCTIONS_PATH || path.join('data', 'sanctions.json')
+);
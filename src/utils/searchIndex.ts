@@ -0,0 +1,476 @@
+/**
+ * Search Index ADT
+ * Inverted index over message text, with the /search query language
+ * - Text is split into lowercase letter/digit tokens
+ * - Queries combine words, "quoted phrases", from:<user>, before:<date>,
+ *   after:<date>, in:thread:<id> and has:edits; a leading - negates any part
+ * - Results are ranked by tf-idf over the query's words, newest first on ties
+ */
+
+import { SearchClause, SearchQuery } from '../types/index';
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * A message as seen by the index
+ */
+export interface IndexedMessage {
+   id: string;
+   room: string;
+   username: string;
+   text: string;
+   sentAt: number; // When the message was first sent (edits do not move it)
+   edited: boolean;
+}
+
+export interface SearchMatch {
+   messageId: string;
+   score: number;
+   snippet: string;
+}
+
+/**
+ * Split text into lowercase search tokens
+ */
+export function tokenize(text: string): string[] {
+   return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Parse a date for before: and after: (YYYY-MM-DD is midnight UTC)
+ * @returns Milliseconds since the epoch, or undefined if invalid
+ */
+function parseDate(value: string): number | undefined {
+   const timestamp = DATE_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : Date.parse(value);
+   return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Turn free text into a term or phrase clause
+ * @returns undefined if the text has no searchable characters
+ */
+function textClause(text: string, negated: boolean): SearchClause | undefined {
+   const tokens = tokenize(text);
+   if (tokens.length === 0) {
+      return undefined;
+   }
+   return tokens.length === 1
+      ? { kind: 'term', value: tokens[0], negated }
+      : { kind: 'phrase', tokens, negated };
+}
+
+/**
+ * Turn one operator (name:value) into a clause
+ * @returns The clause, an error, or undefined if name is not an operator
+ */
+function operatorClause(name: string, value: string, negated: boolean): { clause?: SearchClause; error?: string } | undefined {
+   switch (name) {
+      case 'from': {
+         const username = value.replace(/^@/, '');
+         return username ? { clause: { kind: 'from', username, negated } } : { error: 'from: needs a username' };
+      }
+      case 'before':
+      case 'after': {
+         const timestamp = parseDate(value);
+         return timestamp === undefined
+            ? { error: `"${value}" is not a valid date (use YYYY-MM-DD)` }
+            : { clause: { kind: name, timestamp, negated } };
+      }
+      case 'in': {
+         const messageId = value.startsWith('thread:') ? value.slice('thread:'.length) : '';
+         return messageId
+            ? { clause: { kind: 'thread', messageId, negated } }
+            : { error: `Unknown filter in:${value} (use in:thread:<id>)` };
+      }
+      case 'has':
+         return value === 'edits'
+            ? { clause: { kind: 'has-edits', negated } }
+            : { error: `Unknown filter has:${value} (use has:edits)` };
+      default:
+         return undefined;
+   }
+}
+
+/**
+ * Parse a /search query
+ * @param raw - Query text, e.g. `deploy -staging from:alice after:2024-05-01 "release notes"`
+ * @returns The parsed query, or an error describing the first invalid part
+ */
+export function parseSearchQuery(raw: string): { query?: SearchQuery; error?: string } {
+   const clauses: SearchClause[] = [];
+   let i = 0;
+
+   while (i < raw.length) {
+      if (/\s/.test(raw[i])) {
+         i++;
+         continue;
+      }
+
+      const negated = raw[i] === '-' && i + 1 < raw.length && !/\s/.test(raw[i + 1]);
+      if (negated) {
+         i++;
+      }
+
+      if (raw[i] === '"') {
+         const close = raw.indexOf('"', i + 1);
+         const end = close === -1 ? raw.length : close;
+         const clause = textClause(raw.slice(i + 1, end), negated);
+         if (clause) {
+            clauses.push(clause);
+         }
+         i = end + 1;
+         continue;
+      }
+
+      let end = i;
+      while (end < raw.length && !/\s/.test(raw[end])) {
+         end++;
+      }
+      const word = raw.slice(i, end);
+      i = end;
+
+      const colon = word.indexOf(':');
+      const operator = colon > 0
+         ? operatorClause(word.slice(0, colon).toLowerCase(), word.slice(colon + 1), negated)
+         : undefined;
+      if (operator?.error) {
+         return { error: operator.error };
+      }
+
+      const clause = operator?.clause ?? textClause(word, negated);
+      if (clause) {
+         clauses.push(clause);
+      }
+   }
+
+   if (!clauses.some(clause => !clause.negated)) {
+      return { error: 'Search for at least one word or filter' };
+   }
+   return { query: { raw: raw.trim(), clauses } };
+}
+
+/**
+ * SearchIndex Class
+ *
+ * Abstraction Function:
+ * AF(documents, postings, byRoom) = The searchable messages, where each token maps
+ *   to the messages containing it and how often it occurs in each
+ *
+ * Representation Invariant:
+ * - Every posting names an indexed message whose tokens include the posting's token,
+ *   with a count equal to the token's occurrences
+ * - No token maps to an empty posting list
+ * - byRoom holds exactly the indexed messages of each room, with no empty rooms
+ */
+export class SearchIndex {
+   private documents: Map<string, { message: IndexedMessage; tokens: string[] }>;
+   private postings: Map<string, Map<string, number>>; // token -> messageId -> occurrences
+   private byRoom: Map<string, Set<string>>;
+   private getParentId: (messageId: string) => string | undefined;
+
+   /**
+    * Constructor
+    * @param getParentId - Looks up a message's parent, for in:thread: (parents may not be indexed)
+    */
+   constructor(getParentId: (messageId: string) => string | undefined = () => undefined) {
+      this.documents = new Map();
+      this.postings = new Map();
+      this.byRoom = new Map();
+      this.getParentId = getParentId;
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      let postingCount = 0;
+      for (const posting of this.postings.values()) {
+         if (posting.size === 0) {
+            throw new Error('Invariant violation: empty posting list');
+         }
+         postingCount += posting.size;
+      }
+
+      // Every (token, message) pair in the documents must be posted with its count, and nothing else
+      let expectedCount = 0;
+      for (const [messageId, document] of this.documents) {
+         const counts = new Map<string, number>();
+         for (const token of document.tokens) {
+            counts.set(token, (counts.get(token) || 0) + 1);
+         }
+         for (const [token, count] of counts) {
+            if (this.postings.get(token)?.get(messageId) !== count) {
+               throw new Error('Invariant violation: posting does not match document');
+            }
+         }
+         expectedCount += counts.size;
+      }
+      if (postingCount !== expectedCount) {
+         throw new Error('Invariant violation: posting for unindexed message');
+      }
+
+      for (const [room, ids] of this.byRoom) {
+         if (ids.size === 0) {
+            throw new Error('Invariant violation: empty room in index');
+         }
+         for (const id of ids) {
+            if (this.documents.get(id)?.message.room !== room) {
+               throw new Error('Invariant violation: room index does not match document');
+            }
+         }
+      }
+   }
+
+   /**
+    * Check the invariant for the entries one add() or remove() touched, so that
+    * single-message changes cost the size of the message rather than the index
+    * @param messageId - The message added or removed
+    * @param tokens - Its tokens before and after the change
+    * @param room - Its room before the change, if it was indexed
+    */
+   private checkEntries(messageId: string, tokens: Iterable<string>, room?: string): void {
+      const document = this.documents.get(messageId);
+      const counts = new Map<string, number>();
+      for (const token of document?.tokens ?? []) {
+         counts.set(token, (counts.get(token) || 0) + 1);
+      }
+
+      for (const token of tokens) {
+         const posting = this.postings.get(token);
+         if (posting?.size === 0) {
+            throw new Error('Invariant violation: empty posting list');
+         }
+         if (posting?.get(messageId) !== counts.get(token)) {
+            throw new Error('Invariant violation: posting does not match document');
+         }
+      }
+
+      for (const checked of [room, document?.message.room]) {
+         const ids = checked === undefined ? undefined : this.byRoom.get(checked);
+         if (ids?.size === 0) {
+            throw new Error('Invariant violation: empty room in index');
+         }
+         if ((ids?.has(messageId) ?? false) !== (document !== undefined && document.message.room === checked)) {
+            throw new Error('Invariant violation: room index does not match document');
+         }
+      }
+   }
+
+   /**
+    * Number of indexed messages
+    */
+   public get size(): number {
+      return this.documents.size;
+   }
+
+   /**
+    * Index a message, replacing any earlier version of it
+    */
+   public add(message: IndexedMessage): void {
+      if (!message.id || !message.room) {
+         throw new Error('Precondition violated: message must have an id and room');
+      }
+
+      const previous = this.documents.get(message.id);
+      this.unindex(message.id);
+
+      const tokens = tokenize(message.text);
+      this.documents.set(message.id, { message: { ...message }, tokens });
+
+      for (const token of tokens) {
+         if (!this.postings.has(token)) {
+            this.postings.set(token, new Map());
+         }
+         const posting = this.postings.get(token)!;
+         posting.set(message.id, (posting.get(message.id) || 0) + 1);
+      }
+
+      if (!this.byRoom.has(message.room)) {
+         this.byRoom.set(message.room, new Set());
+      }
+      this.byRoom.get(message.room)!.add(message.id);
+
+      this.checkEntries(message.id, new Set([...(previous?.tokens ?? []), ...tokens]), previous?.message.room);
+   }
+
+   /**
+    * Remove a message from the index
+    * @returns true if the message was indexed
+    */
+   public remove(messageId: string): boolean {
+      const previous = this.documents.get(messageId);
+      const removed = this.unindex(messageId);
+      this.checkEntries(messageId, new Set(previous?.tokens ?? []), previous?.message.room);
+      return removed;
+   }
+
+   /**
+    * Find the messages in a room matching a query
+    * @param room - Room to search
+    * @param query - Parsed query (see parseSearchQuery)
+    * @param limit - Maximum matches to return
+    * @returns The best matches, and how many messages matched in total
+    */
+   public search(room: string, query: SearchQuery, limit: number): { matches: SearchMatch[]; total: number } {
+      if (!Number.isInteger(limit) || limit <= 0) {
+         throw new Error('Precondition violated: limit must be a positive integer');
+      }
+
+      const positiveTokens = query.clauses.flatMap(clause => {
+         if (clause.negated) {
+            return [];
+         }
+         return clause.kind === 'term' ? [clause.value] : clause.kind === 'phrase' ? clause.tokens : [];
+      });
+
+      const matched = Array.from(this.candidates(room, positiveTokens))
+         .map(id => this.documents.get(id)!)
+         .filter(document => document.message.room === room)
+         .filter(document => query.clauses.every(clause => this.matches(document, clause) !== clause.negated));
+
+      const ranked = matched
+         .map(document => ({ document, score: this.score(document.message.id, positiveTokens) }))
+         .sort((a, b) => b.score - a.score || b.document.message.sentAt - a.document.message.sentAt);
+
+      return {
+         matches: ranked.slice(0, limit).map(({ document, score }) => ({
+            messageId: document.message.id,
+            score,
+            snippet: makeSnippet(document.message.text, positiveTokens)
+         })),
+         total: ranked.length
+      };
+   }
+
+   /**
+    * Remove all messages (for testing)
+    */
+   public clear(): void {
+      this.documents.clear();
+      this.postings.clear();
+      this.byRoom.clear();
+      this.checkRep();
+   }
+
+   /**
+    * Messages that could match: those containing the rarest positive token,
+    * or the whole room when the query has no words
+    */
+   private candidates(room: string, positiveTokens: string[]): Iterable<string> {
+      if (positiveTokens.length === 0) {
+         return this.byRoom.get(room) || [];
+      }
+
+      let rarest: Map<string, number> | undefined;
+      for (const token of positiveTokens) {
+         const posting = this.postings.get(token);
+         if (!posting) {
+            return [];
+         }
+         if (!rarest || posting.size < rarest.size) {
+            rarest = posting;
+         }
+      }
+      return rarest!.keys();
+   }
+
+   private matches(document: { message: IndexedMessage; tokens: string[] }, clause: SearchClause): boolean {
+      const { message, tokens } = document;
+
+      switch (clause.kind) {
+         case 'term':
+            return this.postings.get(clause.value)?.has(message.id) ?? false;
+         case 'phrase':
+            return tokens.some((_, start) => clause.tokens.every((token, offset) => tokens[start + offset] === token));
+         case 'from':
+            return message.username.toLowerCase() === clause.username.toLowerCase();
+         case 'before':
+            return message.sentAt < clause.timestamp;
+         case 'after':
+            return message.sentAt >= clause.timestamp;
+         case 'thread':
+            return this.isInThread(message.id, clause.messageId);
+         case 'has-edits':
+            return message.edited;
+      }
+   }
+
+   /**
+    * Check whether a message is the thread root or one of its replies at any depth
+    */
+   private isInThread(messageId: string, rootId: string): boolean {
+      const seen = new Set<string>();
+      let current: string | undefined = messageId;
+
+      while (current && !seen.has(current)) {
+         if (current === rootId) {
+            return true;
+         }
+         seen.add(current);
+         current = this.getParentId(current);
+      }
+      return false;
+   }
+
+   /**
+    * tf-idf relevance of a message to the query's words
+    */
+   private score(messageId: string, positiveTokens: string[]): number {
+      let score = 0;
+
+      for (const token of new Set(positiveTokens)) {
+         const posting = this.postings.get(token);
+         const occurrences = posting?.get(messageId);
+         if (!posting || !occurrences) {
+            continue;
+         }
+         score += (1 + Math.log(occurrences)) * Math.log(1 + this.documents.size / posting.size);
+      }
+
+      return Math.round(score * 1000) / 1000;
+   }
+
+   private unindex(messageId: string): boolean {
+      const document = this.documents.get(messageId);
+      if (!document) {
+         return false;
+      }
+
+      for (const token of new Set(document.tokens)) {
+         const posting = this.postings.get(token)!;
+         posting.delete(messageId);
+         if (posting.size === 0) {
+            this.postings.delete(token);
+         }
+      }
+
+      const roomIds = this.byRoom.get(document.message.room)!;
+      roomIds.delete(messageId);
+      if (roomIds.size === 0) {
+         this.byRoom.delete(document.message.room);
+      }
+
+      this.documents.delete(messageId);
+      return true;
+   }
+}
+
+/**
+ * Cut the text around the first query word, e.g. "…before the release notes go out…"
+ * @param text - Message text
+ * @param tokens - Query words; with none, the start of the text is used
+ */
+function makeSnippet(text: string, tokens: string[]): string {
+   const lower = text.toLowerCase();
+   const positions = tokens.map(token => lower.indexOf(token)).filter(position => position !== -1);
+   const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+   const start = Math.max(0, first - SNIPPET_BEFORE);
+   const end = Math.min(text.length, first + SNIPPET_AFTER);
+   const prefix = start > 0 ? '…' : '';
+   const suffix = end < text.length ? '…' : '';
+   return `${prefix}${text.slice(start, end).trim()}${suffix}`;
+}
@@ -0,0 +1,162 @@
+/**
+ * Typing Tracker ADT
+ * Per-room record of who is typing
+ * - Each typingStart refreshes an expiry, so a client that stops sending
+ *   updates (closed tab, lost connection) drops out automatically
+ * - Methods report whether the set of typers changed, so callers only
+ *   broadcast when the summary would differ
+ */
+
+/**
+ * How long a typingStart stays valid without a refresh
+ */
+export const TYPING_TTL_MS = 5 * 1000;
+
+/**
+ * Build the summary shown to other users, e.g. "alice and bob are typing"
+ * @param usernames - Users currently typing, in the order they started
+ * @returns Summary, or an empty string if nobody is typing
+ */
+export function formatTypingSummary(usernames: string[]): string {
+   switch (usernames.length) {
+      case 0:
+         return '';
+      case 1:
+         return `${usernames[0]} is typing`;
+      case 2:
+         return `${usernames[0]} and ${usernames[1]} are typing`;
+      case 3:
+         return `${usernames[0]}, ${usernames[1]} and ${usernames[2]} are typing`;
+      default:
+         return 'Several people are typing';
+   }
+}
+
+/**
+ * TypingTracker Class
+ *
+ * Abstraction Function:
+ * AF(typing) = For each room, the users typing there, where a user stops
+ *   counting as typing at expiresAt unless refreshed
+ *
+ * Representation Invariant:
+ * - No room maps to an empty set of typers
+ * - Each typer is keyed by its lowercase username
+ */
+export class TypingTracker {
+   private typing: Map<string, Map<string, { username: string; expiresAt: number }>>;
+   private ttlMs: number;
+
+   /**
+    * Constructor
+    * @param ttlMs - Expiry for each typingStart (default: TYPING_TTL_MS)
+    */
+   constructor(ttlMs: number = TYPING_TTL_MS) {
+      if (ttlMs <= 0) {
+         throw new Error('Precondition violated: ttl must be positive');
+      }
+      this.typing = new Map();
+      this.ttlMs = ttlMs;
+      this.checkRep();
+   }
+
+   /**
+    * Check representation invariant
+    */
+   private checkRep(): void {
+      for (const typers of this.typing.values()) {
+         if (typers.size === 0) {
+            throw new Error('Invariant violation: empty typing set');
+         }
+         for (const [key, typer] of typers) {
+            if (key !== typer.username.toLowerCase()) {
+               throw new Error('Invariant violation: typer key does not match username');
+            }
+         }
+      }
+   }
+
+   /**
+    * Record that a user is typing, or refresh their expiry
+    * @returns true if the user was not already typing (the summary changed)
+    */
+   public start(room: string, username: string, now: number = Date.now()): boolean {
+      if (!room || !username) {
+         throw new Error('Precondition violated: room and username must be non-empty');
+      }
+
+      if (!this.typing.has(room)) {
+         this.typing.set(room, new Map());
+      }
+      const typers = this.typing.get(room)!;
+      const key = username.toLowerCase();
+      const existing = typers.get(key);
+      const isNew = existing === undefined || existing.expiresAt <= now;
+
+      typers.set(key, { username, expiresAt: now + this.ttlMs });
+      this.checkRep();
+      return isNew;
+   }
+
+   /**
+    * Record that a user stopped typing
+    * @returns true if the user was typing (the summary changed)
+    */
+   public stop(room: string, username: string): boolean {
+      const typers = this.typing.get(room);
+      if (!typers || !typers.delete(username.toLowerCase())) {
+         return false;
+      }
+
+      if (typers.size === 0) {
+         this.typing.delete(room);
+      }
+      this.checkRep();
+      return true;
+   }
+
+   /**
+    * Remove typers whose expiry has passed
+    * @returns Rooms whose summary changed
+    */
+   public expire(now: number = Date.now()): string[] {
+      const changed: string[] = [];
+
+      for (const [room, typers] of this.typing) {
+         for (const [key, typer] of typers) {
+            if (typer.expiresAt <= now) {
+               typers.delete(key);
+               if (!changed.includes(room)) {
+                  changed.push(room);
+               }
+            }
+         }
+         if (typers.size === 0) {
+            this.typing.delete(room);
+         }
+      }
+
+      this.checkRep();
+      return changed;
+   }
+
+   /**
+    * Get the users typing in a room, in the order they started
+    */
+   public getTypingUsers(room: string, now: number = Date.now()): string[] {
+      return Array.from(this.typing.get(room)?.values() || [])
+         .filter(typer => typer.expiresAt > now)
+         .map(typer => typer.username);
+   }
+
+   /**
+    * Clear all typing state (for testing)
+    */
+   public clear(): void {
+      this.typing.clear();
+      this.checkRep();
+   }
+}
+
+// Export singleton instance
+export const typingTracker = new TypingTracker();
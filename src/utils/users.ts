@@ -1,4 +1,6 @@
-import { User, UserJoinResult } from "../types/index";
+import { User, UserRole } from "../types/index";
+import { ConflictError, ForbiddenError, NotFoundError } from "./errors";
+import { SanctionRepository, sanctionRepository } from "./sanctions";
 
 /**
  * User Repository ADT (Abstract Data Type)
@@ -8,29 +10,39 @@ import { User, UserJoinResult } from "../types/index";
  * AF(users) = A collection of active chat users where:
  *   - Each user has a unique socket ID
  *   - Usernames are unique (case-insensitive)
- *   - Each user is assigned to a room
+ *   - Each user is a member of one or more rooms, one of which is active
  *   - Users can have roles: admin, moderator, or user
- *   - Users can be muted or banned
+ *   - Users can be muted or banned; persistent sanctions are applied on join
+ *     and whenever the active room changes
  * 
  * Representation Invariant:
  * - All socket IDs are unique
  * - All usernames are unique (case-insensitive)
- * - room is non-empty string
+ * - room is non-empty string and is one of rooms
+ * - rooms is non-empty with no duplicates
+ * - roomIndex maps each room to exactly the socket IDs of its members
  * - Muted/banned users remain in the collection
  */
 class UserRepository {
    private users: Map<string, User>; // socketId -> User
    private usernameIndex: Map<string, string>; // lowercase username -> socketId
+   private roomIndex: Map<string, Set<string>>; // room -> socketIds of its members
+   private sanctions?: SanctionRepository;
 
    /**
     * Constructor
+    * @param sanctions - Optional sanction store checked when users join
+    * 
     * Postconditions:
     * - users map is empty
     * - usernameIndex is empty
+    * - roomIndex is empty
     */
-   constructor() {
+   constructor(sanctions?: SanctionRepository) {
       this.users = new Map();
       this.usernameIndex = new Map();
+      this.roomIndex = new Map();
+      this.sanctions = sanctions;
       this.checkRep();
    }
 
@@ -57,12 +69,34 @@ class UserRepository {
          if (!user.room || user.room.length === 0) {
             throw new Error('Invariant violation: room must be non-empty');
          }
+
+         if (!user.rooms.includes(user.room) || new Set(user.rooms).size !== user.rooms.length) {
+            throw new Error('Invariant violation: rooms must be unique and include the active room');
+         }
+
+         for (const room of user.rooms) {
+            if (!this.roomIndex.get(room)?.has(id)) {
+               throw new Error('Invariant violation: room index missing member');
+            }
+         }
       }
 
       // Check username index consistency
       if (this.usernameIndex.size !== this.users.size) {
          throw new Error('Invariant violation: username index size mismatch');
       }
+
+      // Check room index consistency
+      for (const [room, members] of this.roomIndex) {
+         if (members.size === 0) {
+            throw new Error('Invariant violation: empty room in index');
+         }
+         for (const id of members) {
+            if (!this.users.get(id)?.rooms.includes(room)) {
+               throw new Error('Invariant violation: room index has stale member');
+            }
+         }
+      }
    }
 
    /**
@@ -73,7 +107,9 @@ class UserRepository {
     * @param username - Username of the user
     * @param room - Room name to join
     * @param role - Optional user role (default: 'user')
-    * @returns Object containing error or the created user
+    * @returns The created user
+    * @throws ConflictError on the username field if the username is taken
+    * @throws ForbiddenError if the user is banned from the room
     * 
     * Preconditions:
     * - id !== null && id.length > 0
@@ -82,16 +118,15 @@ class UserRepository {
     * - Socket ID is not already in use
     * 
     * Postconditions:
-    * - If successful: user is added to repository
-    * - If username taken: returns error message
+    * - User is added to repository, muted if a mute is in force
     * - checkRep() passes
     */
    public userJoin(
       id: string,
       username: string,
       room: string,
-      role: 'admin' | 'moderator' | 'user' = 'user'
-   ): UserJoinResult {
+      role: UserRole = 'user'
+   ): User {
       // Precondition checks
       if (!id || id.length === 0) {
          throw new Error('Precondition violated: id must be non-empty');
@@ -109,23 +144,111 @@ class UserRepository {
       // Check for duplicate username
       const lowerUsername = username.toLowerCase();
       if (this.usernameIndex.has(lowerUsername)) {
-         return { error: "Username is already taken" };
+         throw new ConflictError("Username is already taken", 'username');
+      }
+
+      if (this.sanctions?.isBanned(username, room)) {
+         throw new ForbiddenError("You are banned from this room");
       }
 
       const user: User = {
          id,
          username,
          room,
+         rooms: [room],
          role,
-         muted: false,
+         muted: this.sanctions?.isMuted(username, room) ?? false,
          banned: false
       };
 
       this.users.set(id, user);
       this.usernameIndex.set(lowerUsername, id);
+      this.addToRoomIndex(room, id);
+
+      this.checkRep();
+      return user;
+   }
+
+   /**
+    * Make a room the user's active room, joining it if they are not yet a member
+    * The user stays a member of their other rooms
+    *
+    * @param id - Socket ID of the user
+    * @param room - Room to switch to
+    * @returns The updated user
+    * @throws NotFoundError if the user is unknown
+    * @throws ForbiddenError if the user is banned from the room
+    *
+    * Preconditions:
+    * - room !== null && room.length > 0
+    *
+    * Postconditions:
+    * - room is the active room and one of rooms; muted reflects the mutes in force there
+    * - checkRep() passes
+    */
+   public switchRoom(id: string, room: string): User {
+      if (!room || room.length === 0) {
+         throw new Error('Precondition violated: room must be non-empty');
+      }
+
+      const user = this.users.get(id);
+      if (!user) {
+         throw new NotFoundError("User not found");
+      }
+
+      if (this.sanctions?.isBanned(user.username, room)) {
+         throw new ForbiddenError("You are banned from this room");
+      }
+
+      if (!user.rooms.includes(room)) {
+         user.rooms.push(room);
+         this.addToRoomIndex(room, id);
+      }
+      user.room = room;
+      user.muted = this.sanctions?.isMuted(user.username, room) ?? false;
 
       this.checkRep();
-      return { user };
+      return user;
+   }
+
+   /**
+    * Remove the user from one of their rooms
+    * If it was the active room, the most recently joined remaining room becomes active
+    *
+    * @param id - Socket ID of the user
+    * @param room - Room to leave
+    * @returns The updated user
+    * @throws NotFoundError if the user is unknown
+    * @throws ConflictError if the user is not in the room or it is their only room
+    *
+    * Postconditions:
+    * - room is no longer one of rooms
+    * - checkRep() passes
+    */
+   public leaveRoom(id: string, room: string): User {
+      const user = this.users.get(id);
+      if (!user) {
+         throw new NotFoundError("User not found");
+      }
+
+      if (!user.rooms.includes(room)) {
+         throw new ConflictError(`You are not in ${room}`);
+      }
+
+      if (user.rooms.length === 1) {
+         throw new ConflictError("You cannot leave your only room");
+      }
+
+      user.rooms = user.rooms.filter(joined => joined !== room);
+      this.removeFromRoomIndex(room, id);
+
+      if (user.room === room) {
+         user.room = user.rooms[user.rooms.length - 1];
+         user.muted = this.sanctions?.isMuted(user.username, user.room) ?? false;
+      }
+
+      this.checkRep();
+      return user;
    }
 
    /**
@@ -189,6 +312,21 @@ class UserRepository {
       return true;
    }
 
+   /**
+    * Change the role of a connected user
+    * @param username - Username to update
+    * @param role - New role
+    * @returns true if updated, false if user not found
+    */
+   public setUserRole(username: string, role: UserRole): boolean {
+      const user = this.getUserByUsername(username);
+      if (!user) {
+         return false;
+      }
+      user.role = role;
+      return true;
+   }
+
    /**
     * Removes user from chat when they disconnect
     * 
@@ -206,6 +344,9 @@ class UserRepository {
       if (user) {
          this.users.delete(id);
          this.usernameIndex.delete(user.username.toLowerCase());
+         for (const room of user.rooms) {
+            this.removeFromRoomIndex(room, id);
+         }
          this.checkRep();
          return user;
       }
@@ -214,18 +355,12 @@ class UserRepository {
    }
 
    /**
-    * Gets all users in a specific room
+    * Gets all members of a specific room, whether or not it is their active room
     * @param room - Room name
-    * @returns Array of users in the room
+    * @returns Array of users in the room, in the order they joined it
     */
    public getRoomUsers(room: string): User[] {
-      const roomUsers: User[] = [];
-      for (const user of this.users.values()) {
-         if (user.room === room) {
-            roomUsers.push(user);
-         }
-      }
-      return roomUsers;
+      return Array.from(this.roomIndex.get(room) || [], id => this.users.get(id)!);
    }
 
    /**
@@ -234,17 +369,36 @@ class UserRepository {
    public clear(): void {
       this.users.clear();
       this.usernameIndex.clear();
+      this.roomIndex.clear();
       this.checkRep();
    }
+
+   private addToRoomIndex(room: string, id: string): void {
+      if (!this.roomIndex.has(room)) {
+         this.roomIndex.set(room, new Set());
+      }
+      this.roomIndex.get(room)!.add(id);
+   }
+
+   private removeFromRoomIndex(room: string, id: string): void {
+      const members = this.roomIndex.get(room);
+      if (!members) {
+         return;
+      }
+      members.delete(id);
+      if (members.size === 0) {
+         this.roomIndex.delete(room);
+      }
+   }
 }
 
-// Export singleton instance and class
-export const userRepository = new UserRepository();
+// Export singleton instance (backed by the persistent sanction store) and class
+export const userRepository = new UserRepository(sanctionRepository);
 export { UserRepository };
 
 // Export legacy function wrappers for backward compatibility
-export function userJoin(id: string, username: string, room: string): UserJoinResult {
-   return userRepository.userJoin(id, username, room);
+export function userJoin(id: string, username: string, room: string, role?: UserRole): User {
+   return userRepository.userJoin(id, username, room, role);
 }
 
 export function getCurrentUser(id: string): User | undefined {
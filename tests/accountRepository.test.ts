@@ -0,0 +1,172 @@
+/**
+ * Unit Tests for Account Repository ADT
+ * Tests registration, password authentication, sessions and role persistence
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AccountRepository, hashPassword, verifyPassword } from '../src/utils/accounts';
+import { ValidationError } from '../src/utils/errors';
+
+describe('AccountRepository', () => {
+   let repository: AccountRepository;
+
+   beforeEach(() => {
+      repository = new AccountRepository();
+   });
+
+   afterEach(() => {
+      repository.clear();
+   });
+
+   describe('hashPassword() / verifyPassword()', () => {
+      test('should verify the correct password', () => {
+         const hash = hashPassword('correct horse');
+
+         expect(verifyPassword('correct horse', hash)).toBe(true);
+         expect(verifyPassword('wrong horse', hash)).toBe(false);
+      });
+
+      test('should salt each hash', () => {
+         expect(hashPassword('same password')).not.toBe(hashPassword('same password'));
+      });
+
+      test('should never store the plain password', () => {
+         const { account } = repository.register('alice', 'secret-password');
+
+         expect(account!.passwordHash).not.toContain('secret-password');
+      });
+   });
+
+   describe('register()', () => {
+      test('should make the first account an admin', () => {
+         const first = repository.register('alice', 'password1');
+         const second = repository.register('bob', 'password2');
+
+         expect(first.account!.role).toBe('admin');
+         expect(second.account!.role).toBe('user');
+      });
+
+      test('should issue a session token', () => {
+         const { token } = repository.register('alice', 'password1');
+
+         expect(repository.verifySession(token)!.username).toBe('alice');
+      });
+
+      test('should reject duplicate usernames (case-insensitive)', () => {
+         repository.register('Alice', 'password1');
+         const result = repository.register('alice', 'password2');
+
+         expect(result.error).toBe('Username is already registered');
+      });
+
+      test('should reject invalid usernames', () => {
+         expect(repository.register('a', 'password1').error).toBeDefined();
+         expect(repository.register('has space', 'password1').error).toBeDefined();
+      });
+
+      test('should reject short passwords', () => {
+         expect(repository.register('alice', 'short').error).toBe('Password must be at least 8 characters');
+      });
+
+      test('should throw for credentials that are not strings', () => {
+         expect(() => repository.register('alice', 12345678)).toThrow(ValidationError);
+         expect(() => repository.login({ name: 'alice' }, 'password1')).toThrow('Username must be a string');
+      });
+   });
+
+   describe('login()', () => {
+      beforeEach(() => {
+         repository.register('alice', 'password1');
+      });
+
+      test('should log in with correct credentials', () => {
+         const { token, account } = repository.login('ALICE', 'password1');
+
+         expect(account!.username).toBe('alice');
+         expect(repository.verifySession(token)).toBe(account);
+      });
+
+      test('should give the same error for wrong password and unknown user', () => {
+         const wrongPassword = repository.login('alice', 'wrong-password');
+         const unknownUser = repository.login('nobody', 'password1');
+
+         expect(wrongPassword.error).toBe('Invalid username or password');
+         expect(unknownUser.error).toBe(wrongPassword.error);
+      });
+   });
+
+   describe('sessions', () => {
+      test('should reject unknown or missing tokens', () => {
+         expect(repository.verifySession('not-a-token')).toBeUndefined();
+         expect(repository.verifySession(undefined)).toBeUndefined();
+      });
+
+      test('should invalidate a token on logout', () => {
+         const { token } = repository.register('alice', 'password1');
+
+         expect(repository.logout(token!)).toBe(true);
+         expect(repository.verifySession(token)).toBeUndefined();
+      });
+
+      test('should expire sessions after 24 hours', () => {
+         const { token } = repository.register('alice', 'password1');
+         const now = Date.now();
+         const spy = jest.spyOn(Date, 'now').mockReturnValue(now + 24 * 60 * 60 * 1000 + 1);
+
+         expect(repository.verifySession(token)).toBeUndefined();
+         spy.mockRestore();
+      });
+   });
+
+   describe('setRole()', () => {
+      test('should change the role of an account', () => {
+         repository.register('alice', 'password1');
+         repository.register('bob', 'password2');
+
+         const updated = repository.setRole('bob', 'moderator');
+
+         expect(updated!.role).toBe('moderator');
+         expect(repository.getAccount('BOB')!.role).toBe('moderator');
+      });
+
+      test('should return undefined for unknown accounts', () => {
+         expect(repository.setRole('nobody', 'admin')).toBeUndefined();
+      });
+   });
+
+   describe('persistence', () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'accounts-'));
+      });
+
+      afterEach(() => {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      test('should persist accounts and roles across restarts', () => {
+         const filePath = path.join(tempDir, 'accounts.json');
+         const original = new AccountRepository(filePath);
+         original.register('alice', 'password1');
+         original.register('bob', 'password2');
+         original.setRole('bob', 'moderator');
+
+         const restarted = new AccountRepository(filePath);
+
+         expect(restarted.login('alice', 'password1').account!.role).toBe('admin');
+         expect(restarted.getAccount('bob')!.role).toBe('moderator');
+      });
+
+      test('should not persist sessions', () => {
+         const filePath = path.join(tempDir, 'accounts.json');
+         const { token } = new AccountRepository(filePath).register('alice', 'password1');
+
+         const restarted = new AccountRepository(filePath);
+
+         expect(restarted.verifySession(token)).toBeUndefined();
+      });
+   });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit Tests for Activity Tracker ADT
+ * Tests sliding-window message counts, duplicates and warnings
+ */
+
+import {
+   ACTIVITY_WINDOW_MS,
+   ActivityTracker,
+   MAX_TRACKED_MESSAGES,
+   WARNING_WINDOW_MS,
+   normalizeForDuplicates
+} from '../src/utils/activityTracker';
+
+describe('ActivityTracker', () => {
+   let tracker: ActivityTracker;
+   const start = 1700000000000;
+
+   beforeEach(() => {
+      tracker = new ActivityTracker();
+   });
+
+   describe('countMessages()', () => {
+      test('should count only messages inside the window', () => {
+         tracker.recordMessage('alice', 'one', start);
+         tracker.recordMessage('alice', 'two', start + 5000);
+         tracker.recordMessage('alice', 'three', start + 9000);
+
+         expect(tracker.countMessages('alice', 10000, start + 9000)).toBe(3);
+         expect(tracker.countMessages('alice', 5000, start + 9000)).toBe(2);
+         expect(tracker.countMessages('alice', 10000, start + 12000)).toBe(2);
+      });
+
+      test('should track users case-insensitively and separately', () => {
+         tracker.recordMessage('Alice', 'hi', start);
+         tracker.recordMessage('bob', 'hi', start);
+
+         expect(tracker.countMessages('ALICE', 1000, start)).toBe(1);
+         expect(tracker.countMessages('carol', 1000, start)).toBe(0);
+      });
+
+      test('should reject windows longer than the tracker keeps', () => {
+         expect(() => tracker.countMessages('alice', ACTIVITY_WINDOW_MS + 1)).toThrow('Precondition violated');
+         expect(() => tracker.countMessages('alice', 0)).toThrow('Precondition violated');
+      });
+
+      test('should keep at most MAX_TRACKED_MESSAGES per user', () => {
+         for (let i = 0; i < MAX_TRACKED_MESSAGES + 10; i++) {
+            tracker.recordMessage('alice', `message ${i}`, start);
+         }
+
+         expect(tracker.countMessages('alice', ACTIVITY_WINDOW_MS, start)).toBe(MAX_TRACKED_MESSAGES);
+      });
+   });
+
+   describe('countDuplicates()', () => {
+      test('should count repeats that differ only in case and spacing', () => {
+         tracker.recordMessage('alice', 'Buy  NOW', start);
+         tracker.recordMessage('alice', 'something else', start + 1000);
+         tracker.recordMessage('alice', ' buy now ', start + 2000);
+
+         expect(tracker.countDuplicates('alice', 'buy now', start + 2000)).toBe(2);
+         expect(tracker.countDuplicates('alice', 'buy now', start + ACTIVITY_WINDOW_MS + 1500)).toBe(1);
+         expect(normalizeForDuplicates('  A\tB  ')).toBe('a b');
+      });
+   });
+
+   describe('countWarnings()', () => {
+      test('should count warnings in the last day', () => {
+         tracker.recordWarning('alice', start);
+         tracker.recordWarning('alice', start + 1000);
+
+         expect(tracker.countWarnings('alice', start + 1000)).toBe(2);
+         expect(tracker.countWarnings('alice', start + WARNING_WINDOW_MS + 500)).toBe(1);
+      });
+   });
+
+   describe('expire()', () => {
+      test('should forget activity past its window', () => {
+         tracker.recordMessage('alice', 'hi', start);
+         tracker.recordWarning('bob', start);
+
+         tracker.expire(start + ACTIVITY_WINDOW_MS);
+         expect(tracker.countMessages('alice', ACTIVITY_WINDOW_MS, start)).toBe(0);
+         expect(tracker.countWarnings('bob', start)).toBe(1);
+
+         tracker.expire(start + WARNING_WINDOW_MS);
+         expect(tracker.countWarnings('bob', start)).toBe(0);
+      });
+   });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the REST API
+ * Tests token auth, access control, pagination, threads, search and error bodies
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createApiRouter } from '../src/routes/api';
+import { AccountRepository } from '../src/utils/accounts';
+import { MessageRepository, getDirectMessageRoom } from '../src/utils/messageRepository';
+import { RoomRegistry } from '../src/utils/rooms';
+import { UserRepository } from '../src/utils/users';
+import { PermissionMatrix } from '../src/utils/permissions';
+
+describe('REST API', () => {
+   let app: express.Express;
+   let messages: MessageRepository;
+   let rooms: RoomRegistry;
+   let adminToken: string;
+   let aliceToken: string;
+   let bobToken: string;
+
+   beforeEach(() => {
+      const accounts = new AccountRepository();
+      adminToken = accounts.register('admin', 'password1').token!; // First account is an admin
+      aliceToken = accounts.register('alice', 'password1').token!;
+      bobToken = accounts.register('bob', 'password1').token!;
+
+      messages = new MessageRepository();
+      rooms = new RoomRegistry(undefined, [{ name: 'lobby', displayName: 'Lobby' }]);
+
+      app = express();
+      app.use('/api', createApiRouter({
+         accounts,
+         messages,
+         rooms,
+         users: new UserRepository(),
+         matrix: new PermissionMatrix()
+      }));
+   });
+
+   const get = (path: string, token: string) =>
+      request(app).get(path).set('Authorization', `Bearer ${token}`);
+
+   describe('authentication', () => {
+      test('should reject requests without a valid token', async () => {
+         const missing = await request(app).get('/api/rooms/lobby/messages');
+         const invalid = await get('/api/rooms/lobby/messages', 'not-a-token');
+
+         expect(missing.status).toBe(401);
+         expect(missing.body).toEqual({ error: 'A valid session token is required' });
+         expect(invalid.status).toBe(401);
+      });
+   });
+
+   describe('GET /api/rooms/:room/messages', () => {
+      test('should return the latest page, oldest first', async () => {
+         for (let i = 1; i <= 3; i++) {
+            await messages.addMessage('alice', `message ${i}`, 'lobby');
+         }
+
+         const response = await get('/api/rooms/lobby/messages?limit=2', bobToken);
+
+         expect(response.status).toBe(200);
+         expect(response.body.messages.map((m: any) => m.text)).toEqual(['message 2', 'message 3']);
+         expect(response.body.hasMore).toBe(true);
+      });
+
+      test('should page backwards from a message ID', async () => {
+         const first = await messages.addMessage('alice', 'first', 'lobby');
+         const second = await messages.addMessage('alice', 'second', 'lobby');
+
+         const response = await get(`/api/rooms/lobby/messages?before=${second.id}`, bobToken);
+
+         expect(response.body.messages.map((m: any) => m.id)).toEqual([first.id]);
+         expect(response.body.hasMore).toBe(false);
+      });
+
+      test('should reject bad pagination parameters', async () => {
+         const badLimit = await get('/api/rooms/lobby/messages?limit=0', bobToken);
+         const badCursor = await get('/api/rooms/lobby/messages?before=nope', bobToken);
+
+         expect(badLimit.status).toBe(400);
+         expect(badLimit.body.error).toContain('limit');
+         expect(badCursor.status).toBe(400);
+      });
+
+      test('should hide rooms the user cannot join', async () => {
+         rooms.createRoom('club', 'alice', { visibility: 'invite-only' });
+
+         const outsider = await get('/api/rooms/club/messages', bobToken);
+         const creator = await get('/api/rooms/club/messages', aliceToken);
+         const admin = await get('/api/rooms/club/messages', adminToken);
+         const missing = await get('/api/rooms/nowhere/messages', bobToken);
+
+         expect(outsider.status).toBe(404);
+         expect(outsider.body).toEqual({ error: 'Room club not found' });
+         expect(creator.status).toBe(200);
+         expect(admin.status).toBe(200);
+         expect(missing.status).toBe(404);
+      });
+   });
+
+   describe('GET /api/messages/:id and /thread', () => {
+      test('should return a message', async () => {
+         const message = await messages.addMessage('alice', 'hello', 'lobby');
+
+         const response = await get(`/api/messages/${message.id}`, bobToken);
+
+         expect(response.status).toBe(200);
+         expect(response.body).toMatchObject({ id: message.id, text: 'hello', room: 'lobby' });
+      });
+
+      test('should return the thread with nested replies and its depth', async () => {
+         const root = await messages.addMessage('alice', 'root', 'lobby');
+         const reply = await messages.addMessage('bob', 'reply', 'lobby', root.id);
+         await messages.addMessage('alice', 'nested', 'lobby', reply.id);
+
+         const response = await get(`/api/messages/${root.id}/thread`, bobToken);
+
+         expect(response.status).toBe(200);
+         expect(response.body.depth).toBe(2);
+         expect(response.body.thread.replies[0].text).toBe('reply');
+         expect(response.body.thread.replies[0].replies[0].text).toBe('nested');
+      });
+
+      test('should only show direct messages to their participants', async () => {
+         const dm = await messages.addMessage('alice', 'secret', getDirectMessageRoom('alice', 'admin'));
+
+         expect((await get(`/api/messages/${dm.id}`, aliceToken)).status).toBe(200);
+         expect((await get(`/api/messages/${dm.id}`, bobToken)).status).toBe(404);
+      });
+
+      test('should return 404 for unknown messages', async () => {
+         const response = await get('/api/messages/nope/thread', bobToken);
+
+         expect(response.status).toBe(404);
+         expect(response.body).toEqual({ error: 'Message nope not found' });
+      });
+   });
+
+   describe('GET /api/rooms/:room/search', () => {
+      test('should return paginated matches', async () => {
+         await messages.addMessage('alice', 'deploy at noon', 'lobby');
+         await messages.addMessage('bob', 'lunch?', 'lobby');
+         await messages.addMessage('alice', 'Deploy done', 'lobby');
+
+         const response = await get('/api/rooms/lobby/search?q=deploy&limit=1', bobToken);
+         const next = await get('/api/rooms/lobby/search?q=deploy&limit=1&offset=1', bobToken);
+
+         // Equally relevant matches are ordered newest first, and both may share a timestamp
+         const pages = [...response.body.results, ...next.body.results].map((m: any) => m.text);
+         expect(response.status).toBe(200);
+         expect(response.body).toMatchObject({ room: 'lobby', query: 'deploy', total: 2, hasMore: true });
+         expect(response.body.results).toHaveLength(1);
+         expect(next.body).toMatchObject({ total: 2, hasMore: false });
+         expect(pages.sort()).toEqual(['Deploy done', 'deploy at noon']);
+      });
+
+      test('should count a matching reply once', async () => {
+         const parent = await messages.addMessage('alice', 'deploy at noon', 'lobby');
+         const reply = await messages.addMessage('bob', 'deploy moved to one', 'lobby', parent.id);
+         await messages.addMessage('carol', 'lunch?', 'lobby');
+
+         const response = await get('/api/rooms/lobby/search?q=deploy', bobToken);
+
+         expect(response.body.total).toBe(2);
+         expect(response.body.hasMore).toBe(false);
+         expect(response.body.results.map((m: any) => m.id).sort()).toEqual([parent.id, reply.id].sort());
+      });
+
+      test('should use the /search query language', async () => {
+         await messages.addMessage('alice', 'deploy at noon', 'lobby');
+         await messages.addMessage('bob', 'deploy later', 'lobby');
+
+         const filtered = await get('/api/rooms/lobby/search?q=deploy%20from:bob', bobToken);
+         const invalid = await get('/api/rooms/lobby/search?q=before:someday', bobToken);
+
+         expect(filtered.body.results.map((m: any) => m.text)).toEqual(['deploy later']);
+         expect(invalid.status).toBe(400);
+         expect(invalid.body.error).toContain('Invalid search');
+      });
+
+      test('should require a query', async () => {
+         const response = await get('/api/rooms/lobby/search', bobToken);
+
+         expect(response.status).toBe(400);
+         expect(response.body.error).toContain('q must be');
+      });
+   });
+});
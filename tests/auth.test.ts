@@ -0,0 +1,84 @@
+/**
+ * Tests for the account routes
+ * Tests registration, login and logout, and malformed credentials
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { createAuthRouter } from '../src/routes/auth';
+import { AccountRepository } from '../src/utils/accounts';
+
+describe('Account routes', () => {
+   let app: express.Express;
+   let accounts: AccountRepository;
+
+   beforeEach(() => {
+      accounts = new AccountRepository();
+
+      app = express();
+      app.use(express.json());
+      app.use('/api', createAuthRouter({ accounts }));
+   });
+
+   describe('POST /api/register', () => {
+      test('should create an account and return a session token', async () => {
+         const response = await request(app).post('/api/register').send({ username: 'alice', password: 'password1' });
+
+         expect(response.status).toBe(201);
+         expect(response.body).toMatchObject({ username: 'alice', role: 'admin' });
+         expect(accounts.verifySession(response.body.token)!.username).toBe('alice');
+      });
+
+      test('should reject invalid credentials', async () => {
+         const response = await request(app).post('/api/register').send({ username: 'alice', password: 'short' });
+
+         expect(response.status).toBe(400);
+         expect(response.body).toEqual({ error: 'Password must be at least 8 characters' });
+      });
+
+      test('should reject credentials that are not strings', async () => {
+         const numeric = await request(app).post('/api/register').send({ username: 'alice', password: 12345678 });
+         const object = await request(app).post('/api/register').send({ username: { name: 'alice' }, password: 'password1' });
+
+         expect(numeric.status).toBe(400);
+         expect(numeric.body).toEqual({ error: 'Password must be a string', field: 'password' });
+         expect(object.status).toBe(400);
+         expect(object.body.field).toBe('username');
+         expect(accounts.getAccount('alice')).toBeUndefined();
+      });
+   });
+
+   describe('POST /api/login', () => {
+      beforeEach(() => {
+         accounts.register('alice', 'password1');
+      });
+
+      test('should log in with the right password only', async () => {
+         const success = await request(app).post('/api/login').send({ username: 'ALICE', password: 'password1' });
+         const failure = await request(app).post('/api/login').send({ username: 'alice', password: 'wrong-password' });
+
+         expect(success.status).toBe(200);
+         expect(success.body.username).toBe('alice');
+         expect(failure.status).toBe(401);
+         expect(failure.body).toEqual({ error: 'Invalid username or password' });
+      });
+
+      test('should reject credentials that are not strings', async () => {
+         const response = await request(app).post('/api/login').send({ username: 'alice', password: ['password1'] });
+
+         expect(response.status).toBe(400);
+         expect(response.body).toEqual({ error: 'Password must be a string', field: 'password' });
+      });
+   });
+
+   describe('POST /api/logout', () => {
+      test('should end the session', async () => {
+         const { token } = accounts.register('alice', 'password1');
+
+         const response = await request(app).post('/api/logout').set('Authorization', `Bearer ${token}`);
+
+         expect(response.status).toBe(204);
+         expect(accounts.verifySession(token)).toBeUndefined();
+      });
+   });
+});
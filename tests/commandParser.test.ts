@@ -64,6 +64,25 @@ describe('CommandParser', () => {
          expect(result.args).toEqual(['789', 'this', 'is', 'a', 'reply']);
       });
 
+      // Partition: Sanction commands
+      test('should parse tempmute command with duration', () => {
+         const result = parser.parse('/tempmute troll 10m flooding the chat');
+
+         expect(result.type).toBe('tempmute');
+         expect(result.args).toEqual(['troll', '10m', 'flooding', 'the', 'chat']);
+      });
+
+      test('should parse unban and unmute commands', () => {
+         expect(parser.parse('/unban spammer').type).toBe('unban');
+         expect(parser.parse('/unmute troll').type).toBe('unmute');
+      });
+
+      // Partition: Aliases resolve to the registered command name
+      test('should resolve command aliases', () => {
+         expect(parser.parse('/del 456').type).toBe('delete');
+         expect(parser.parse('/RE 789 agreed').type).toBe('reply');
+      });
+
       // Partition: Invalid/unknown commands
       test('should handle unknown command', () => {
          const result = parser.parse('/unknown test');
@@ -142,6 +161,28 @@ describe('CommandParser', () => {
          expect(parser.validate(command)).toBe(false);
       });
 
+      test('should validate mute and ban commands with a reason', () => {
+         expect(parser.validate(parser.parse('/mute user123 spamming links'))).toBe(true);
+         expect(parser.validate(parser.parse('/ban user123 repeated abuse'))).toBe(true);
+      });
+
+      test('should validate tempmute only with a valid duration', () => {
+         expect(parser.validate(parser.parse('/tempmute user123 30s'))).toBe(true);
+         expect(parser.validate(parser.parse('/tempmute user123 soon'))).toBe(false);
+         expect(parser.validate(parser.parse('/tempmute user123'))).toBe(false);
+      });
+
+      test('should validate promote only with a known role', () => {
+         expect(parser.validate(parser.parse('/promote alice moderator'))).toBe(true);
+         expect(parser.validate(parser.parse('/promote alice Admin'))).toBe(true);
+         expect(parser.validate(parser.parse('/promote alice owner'))).toBe(false);
+         expect(parser.validate(parser.parse('/demote alice'))).toBe(true);
+      });
+
+      test('should invalidate unban with extra args', () => {
+         expect(parser.validate(parser.parse('/unban user123 extra'))).toBe(false);
+      });
+
       test('should invalidate unknown command', () => {
          const command = parser.parse('/unknown test');
          expect(parser.validate(command)).toBe(false);
@@ -172,6 +213,11 @@ describe('CommandParser', () => {
          expect(result.args).toContain('456');
       });
 
+      test('should keep arguments that start with digits whole', () => {
+         const result = parser.parse('/delete 1700000000000-abc123xyz');
+         expect(result.args).toEqual(['1700000000000-abc123xyz']);
+      });
+
       test('should preserve argument order', () => {
          const result = parser.parse('/edit 123 first second third');
          expect(result.args[0]).toBe('123');
@@ -0,0 +1,187 @@
+/**
+ * Unit Tests for Command Registry
+ * Tests registration, argument binding, usage and help text, permissions and dispatch
+ */
+
+import { CommandRegistry, createCommandRegistry } from '../src/utils/commandRegistry';
+import { PermissionMatrix } from '../src/utils/permissions';
+import CommandParser from '../src/utils/commandParser';
+
+describe('CommandRegistry', () => {
+   let registry: CommandRegistry<string[]>;
+
+   beforeEach(() => {
+      registry = new CommandRegistry<string[]>(new PermissionMatrix());
+      registry.register({
+         name: 'roll',
+         aliases: ['dice'],
+         description: 'Roll a die',
+         args: [{ name: 'sides', type: 'number' }, { name: 'label', type: 'text', optional: true }]
+      });
+   });
+
+   describe('register()', () => {
+      test('should resolve names and aliases case-insensitively', () => {
+         expect(registry.get('ROLL')!.name).toBe('roll');
+         expect(registry.get('dice')!.name).toBe('roll');
+         expect(registry.get('flip')).toBeUndefined();
+      });
+
+      test('should enforce precondition: unique names and aliases', () => {
+         expect(() => registry.register({ name: 'dice', description: '', args: [] }))
+            .toThrow('Precondition violated: command dice is already registered');
+      });
+
+      test('should enforce precondition: text argument last', () => {
+         expect(() => registry.register({
+            name: 'bad',
+            description: '',
+            args: [{ name: 'text', type: 'text' }, { name: 'id', type: 'word' }]
+         })).toThrow('Precondition violated: text argument must be last');
+      });
+
+      test('should enforce precondition: no required argument after optional', () => {
+         expect(() => registry.register({
+            name: 'bad',
+            description: '',
+            args: [{ name: 'a', type: 'word', optional: true }, { name: 'b', type: 'word' }]
+         })).toThrow('Precondition violated: required argument after optional argument');
+      });
+   });
+
+   describe('bindArgs()', () => {
+      test('should bind arguments by name and join rest text', () => {
+         expect(registry.bindArgs('roll', ['6', 'for', 'initiative'])).toEqual({
+            args: { sides: '6', label: 'for initiative' }
+         });
+      });
+
+      test('should leave optional arguments absent', () => {
+         expect(registry.bindArgs('dice', ['20']).args).toEqual({ sides: '20' });
+      });
+
+      test('should report missing and mistyped arguments', () => {
+         expect(registry.bindArgs('roll', []).error).toBe('missing sides');
+         expect(registry.bindArgs('roll', ['six']).error).toBe('sides must be a number');
+      });
+
+      test('should reject extra arguments when there is no text argument', () => {
+         const builtins = createCommandRegistry(new PermissionMatrix());
+         expect(builtins.bindArgs('delete', ['123', 'extra']).error).toBe('too many arguments');
+      });
+
+      test('should check emoji arguments', () => {
+         const builtins = createCommandRegistry(new PermissionMatrix());
+         expect(builtins.bindArgs('react', ['123', '👍']).args).toEqual({ messageId: '123', emoji: '👍' });
+         expect(builtins.bindArgs('react', ['123', 'thumbsup']).error).toBe('"thumbsup" is not an emoji');
+      });
+
+      test('should check durations and lowercase roles', () => {
+         const builtins = createCommandRegistry(new PermissionMatrix());
+         expect(builtins.bindArgs('tempmute', ['troll', 'soon']).error).toContain('not a valid duration');
+         expect(builtins.bindArgs('promote', ['alice', 'Moderator']).args!.role).toBe('moderator');
+      });
+   });
+
+   describe('usage()', () => {
+      test('should mark optional arguments with brackets', () => {
+         expect(registry.usage('dice')).toBe('/roll <sides> [label]');
+      });
+   });
+
+   describe('listAllowed()', () => {
+      test('should list only the commands a role can run', () => {
+         const builtins = createCommandRegistry(new PermissionMatrix());
+         const userCommands = builtins.listAllowed('user').map(definition => definition.name);
+         const moderatorCommands = builtins.listAllowed('moderator').map(definition => definition.name);
+
+         expect(userCommands).toEqual(['help', 'edit', 'delete', 'undo', 'reply', 'react', 'search', 'history', 'msg', 'join', 'leave', 'create', 'topic', 'roomsettings', 'report']);
+         expect(moderatorCommands).toContain('tempmute');
+         expect(moderatorCommands).toContain('restore');
+         expect(moderatorCommands).toContain('resolve');
+         expect(moderatorCommands).not.toContain('ban');
+      });
+   });
+
+   describe('describe()', () => {
+      test('should include usage, aliases, arguments and examples', () => {
+         const lines = registry.describe('dice');
+
+         expect(lines[0]).toBe('/roll <sides> [label]');
+         expect(lines).toContain('Aliases: /dice');
+         expect(lines).toContain('  [label] - text (optional)');
+      });
+
+      test('should show the roles allowed in the room', () => {
+         const matrix = new PermissionMatrix();
+         const builtins = createCommandRegistry(matrix);
+         matrix.setRoomOverride('room1', 'ban', ['admin', 'moderator']);
+
+         expect(builtins.describe('ban')).toContain('Allowed roles: admin');
+         expect(builtins.describe('ban', 'room1')).toContain('Allowed roles: admin, moderator');
+         expect(builtins.describe('tempmute')).toContain('  /tempmute troll 10m calm down');
+      });
+
+      test('should enforce precondition: registered command', () => {
+         expect(() => registry.describe('flip')).toThrow('Precondition violated');
+      });
+   });
+
+   describe('canRun()', () => {
+      let builtins: CommandRegistry;
+      let matrix: PermissionMatrix;
+
+      beforeEach(() => {
+         matrix = new PermissionMatrix();
+         builtins = createCommandRegistry(matrix);
+      });
+
+      test('should allow commands without a permission for every role', () => {
+         expect(builtins.canRun('edit', 'user')).toBe(true);
+         expect(builtins.canRun('reply', undefined)).toBe(true);
+      });
+
+      test('should check the declared permission against the matrix', () => {
+         expect(builtins.canRun('tempmute', 'user')).toBe(false);
+         expect(builtins.canRun('tempmute', 'moderator')).toBe(true);
+         expect(builtins.canRun('unban', 'moderator')).toBe(false);
+         expect(builtins.canRun('promote', 'admin')).toBe(true);
+      });
+
+      test('should apply room overrides', () => {
+         matrix.setRoomOverride('room1', 'ban', ['admin', 'moderator']);
+
+         expect(builtins.canRun('ban', 'moderator', 'room1')).toBe(true);
+         expect(builtins.canRun('ban', 'moderator', 'room2')).toBe(false);
+      });
+   });
+
+   describe('dispatch()', () => {
+      test('should call the bound handler with context and arguments', async () => {
+         const calls: string[] = [];
+         registry.bindHandler('roll', (context, args) => {
+            context.push(`${args.sides}:${args.label}`);
+         });
+
+         await registry.dispatch('dice', calls, { sides: '6', label: 'test' });
+
+         expect(calls).toEqual(['6:test']);
+      });
+
+      test('should enforce precondition: handler bound', async () => {
+         await expect(registry.dispatch('roll', [], { sides: '6' }))
+            .rejects.toThrow('Precondition violated: command roll has no handler');
+      });
+   });
+
+   describe('with CommandParser', () => {
+      test('should recognise commands added to the registry', () => {
+         const parser = new CommandParser(registry);
+         const command = parser.parse('/dice 12');
+
+         expect(command.type).toBe('roll');
+         expect(parser.validate(command)).toBe(true);
+         expect(parser.parse('/edit 1 text').type).toBe('unknown');
+      });
+   });
+});
@@ -0,0 +1,53 @@
+/**
+ * Unit Tests for Word Diff
+ * Tests that diffs rebuild both versions and mark the changed words
+ */
+
+import { diffWords } from '../src/utils/diff';
+import { DiffPart } from '../src/types/index';
+
+function rebuild(parts: DiffPart[], side: 'before' | 'after'): string {
+   const skip = side === 'before' ? 'added' : 'removed';
+   return parts.filter(part => part.type !== skip).map(part => part.text).join('');
+}
+
+describe('diffWords()', () => {
+   test('should mark a replaced word', () => {
+      expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+         { type: 'same', text: 'the ' },
+         { type: 'removed', text: 'quick' },
+         { type: 'added', text: 'slow' },
+         { type: 'same', text: ' fox' }
+      ]);
+   });
+
+   test('should mark words added at either end', () => {
+      expect(diffWords('hello', 'well hello there')).toEqual([
+         { type: 'added', text: 'well ' },
+         { type: 'same', text: 'hello' },
+         { type: 'added', text: ' there' }
+      ]);
+   });
+
+   test('should return one part for identical texts and none for two empty ones', () => {
+      expect(diffWords('same text', 'same text')).toEqual([{ type: 'same', text: 'same text' }]);
+      expect(diffWords('', '')).toEqual([]);
+   });
+
+   test('should rebuild both versions exactly, whitespace included', () => {
+      const before = 'Meet at  noon\nin room 4, bring notes';
+      const after = 'Meet at 1pm in  room 5,\nbring notes and snacks';
+
+      const parts = diffWords(before, after);
+
+      expect(rebuild(parts, 'before')).toBe(before);
+      expect(rebuild(parts, 'after')).toBe(after);
+      for (let i = 1; i < parts.length; i++) {
+         expect(parts[i].type).not.toBe(parts[i - 1].type);
+      }
+   });
+
+   test('should reject non-string versions', () => {
+      expect(() => diffWords(undefined as any, 'text')).toThrow('Precondition violated');
+   });
+});
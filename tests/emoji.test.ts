@@ -0,0 +1,25 @@
+/**
+ * Unit Tests for Emoji Helpers
+ */
+
+import { isEmoji } from '../src/utils/emoji';
+
+describe('isEmoji()', () => {
+   test('should accept single emoji', () => {
+      expect(isEmoji('👍')).toBe(true);
+      expect(isEmoji('❤️')).toBe(true); // Variation selector
+   });
+
+   test('should accept modifier, flag and ZWJ sequences', () => {
+      expect(isEmoji('👍🏽')).toBe(true);
+      expect(isEmoji('🇵🇰')).toBe(true);
+      expect(isEmoji('\u{1F469}\u200D\u{1F4BB}')).toBe(true); // Woman technologist
+   });
+
+   test('should reject text, digits and empty input', () => {
+      expect(isEmoji('')).toBe(false);
+      expect(isEmoji('ok')).toBe(false);
+      expect(isEmoji('1')).toBe(false);
+      expect(isEmoji('👍 nice')).toBe(false);
+   });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit Tests for the typed error hierarchy
+ * Tests class chains and the payloads sent to clients
+ */
+
+import {
+   ChatError,
+   ConflictError,
+   EditPolicyError,
+   ForbiddenError,
+   NotFoundError,
+   RateLimitedError,
+   ValidationError
+} from '../src/utils/errors';
+
+describe('ChatError subclasses', () => {
+   test('should keep the class name and the Error chain', () => {
+      const error = new NotFoundError('Message m1 not found');
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error).toBeInstanceOf(ChatError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('NotFoundError');
+   });
+
+   test('should give each class its code', () => {
+      expect(new NotFoundError('x').code).toBe('not-found');
+      expect(new ForbiddenError('x').code).toBe('forbidden');
+      expect(new ConflictError('x').code).toBe('conflict');
+      expect(new ValidationError('x').code).toBe('validation');
+      expect(new RateLimitedError('x', 1000).code).toBe('rate-limited');
+   });
+
+   test('should treat edit policy refusals as forbidden', () => {
+      const error = new EditPolicyError('edit-window', 'Messages can only be edited for 1m');
+
+      expect(error).toBeInstanceOf(ForbiddenError);
+      expect(error.rule).toBe('edit-window');
+      expect(error.toPayload()).toEqual({ code: 'forbidden', message: 'Messages can only be edited for 1m' });
+   });
+});
+
+describe('toPayload()', () => {
+   test('should include the field only when there is one', () => {
+      expect(new ConflictError('Username is already taken', 'username').toPayload()).toEqual({
+         code: 'conflict',
+         message: 'Username is already taken',
+         field: 'username'
+      });
+      expect(new ValidationError('Bad value').toPayload()).toEqual({ code: 'validation', message: 'Bad value' });
+   });
+
+   test('should tell rate-limited clients how long to wait', () => {
+      expect(new RateLimitedError('Slow down', 5000).toPayload()).toEqual({
+         code: 'rate-limited',
+         message: 'Slow down',
+         retryAfterMs: 5000
+      });
+      expect(new RateLimitedError('Too many reports', 5000, 'report').toPayload()).toMatchObject({ field: 'report' });
+   });
+});
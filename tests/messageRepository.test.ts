@@ -9,7 +9,9 @@
  * - Test mutation operations (edit, delete)
  */
 
-import { MessageRepository } from '../src/utils/messageRepository';
+import { MessageRepository, getDirectMessageRoom, isDirectMessageRoom } from '../src/utils/messageRepository';
+import { parseSearchQuery } from '../src/utils/searchIndex';
+import { ConflictError, EditPolicyError, ForbiddenError, NotFoundError, ValidationError } from '../src/utils/errors';
 
 describe('MessageRepository', () => {
    let repository: MessageRepository;
@@ -82,23 +84,30 @@ describe('MessageRepository', () => {
 
       test('should prevent editing messages by other users', async () => {
          const message = await repository.addMessage('user1', 'Original', 'room1');
-         const result = await repository.editMessage(message.id, 'Hacked', 'user2');
+         await expect(repository.editMessage(message.id, 'Hacked', 'user2')).rejects.toThrow(ForbiddenError);
+         expect(repository.getMessage(message.id)!.text).toBe('Original');
+      });
+
+      test('should let users with edit-others permission edit any message', async () => {
+         const message = await repository.addMessage('user1', 'Original', 'room1');
+         const result = await repository.editMessage(message.id, 'Moderated', 'admin1', true);
 
-         expect(result).toBeNull();
+         expect(result!.text).toBe('Moderated');
+         expect(result!.username).toBe('user1');
       });
 
-      test('should enforce precondition: messageId not null', async () => {
+      test('should reject a missing messageId', async () => {
          await expect(
             repository.editMessage(null as any, 'text', 'user1')
-         ).rejects.toThrow('Precondition violated: messageId cannot be null');
+         ).rejects.toMatchObject({ constructor: ValidationError, field: 'messageId' });
       });
 
-      test('should enforce precondition: newText non-empty', async () => {
+      test('should reject empty new text', async () => {
          const message = await repository.addMessage('user1', 'Original', 'room1');
 
          await expect(
             repository.editMessage(message.id, '', 'user1')
-         ).rejects.toThrow('Precondition violated: newText must be non-empty');
+         ).rejects.toMatchObject({ constructor: ValidationError, field: 'newText' });
       });
 
       test('should maintain edit history chronologically', async () => {
@@ -115,33 +124,245 @@ describe('MessageRepository', () => {
          expect(edited!.editHistory![0].timestamp).toBeLessThan(edited!.editHistory![1].timestamp);
       });
 
-      test('should not allow editing deleted messages', async () => {
+      test('should not allow editing deleted or missing messages', async () => {
          const message = await repository.addMessage('user1', 'Original', 'room1');
          await repository.deleteMessage(message.id, 'user1');
 
          await expect(
             repository.editMessage(message.id, 'New text', 'user1')
-         ).rejects.toThrow('Precondition violated: cannot edit deleted message');
+         ).rejects.toThrow(ConflictError);
+         await expect(
+            repository.editMessage('nonexistent-id', 'New text', 'user1')
+         ).rejects.toThrow(new NotFoundError('Message nonexistent-id not found'));
+      });
+   });
+
+   describe('edit policy', () => {
+      const MINUTE = 60 * 1000;
+
+      async function rejection(promise: Promise<unknown>): Promise<EditPolicyError> {
+         const error = await promise.then(() => undefined, (caught: unknown) => caught);
+         expect(error).toBeInstanceOf(EditPolicyError);
+         return error as EditPolicyError;
+      }
+
+      test('should refuse edits after the edit window', async () => {
+         const message = await repository.addMessage('user1', 'Original', 'room1');
+         const policy = { editWindowMs: 15 * MINUTE };
+
+         expect(await repository.editMessage(message.id, 'Fresh edit', 'user1', false, policy)).not.toBeNull();
+
+         message.editHistory![0].timestamp -= 16 * MINUTE;
+         const error = await rejection(repository.editMessage(message.id, 'Late edit', 'user1', false, policy));
+         expect(error.rule).toBe('edit-window');
+         expect(error.message).toBe('Messages can only be edited for 15m after sending');
+      });
+
+      test('should limit the number of edits', async () => {
+         const message = await repository.addMessage('user1', 'v1', 'room1');
+         await repository.editMessage(message.id, 'v2', 'user1', false, { maxEdits: 1 });
+
+         expect((await rejection(repository.editMessage(message.id, 'v3', 'user1', false, { maxEdits: 1 }))).rule).toBe('edit-limit');
+         expect(repository.getMessage(message.id)!.text).toBe('v2');
+      });
+
+      test('should lock messages with replies when the room asks', async () => {
+         const parent = await repository.addMessage('user1', 'Question', 'room1');
+         const reply = await repository.addMessage('user2', 'Answer', 'room1', parent.id);
+
+         expect((await rejection(repository.editMessage(parent.id, 'Changed', 'user1', false, { lockReplied: true }))).rule).toBe('reply-lock');
+
+         await repository.deleteMessage(reply.id, 'user2');
+         expect(await repository.editMessage(parent.id, 'Changed', 'user1', false, { lockReplied: true })).not.toBeNull();
+      });
+
+      test('should refuse deletes after the delete window', async () => {
+         const message = await repository.addMessage('user1', 'Old news', 'room1');
+         message.timestamp -= 2 * MINUTE;
+
+         const error = await rejection(repository.deleteMessage(message.id, 'user1', false, { deleteWindowMs: MINUTE }));
+
+         expect(error.rule).toBe('delete-window');
+         expect(repository.getMessage(message.id)!.deleted).toBe(false);
+      });
+
+      test('should not limit moderators acting on others\' messages', async () => {
+         const message = await repository.addMessage('user1', 'Original', 'room1');
+         message.timestamp -= 2 * MINUTE;
+         const policy = { editWindowMs: MINUTE, maxEdits: 0, deleteWindowMs: MINUTE };
+
+         expect((await repository.editMessage(message.id, 'Moderated', 'admin1', true, policy)).text).toBe('Moderated');
+         await repository.deleteMessage(message.id, 'admin1', true, policy);
+         expect(message.deleted).toBe(true);
+      });
+   });
+
+   describe('getEditHistory()', () => {
+      test('should return every revision with the words each edit changed', async () => {
+         const message = await repository.addMessage('user1', 'ship it today', 'room1');
+         await repository.editMessage(message.id, 'ship it tomorrow', 'user1');
+         await repository.editMessage(message.id, 'do not ship it tomorrow', 'user1');
+
+         const revisions = repository.getEditHistory(message.id)!;
+
+         expect(revisions.map(revision => revision.text)).toEqual(['ship it today', 'ship it tomorrow', 'do not ship it tomorrow']);
+         expect(revisions[0].diff).toEqual([]);
+         expect(revisions[1].diff).toEqual([
+            { type: 'same', text: 'ship it ' },
+            { type: 'removed', text: 'today' },
+            { type: 'added', text: 'tomorrow' }
+         ]);
+         expect(revisions[2].diff[0]).toEqual({ type: 'added', text: 'do not ' });
+      });
+
+      test('should return the original alone for unedited messages', async () => {
+         const message = await repository.addMessage('user1', 'Hello', 'room1');
+
+         expect(repository.getEditHistory(message.id)).toEqual([
+            { text: 'Hello', timestamp: message.timestamp, time: message.time, diff: [] }
+         ]);
+      });
+
+      test('should hide deleted and unknown messages', async () => {
+         const message = await repository.addMessage('user1', 'Hello', 'room1');
+         await repository.editMessage(message.id, 'Hello there', 'user1');
+         await repository.deleteMessage(message.id, 'user1');
+
+         expect(repository.getEditHistory(message.id)).toBeUndefined();
+         expect(repository.getEditHistory('nonexistent-id')).toBeUndefined();
+      });
+   });
+
+   describe('toggleReaction()', () => {
+      test('should add a reaction and aggregate counts per emoji', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+         await repository.toggleReaction(message.id, '👍', 'user2');
+         const result = await repository.toggleReaction(message.id, '👍', 'user3');
+
+         expect(result.added).toBe(true);
+         expect(result.reactions).toEqual([{ emoji: '👍', count: 2, users: ['user2', 'user3'] }]);
+      });
+
+      test('should remove the reaction when toggled again', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+         await repository.toggleReaction(message.id, '🎉', 'user2');
+         const result = await repository.toggleReaction(message.id, '🎉', 'user2');
+
+         expect(result.added).toBe(false);
+         expect(result.reactions).toEqual([]);
+         expect(repository.getMessage(message.id)!.reactions).toEqual({});
+      });
+
+      test('should include reactions in history payloads', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+         await repository.toggleReaction(message.id, '❤️', 'user2');
+
+         const page = repository.getMessagesPage('room1', undefined, 10);
+
+         expect(page.messages[0].reactions).toEqual([{ emoji: '❤️', count: 1, users: ['user2'] }]);
+      });
+
+      test('should serialize concurrent toggles through the lock', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+         await Promise.all(['a', 'b', 'c', 'd'].map(u => repository.toggleReaction(message.id, '👍', u)));
+
+         expect(repository.getMessage(message.id)!.reactions!['👍'].length).toBe(4);
+      });
+
+      test('should enforce precondition: emoji', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+
+         await expect(repository.toggleReaction(message.id, 'lol', 'user2'))
+            .rejects.toThrow('Precondition violated: reaction must be an emoji');
+      });
+
+      test('should refuse reactions to deleted messages', async () => {
+         const message = await repository.addMessage('user1', 'Ship it', 'room1');
+         await repository.deleteMessage(message.id, 'user1');
+
+         await expect(repository.toggleReaction(message.id, '👍', 'user2')).rejects.toThrow(ConflictError);
+      });
+   });
+
+   describe('read receipts', () => {
+      test('should count each reader once and never the author', async () => {
+         const message = await repository.addMessage('author', 'Hello', 'room1');
+         await repository.incrementReadReceipt(message.id, 'reader');
+         await repository.incrementReadReceipt(message.id, 'reader');
+         await repository.incrementReadReceipt(message.id, 'author');
+
+         expect(repository.getReaders(message.id)).toEqual(['reader']);
+      });
+
+      test('should return only the messages whose readers changed', async () => {
+         const first = await repository.addMessage('author', 'One', 'room1');
+         const second = await repository.addMessage('author', 'Two', 'room1');
+         await repository.markRead('room1', [first.id], 'reader');
+
+         const updates = await repository.markRead('room1', [first.id, second.id], 'reader');
+
+         expect(updates).toEqual([{ id: second.id, seenBy: ['reader'] }]);
+      });
+
+      test('should ignore messages from other rooms', async () => {
+         const other = await repository.addMessage('author', 'Elsewhere', 'room2');
+
+         expect(await repository.markRead('room1', [other.id, 'missing'], 'reader')).toEqual([]);
+         expect(repository.getLastRead('room1', 'reader')).toBeUndefined();
+      });
+
+      test('should only move the last-read pointer forward', async () => {
+         const first = await repository.addMessage('author', 'One', 'room1');
+         const second = await repository.addMessage('author', 'Two', 'room1');
+         await repository.markRead('room1', [second.id], 'reader');
+         await repository.markRead('room1', [first.id], 'READER');
+
+         expect(repository.getLastRead('room1', 'reader')).toBe(second.id);
+      });
+
+      test('should count unread messages by others after the pointer', async () => {
+         const first = await repository.addMessage('author', 'One', 'room1');
+         await repository.markRead('room1', [first.id], 'reader');
+         await repository.addMessage('author', 'Two', 'room1');
+         await repository.addMessage('reader', 'My own', 'room1');
+         const deleted = await repository.addMessage('author', 'Oops', 'room1');
+         await repository.deleteMessage(deleted.id, 'author');
+
+         expect(repository.getUnreadCount('room1', 'reader')).toBe(1);
+         expect(repository.getUnreadCount('room1', 'newcomer')).toBe(0);
+      });
+
+      test('should include readers in history payloads', async () => {
+         const message = await repository.addMessage('author', 'Hello', 'room1');
+         await repository.markRead('room1', [message.id], 'reader');
+
+         expect(repository.getMessagesPage('room1', undefined, 10).messages[0].seenBy).toEqual(['reader']);
       });
    });
 
    describe('deleteMessage() - Mutability Testing', () => {
       test('should soft delete message', async () => {
          const message = await repository.addMessage('user1', 'To delete', 'room1');
-         const success = await repository.deleteMessage(message.id, 'user1');
-
-         expect(success).toBe(true);
+         await repository.deleteMessage(message.id, 'user1');
 
          const deleted = repository.getMessage(message.id);
          expect(deleted!.deleted).toBe(true);
          expect(deleted!.text).toBe('[Message deleted]');
+         expect(deleted!.deletedText).toBe('To delete');
+         expect(deleted!.deletedBy).toBe('user1');
       });
 
       test('should prevent deleting messages by other users', async () => {
          const message = await repository.addMessage('user1', 'Message', 'room1');
-         const success = await repository.deleteMessage(message.id, 'user2');
+         await expect(repository.deleteMessage(message.id, 'user2')).rejects.toThrow(ForbiddenError);
+         expect(repository.getMessage(message.id)!.deleted).toBe(false);
+      });
+
+      test('should let users with delete-others permission delete any message', async () => {
+         const message = await repository.addMessage('user1', 'Message', 'room1');
+         await repository.deleteMessage(message.id, 'moderator1', true);
 
-         expect(success).toBe(false);
+         expect(repository.getMessage(message.id)!.deleted).toBe(true);
       });
 
       test('should not include deleted messages in room messages', async () => {
@@ -156,6 +377,87 @@ describe('MessageRepository', () => {
       });
    });
 
+   describe('restoreMessage()', () => {
+      const WINDOW = 60 * 1000;
+
+      test('should let the author undo a delete within the window', async () => {
+         const message = await repository.addMessage('user1', 'Oops, wrong room', 'room1');
+         await repository.deleteMessage(message.id, 'user1');
+
+         const restored = await repository.restoreMessage(message.id, 'user1', WINDOW);
+
+         expect(restored.text).toBe('Oops, wrong room');
+         expect(restored.deleted).toBe(false);
+         expect(restored.deletedText).toBeUndefined();
+         expect(repository.search('room1', parseSearchQuery('wrong room').query!).total).toBe(1);
+      });
+
+      test('should refuse an undo after the window closes', async () => {
+         const message = await repository.addMessage('user1', 'Gone', 'room1');
+         await repository.deleteMessage(message.id, 'user1');
+         repository.getMessage(message.id)!.deletedAt = Date.now() - WINDOW - 1;
+
+         await expect(repository.restoreMessage(message.id, 'user1', WINDOW)).rejects.toThrow(ForbiddenError);
+         expect(repository.getMessage(message.id)!.deleted).toBe(true);
+      });
+
+      test('should not let authors undo deletes by others', async () => {
+         const message = await repository.addMessage('user1', 'Spam', 'room1');
+         await repository.deleteMessage(message.id, 'moderator1', true);
+
+         await expect(repository.restoreMessage(message.id, 'user1', WINDOW)).rejects.toThrow(ForbiddenError);
+         await expect(repository.restoreMessage(message.id, 'user2', WINDOW)).rejects.toThrow(ForbiddenError);
+      });
+
+      test('should let moderators restore any delete at any time', async () => {
+         const message = await repository.addMessage('user1', 'Keep this', 'room1');
+         await repository.deleteMessage(message.id, 'user1');
+         repository.getMessage(message.id)!.deletedAt = 0;
+
+         const restored = await repository.restoreMessage(message.id, 'moderator1', 0, true);
+
+         expect(restored.text).toBe('Keep this');
+      });
+
+      test('should report messages that are not deleted', async () => {
+         const message = await repository.addMessage('user1', 'Still here', 'room1');
+
+         await expect(repository.restoreMessage(message.id, 'user1', WINDOW)).rejects.toThrow(ConflictError);
+         await expect(repository.restoreMessage('nonexistent-id', 'user1', WINDOW)).rejects.toThrow(NotFoundError);
+      });
+
+      test('should bring a restored reply back into its thread', async () => {
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         const reply = await repository.addMessage('user2', 'Reply', 'room1', parent.id);
+         const nested = await repository.addMessage('user1', 'Nested', 'room1', reply.id);
+         await repository.deleteMessage(nested.id, 'user1');
+         repository.getMessageThread(parent.id);
+
+         await repository.restoreMessage(nested.id, 'user1', WINDOW);
+
+         expect(repository.getThreadTree(parent.id)!.replies[0].replies.map(node => node.text)).toEqual(['Nested']);
+         expect(repository.getAncestorReplyCounts(nested.id)).toEqual([
+            { id: reply.id, replyCount: 1 },
+            { id: parent.id, replyCount: 2 }
+         ]);
+      });
+   });
+
+   describe('getLastDeletedMessage()', () => {
+      test("should find the author's most recent delete in the room", async () => {
+         const first = await repository.addMessage('user1', 'First', 'room1');
+         const second = await repository.addMessage('user1', 'Second', 'room1');
+         const other = await repository.addMessage('user1', 'Elsewhere', 'room2');
+         await repository.deleteMessage(second.id, 'user1');
+         await repository.deleteMessage(other.id, 'user1');
+         await repository.deleteMessage(first.id, 'user1');
+         repository.getMessage(first.id)!.deletedAt! += 1;
+
+         expect(repository.getLastDeletedMessage('user1', 'room1')!.id).toBe(first.id);
+         expect(repository.getLastDeletedMessage('user2', 'room1')).toBeUndefined();
+      });
+   });
+
    describe('Threading and Recursion Testing', () => {
       test('should add reply with parent reference', async () => {
          const parent = await repository.addMessage('user1', 'Parent message', 'room1');
@@ -164,10 +466,10 @@ describe('MessageRepository', () => {
          expect(reply.parentId).toBe(parent.id);
       });
 
-      test('should enforce parent exists precondition', async () => {
+      test('should refuse replies to a missing parent', async () => {
          await expect(
             repository.addMessage('user1', 'Reply', 'room1', 'nonexistent-id')
-         ).rejects.toThrow('Precondition violated: parent message does not exist');
+         ).rejects.toThrow(NotFoundError);
       });
 
       test('should populate replies in parent message', async () => {
@@ -208,6 +510,164 @@ describe('MessageRepository', () => {
          const thread = repository.getMessageThread(parent.id);
          expect(thread!.replies!.length).toBe(1);
       });
+
+      test('should count replies at any depth, skipping deleted subtrees', async () => {
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         const reply1 = await repository.addMessage('user2', 'Reply 1', 'room1', parent.id);
+         const reply2 = await repository.addMessage('user3', 'Reply 2', 'room1', parent.id);
+         await repository.addMessage('user1', 'Reply to Reply 2', 'room1', reply2.id);
+
+         expect(repository.getMessagesPage('room1').messages[0].replyCount).toBe(3);
+
+         await repository.deleteMessage(reply2.id, 'user3');
+
+         expect(repository.getMessagesPage('room1').messages[0].replyCount).toBe(1);
+         expect(repository.getAncestorReplyCounts(reply1.id)).toEqual([{ id: parent.id, replyCount: 1 }]);
+      });
+
+      test('should report the reply counts of every ancestor, nearest first', async () => {
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         const reply1 = await repository.addMessage('user2', 'Reply 1', 'room1', parent.id);
+         const reply2 = await repository.addMessage('user3', 'Reply to Reply', 'room1', reply1.id);
+
+         expect(repository.getAncestorReplyCounts(reply2.id)).toEqual([
+            { id: reply1.id, replyCount: 1 },
+            { id: parent.id, replyCount: 2 }
+         ]);
+         expect(repository.getAncestorReplyCounts(parent.id)).toEqual([]);
+      });
+
+      test('should build the thread tree as payloads', async () => {
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         const reply1 = await repository.addMessage('user2', 'Reply 1', 'room1', parent.id);
+         await repository.addMessage('user3', 'Reply to Reply', 'room1', reply1.id);
+
+         const tree = repository.getThreadTree(parent.id)!;
+
+         expect(tree.replyCount).toBe(2);
+         expect(tree.replies[0]).toMatchObject({ id: reply1.id, replyCount: 1, parentId: parent.id });
+         expect(tree.replies[0].replies[0].text).toBe('Reply to Reply');
+         expect(repository.getThreadTree('nonexistent-id')).toBeUndefined();
+      });
+   });
+
+   describe('search() - Index Maintenance', () => {
+      const search = (raw: string) => repository.search('room1', parseSearchQuery(raw).query!);
+
+      test('should find new messages with a snippet', async () => {
+         const message = await repository.addMessage('user1', 'Deploy is done', 'room1');
+
+         const { results, total } = search('deploy');
+
+         expect(total).toBe(1);
+         expect(results[0].message.id).toBe(message.id);
+         expect(results[0].snippet).toBe('Deploy is done');
+      });
+
+      test('should search the current text of edited messages', async () => {
+         const message = await repository.addMessage('user1', 'first draft', 'room1');
+         await repository.editMessage(message.id, 'final version', 'user1');
+
+         expect(search('draft').total).toBe(0);
+         expect(search('final has:edits').results[0].message.id).toBe(message.id);
+      });
+
+      test('should not find deleted messages', async () => {
+         const message = await repository.addMessage('user1', 'oops secret', 'room1');
+         await repository.deleteMessage(message.id, 'user1');
+
+         expect(search('secret').total).toBe(0);
+         expect(search('deleted').total).toBe(0);
+      });
+
+      test('should find replies within a thread', async () => {
+         const root = await repository.addMessage('user1', 'lunch plans', 'room1');
+         const reply = await repository.addMessage('user2', 'lunch at noon', 'room1', root.id);
+         await repository.addMessage('user2', 'lunch elsewhere', 'room1');
+
+         const ids = search(`lunch in:thread:${root.id}`).results.map(result => result.message.id);
+
+         expect(ids.sort()).toEqual([root.id, reply.id].sort());
+      });
+   });
+
+   describe('getMessagesPage() - Pagination Testing', () => {
+      test('should return the latest messages oldest first', async () => {
+         for (let i = 0; i < 5; i++) {
+            await repository.addMessage('user1', `Message ${i}`, 'room1');
+         }
+
+         const page = repository.getMessagesPage('room1', undefined, 3);
+
+         expect(page.messages.map(m => m.text)).toEqual(['Message 2', 'Message 3', 'Message 4']);
+         expect(page.hasMore).toBe(true);
+      });
+
+      test('should return the page before a message ID cursor', async () => {
+         const messages = [];
+         for (let i = 0; i < 5; i++) {
+            messages.push(await repository.addMessage('user1', `Message ${i}`, 'room1'));
+         }
+
+         const page = repository.getMessagesPage('room1', messages[2].id, 10);
+
+         expect(page.messages.map(m => m.text)).toEqual(['Message 0', 'Message 1']);
+         expect(page.hasMore).toBe(false);
+      });
+
+      test('should return the page before a timestamp cursor', async () => {
+         const first = await repository.addMessage('user1', 'Old', 'room1');
+         await new Promise(resolve => setTimeout(resolve, 10));
+         const second = await repository.addMessage('user1', 'New', 'room1');
+
+         const page = repository.getMessagesPage('room1', second.timestamp);
+
+         expect(page.messages.map(m => m.id)).toEqual([first.id]);
+      });
+
+      test('should include deleted, edited and reply state', async () => {
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         const reply = await repository.addMessage('user2', 'Reply', 'room1', parent.id);
+         await repository.editMessage(parent.id, 'Parent edited', 'user1');
+         await repository.deleteMessage(reply.id, 'user2');
+
+         const page = repository.getMessagesPage('room1');
+
+         expect(page.messages[0].edited).toBe(true);
+         expect(page.messages[1].deleted).toBe(true);
+         expect(page.messages[1].parentId).toBe(parent.id);
+         expect(page.messages[1]).not.toHaveProperty('replies');
+      });
+
+      test('should keep edited messages in send order', async () => {
+         const first = await repository.addMessage('user1', 'First', 'room1');
+         await repository.addMessage('user1', 'Second', 'room1');
+         await new Promise(resolve => setTimeout(resolve, 10));
+         await repository.editMessage(first.id, 'First edited', 'user1');
+
+         const page = repository.getMessagesPage('room1');
+
+         expect(page.messages.map(m => m.text)).toEqual(['First edited', 'Second']);
+      });
+
+      test('should return an empty page for an unknown room', () => {
+         const page = repository.getMessagesPage('empty-room');
+
+         expect(page.messages).toEqual([]);
+         expect(page.hasMore).toBe(false);
+      });
+
+      test('should enforce precondition: cursor exists in room', async () => {
+         await repository.addMessage('user1', 'Message', 'room1');
+
+         expect(() => repository.getMessagesPage('room1', 'nonexistent-id'))
+            .toThrow('Precondition violated: cursor message does not exist in room');
+      });
+
+      test('should enforce precondition: positive limit', () => {
+         expect(() => repository.getMessagesPage('room1', undefined, 0))
+            .toThrow('Precondition violated: limit must be a positive integer');
+      });
    });
 
    describe('Concurrency Testing', () => {
@@ -260,3 +720,27 @@ describe('MessageRepository', () => {
       });
    });
 });
+
+describe('Direct message rooms', () => {
+   test('should give both participants the same room key', () => {
+      expect(getDirectMessageRoom('Alice', 'bob')).toBe('dm:alice:bob');
+      expect(getDirectMessageRoom('bob', 'ALICE')).toBe('dm:alice:bob');
+   });
+
+   test('should distinguish conversation keys from room names', () => {
+      expect(isDirectMessageRoom(getDirectMessageRoom('alice', 'bob'))).toBe(true);
+      expect(isDirectMessageRoom('room1')).toBe(false);
+   });
+
+   test('should keep a conversation separate from public rooms', async () => {
+      const repository = new MessageRepository();
+      const room = getDirectMessageRoom('alice', 'bob');
+      await repository.addMessage('alice', 'Hi Bob', room);
+      await repository.addMessage('alice', 'Hi everyone', 'room1');
+
+      const page = repository.getMessagesPage(room, undefined, 10);
+
+      expect(page.messages.map(m => m.text)).toEqual(['Hi Bob']);
+      expect(repository.getMessagesPage('room1', undefined, 10).messages.length).toBe(1);
+   });
+});
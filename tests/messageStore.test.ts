@@ -0,0 +1,177 @@
+/**
+ * Unit Tests for Message Storage Adapters
+ * Tests persistence and rebuilding of MessageRepository state
+ *
+ * Test Strategy:
+ * - Round-trip each store through a fresh repository (simulated restart)
+ * - Test that invariants are enforced when loading
+ * - Test recovery from a torn final log line
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageRepository } from '../src/utils/messageRepository';
+import { FileMessageStore, InMemoryMessageStore } from '../src/utils/messageStore';
+
+describe('MessageStore', () => {
+   let tempDir: string;
+   let logPath: string;
+
+   beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'message-store-'));
+      logPath = path.join(tempDir, 'messages.jsonl');
+   });
+
+   afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+   });
+
+   describe('InMemoryMessageStore', () => {
+      test('should rebuild a repository from saved messages', async () => {
+         const store = new InMemoryMessageStore();
+         const repository = new MessageRepository(store);
+         const parent = await repository.addMessage('user1', 'Parent', 'room1');
+         await repository.addMessage('user2', 'Reply', 'room1', parent.id);
+
+         const restarted = new MessageRepository(store);
+
+         expect(restarted.getMessagesForRoom('room1').length).toBe(2);
+         expect(restarted.getMessage(parent.id)!.replies!.length).toBe(1);
+      });
+
+      test('should not share message objects with the repository', async () => {
+         const store = new InMemoryMessageStore();
+         const repository = new MessageRepository(store);
+         const message = await repository.addMessage('user1', 'Original', 'room1');
+
+         message.text = 'Mutated outside the repository';
+
+         expect(store.load().messages[0].text).toBe('Original');
+      });
+   });
+
+   describe('FileMessageStore', () => {
+      test('should persist messages, edits and deletes across restarts', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         const first = await repository.addMessage('user1', 'Version 1', 'room1');
+         const second = await repository.addMessage('user2', 'To delete', 'room2');
+         await new Promise(resolve => setTimeout(resolve, 10));
+         await repository.editMessage(first.id, 'Version 2', 'user1');
+         await repository.deleteMessage(second.id, 'user2');
+
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         const edited = restarted.getMessage(first.id)!;
+         expect(edited.text).toBe('Version 2');
+         expect(edited.editHistory!.map(e => e.text)).toEqual(['Version 1']);
+         expect(restarted.getMessage(second.id)!.deleted).toBe(true);
+         expect(restarted.getMessagesForRoom('room1').length).toBe(1);
+      });
+
+      test('should rebuild nested reply trees', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         const root = await repository.addMessage('user1', 'Root', 'room1');
+         const reply = await repository.addMessage('user2', 'Reply', 'room1', root.id);
+         await repository.addMessage('user3', 'Nested', 'room1', reply.id);
+
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(restarted.getThreadDepth(root.id)).toBe(2);
+      });
+
+      test('should persist readers and last-read pointers', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         const message = await repository.addMessage('user1', 'Hello', 'room1');
+         await repository.incrementReadReceipt(message.id, 'user2');
+         await repository.markRead('room1', [message.id], 'user3');
+
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(restarted.getReaders(message.id)).toEqual(['user2', 'user3']);
+         expect(restarted.getLastRead('room1', 'user3')).toBe(message.id);
+      });
+
+      test('should skip anonymous read counts from older logs', () => {
+         fs.writeFileSync(logPath, [
+            JSON.stringify({ type: 'message', message: { id: 'm1', username: 'user1', text: 'Hi', time: '1:00 pm', timestamp: 1, room: 'room1', editHistory: [] } }),
+            JSON.stringify({ type: 'readReceipt', messageId: 'm1', count: 3 })
+         ].join('\n') + '\n');
+
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(repository.getReadReceiptCount('m1')).toBe(0);
+      });
+
+      test('should persist reactions', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         const message = await repository.addMessage('user1', 'Hello', 'room1');
+         await repository.toggleReaction(message.id, '👍', 'user2');
+
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(restarted.getMessage(message.id)!.reactions).toEqual({ '👍': ['user2'] });
+      });
+
+      test('should start empty when the log does not exist', () => {
+         const repository = new MessageRepository(new FileMessageStore(path.join(tempDir, 'nested', 'log.jsonl')));
+
+         expect(repository.getMessagesForRoom('room1')).toEqual([]);
+      });
+
+      test('should ignore a torn final line', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         await repository.addMessage('user1', 'Complete', 'room1');
+         fs.appendFileSync(logPath, '{"type":"message","mess');
+
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(restarted.getMessagesForRoom('room1').length).toBe(1);
+      });
+
+      test('should reject corruption before the final line', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         await repository.addMessage('user1', 'First', 'room1');
+         fs.appendFileSync(logPath, 'not json\n');
+         await repository.addMessage('user1', 'Second', 'room1');
+
+         expect(() => new MessageRepository(new FileMessageStore(logPath)))
+            .toThrow('Corrupt message log');
+      });
+
+      test('should enforce invariant: parent exists before reply', () => {
+         const orphan = {
+            id: 'reply-1', username: 'user1', text: 'Orphan', time: '1:00 pm',
+            timestamp: 1, room: 'room1', parentId: 'missing-parent'
+         };
+         fs.writeFileSync(logPath, JSON.stringify({ type: 'message', message: orphan }) + '\n');
+
+         expect(() => new MessageRepository(new FileMessageStore(logPath)))
+            .toThrow('Invariant violation: parent message does not exist');
+      });
+
+      test('should compact the log when stale records dominate', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         const message = await repository.addMessage('user1', 'Edit 0', 'room1');
+         for (let i = 1; i <= 5; i++) {
+            await repository.editMessage(message.id, `Edit ${i}`, 'user1');
+         }
+
+         new MessageRepository(new FileMessageStore(logPath));
+         const lines = fs.readFileSync(logPath, 'utf8').trim().split('\n');
+
+         expect(lines.length).toBe(1);
+         expect(JSON.parse(lines[0]).message.text).toBe('Edit 5');
+      });
+
+      test('should empty the log on clear', async () => {
+         const repository = new MessageRepository(new FileMessageStore(logPath));
+         await repository.addMessage('user1', 'Message', 'room1');
+
+         repository.clear();
+         const restarted = new MessageRepository(new FileMessageStore(logPath));
+
+         expect(restarted.getMessagesForRoom('room1')).toEqual([]);
+      });
+   });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit Tests for the Moderation Action Executor
+ * Tests sanctions, warnings and flags from matched rules, and the audit log
+ * they write to
+ */
+
+import { AuditLog, MAX_AUDIT_ENTRIES } from '../src/utils/auditLog';
+import { AUTOMOD_ACTOR, DEFAULT_WARNING, ModerationActionExecutor, isBlocked } from '../src/utils/moderationActions';
+import { ReviewQueue } from '../src/utils/reviewQueue';
+import { SanctionRepository } from '../src/utils/sanctions';
+import { UserRepository } from '../src/utils/users';
+import { ModerationActionSpec, ModerationMatch } from '../src/types/index';
+
+function match(ruleId: string, action: ModerationActionSpec): ModerationMatch {
+   return { ruleId, action };
+}
+
+describe('ModerationActionExecutor', () => {
+   let users: UserRepository;
+   let sanctions: SanctionRepository;
+   let audit: AuditLog;
+   let queue: ReviewQueue;
+   let executor: ModerationActionExecutor;
+   const context = { username: 'troll', room: 'room1', text: 'buy cheap crypto', messageId: 'msg1' };
+
+   beforeEach(() => {
+      sanctions = new SanctionRepository();
+      users = new UserRepository(sanctions);
+      audit = new AuditLog();
+      queue = new ReviewQueue();
+      executor = new ModerationActionExecutor(users, sanctions, audit, queue);
+      users.userJoin('socket1', 'troll', 'room1');
+   });
+
+   describe('isBlocked()', () => {
+      test('should block deletes and bans only', () => {
+         expect(isBlocked([match('r1', { type: 'delete' })])).toBe(true);
+         expect(isBlocked([match('r1', { type: 'warn' }), match('r2', { type: 'ban' })])).toBe(true);
+         expect(isBlocked([match('r1', { type: 'mute' }), match('r2', { type: 'flag' })])).toBe(false);
+         expect(isBlocked([])).toBe(false);
+      });
+   });
+
+   describe('execute()', () => {
+      test('should do nothing without matches', () => {
+         expect(executor.execute([], context)).toEqual({ warnings: [] });
+         expect(audit.getEntries()).toEqual([]);
+      });
+
+      test('should mute the user in the room', () => {
+         const outcome = executor.execute([match('r1', { type: 'mute', durationMs: 600000 })], context);
+
+         expect(outcome.muted).toEqual({ durationMs: 600000 });
+         expect(users.getUserByUsername('troll')!.muted).toBe(true);
+         const sanction = sanctions.getActiveSanction('mute', 'troll', 'room1')!;
+         expect(sanction.issuedBy).toBe(AUTOMOD_ACTOR);
+         expect(sanction.reason).toBe('Automatic moderation (rule r1)');
+         expect(sanction.expiresAt).toBe(sanction.createdAt + 600000);
+      });
+
+      test('should not set the live muted flag for another room', () => {
+         executor.execute([match('r1', { type: 'mute' })], { ...context, room: 'room2' });
+
+         expect(sanctions.isMuted('troll', 'room2')).toBe(true);
+         expect(users.getUserByUsername('troll')!.muted).toBe(false);
+      });
+
+      test('should apply the strongest of several mutes', () => {
+         const timed = executor.execute([
+            match('r1', { type: 'mute', durationMs: 60000 }),
+            match('r2', { type: 'mute', durationMs: 600000 })
+         ], context);
+         expect(timed.muted).toEqual({ durationMs: 600000 });
+
+         const permanent = executor.execute([
+            match('r1', { type: 'mute', durationMs: 60000 }),
+            match('r3', { type: 'mute' })
+         ], context);
+         expect(permanent.muted).toEqual({});
+         expect(sanctions.getActiveSanction('mute', 'troll', 'room1')!.expiresAt).toBeUndefined();
+      });
+
+      test('should ban the user from the room', () => {
+         const outcome = executor.execute([match('r1', { type: 'ban', durationMs: 86400000 })], context);
+
+         expect(outcome.banned).toEqual({ durationMs: 86400000 });
+         expect(sanctions.isBanned('troll', 'room1')).toBe(true);
+         expect(sanctions.isBanned('troll', 'room2')).toBe(false);
+      });
+
+      test('should collect distinct warnings', () => {
+         const outcome = executor.execute([
+            match('r1', { type: 'warn' }),
+            match('r2', { type: 'warn', message: 'Please keep it civil' }),
+            match('r3', { type: 'warn' })
+         ], context);
+
+         expect(outcome.warnings).toEqual([DEFAULT_WARNING, 'Please keep it civil']);
+      });
+
+      test('should add flagged messages to the review queue once', () => {
+         const outcome = executor.execute([
+            match('r1', { type: 'flag', message: 'Possible scam' }),
+            match('r2', { type: 'flag' })
+         ], context);
+
+         expect(queue.getItems('room1')).toEqual([outcome.flagged]);
+         expect(outcome.flagged).toMatchObject({
+            room: 'room1',
+            messageId: 'msg1',
+            author: 'troll',
+            text: 'buy cheap crypto',
+            reason: 'Possible scam; Matched rule r2',
+            reportedBy: AUTOMOD_ACTOR
+         });
+      });
+
+      test('should not queue or name flagged private messages', () => {
+         const outcome = executor.execute([
+            match('r1', { type: 'flag', message: 'Possible scam' }),
+            match('r2', { type: 'warn' })
+         ], { ...context, isPrivate: true });
+
+         expect(outcome.flagged).toBeUndefined();
+         expect(outcome.warnings).toEqual([DEFAULT_WARNING]);
+         expect(queue.getItems('room1')).toEqual([]);
+         expect(audit.getEntries('room1').map(entry => [entry.ruleId, entry.messageId])).toEqual([['r2', undefined]]);
+      });
+
+      test('should write an audit entry for each match', () => {
+         executor.execute([
+            match('r1', { type: 'warn', message: 'Careful' }),
+            match('r2', { type: 'mute', durationMs: 60000 })
+         ], context);
+
+         const entries = audit.getEntries('room1');
+         expect(entries.length).toBe(2);
+         expect(entries.map(entry => entry.ruleId).sort()).toEqual(['r1', 'r2']);
+         expect(entries.find(entry => entry.ruleId === 'r2')).toMatchObject({
+            action: 'mute', username: 'troll', actor: AUTOMOD_ACTOR, messageId: 'msg1', durationMs: 60000
+         });
+         expect(entries.find(entry => entry.ruleId === 'r1')!.detail).toBe('Careful');
+      });
+   });
+});
+
+describe('AuditLog', () => {
+   test('should return entries newest first, by room and limit', () => {
+      const audit = new AuditLog();
+      ['room1', 'room2', 'room1'].forEach((room, i) => {
+         audit.record({ action: 'warn', username: `user${i}`, room, actor: AUTOMOD_ACTOR });
+      });
+
+      expect(audit.getEntries().map(entry => entry.username)).toEqual(['user2', 'user1', 'user0']);
+      expect(audit.getEntries('room1').map(entry => entry.username)).toEqual(['user2', 'user0']);
+      expect(audit.getEntries(undefined, 1).map(entry => entry.username)).toEqual(['user2']);
+   });
+
+   test('should keep only the most recent entries', () => {
+      const audit = new AuditLog();
+      for (let i = 0; i <= MAX_AUDIT_ENTRIES; i++) {
+         audit.record({ action: 'flag', username: `user${i}`, room: 'room1', actor: AUTOMOD_ACTOR });
+      }
+
+      const entries = audit.getEntries();
+      expect(entries.length).toBe(MAX_AUDIT_ENTRIES);
+      expect(entries[entries.length - 1].username).toBe('user1');
+   });
+
+   test('should reject entries without a user, room or actor', () => {
+      const audit = new AuditLog();
+      expect(() => audit.record({ action: 'warn', username: '', room: 'room1', actor: AUTOMOD_ACTOR })).toThrow('Precondition violated');
+   });
+});
@@ -0,0 +1,97 @@
+/**
+ * Benchmarks for the Moderation Rule Engine
+ * evaluate() runs on every chat message, so a message's cost must grow only
+ * with the work its rules do: no parsing or regex building per message
+ * - The default run checks this without timing anything
+ * - The timing benchmarks are skipped unless BENCHMARK is set, as wall-clock
+ *   limits fail at random on shared machines: npm run test:bench
+ */
+
+import { ModerationDSLParser, ModerationRuleEngine } from '../src/utils/moderationDSL';
+import { perfMonitor } from '../src/utils/logger';
+
+const benchmark = process.env.BENCHMARK ? test : test.skip;
+
+const MESSAGES = Array.from({ length: 200 }, (_, i) =>
+   i % 10 === 0 ? `spam${i} buy now and sell later` : `message ${i} about the release plan for the team`
+);
+
+/**
+ * Rules of every shape the DSL allows, with a distinct value each
+ */
+function ruleSource(i: number): string {
+   switch (i % 4) {
+      case 0:
+         return `when message contains "word${i}" then flag`;
+      case 1:
+         return `when message matches "^spam${i}\\\\b" then delete`;
+      case 2:
+         return `when (word_count > ${i} and not user equals "mod${i}") or length < 0 then warn`;
+      default:
+         return `when user equals "user${i}" or (message contains "buy" and message contains "sell${i}") then flag`;
+   }
+}
+
+function createEngine(ruleCount: number): ModerationRuleEngine {
+   const engine = new ModerationRuleEngine();
+   for (let i = 0; i < ruleCount; i++) {
+      const errors = engine.addRule({ id: `rule${i}`, name: `Rule ${i}`, condition: ruleSource(i), enabled: true });
+      expect(errors).toEqual([]);
+   }
+   return engine;
+}
+
+/**
+ * Best of several runs of evaluating every sample message, in ms per message
+ */
+function timePerMessage(engine: ModerationRuleEngine, runs: number = 5): number {
+   const operation = `moderation.evaluate (${engine.getRules().length} rules)`;
+   MESSAGES.forEach(message => engine.evaluate(message, 'user1'));
+
+   for (let run = 0; run < runs; run++) {
+      const stopTimer = perfMonitor.start(operation);
+      MESSAGES.forEach(message => engine.evaluate(message, 'user1'));
+      stopTimer();
+   }
+   return perfMonitor.getStats(operation)!.min / MESSAGES.length;
+}
+
+describe('ModerationRuleEngine benchmarks', () => {
+   afterEach(() => {
+      jest.restoreAllMocks();
+   });
+
+   test('should not parse rules while evaluating messages', () => {
+      const engine = createEngine(100);
+      const parse = jest.spyOn(ModerationDSLParser.prototype, 'parse');
+
+      MESSAGES.forEach(message => engine.evaluate(message, 'user1'));
+      engine.toggleRule('rule1', false);
+      engine.toggleRule('rule1', true);
+      MESSAGES.forEach(message => engine.evaluate(message, 'user1'));
+
+      expect(parse).not.toHaveBeenCalled();
+   });
+
+   test('should not build regexes while evaluating messages', () => {
+      const engine = createEngine(100);
+      const construct = jest.spyOn(global, 'RegExp');
+
+      MESSAGES.forEach(message => engine.evaluate(message, 'user1'));
+
+      expect(construct).not.toHaveBeenCalled();
+   });
+
+   benchmark('should keep the cost per rule flat as rules are added', () => {
+      const perRuleSmall = timePerMessage(createEngine(100)) / 100;
+      const perRuleLarge = timePerMessage(createEngine(1000)) / 1000;
+
+      // Generous bound, as timings on a shared machine are noisy; catches work per
+      // message that grows faster than the rule count
+      expect(perRuleLarge).toBeLessThan(perRuleSmall * 3);
+   });
+
+   benchmark('should evaluate a message against 1000 rules within 2ms', () => {
+      expect(timePerMessage(createEngine(1000))).toBeLessThan(2);
+   });
+});
@@ -4,6 +4,9 @@
  */
 
 import { ModerationDSLParser, ModerationRuleEngine } from '../src/utils/moderationDSL';
+import { ActivityTracker } from '../src/utils/activityTracker';
+import { AccountRepository } from '../src/utils/accounts';
+import { ModerationExpression, ModerationRuleAst } from '../src/types/index';
 
 describe('ModerationDSLParser', () => {
    let parser: ModerationDSLParser;
@@ -12,83 +15,139 @@ describe('ModerationDSLParser', () => {
       parser = new ModerationDSLParser();
    });
 
+   function parse(source: string): ModerationRuleAst {
+      const { rule, errors } = parser.parse(source);
+      expect(errors).toEqual([]);
+      return rule!;
+   }
+
+   function contains(value: string): ModerationExpression {
+      return { kind: 'comparison', field: 'message', operator: 'contains', value };
+   }
+
    describe('parse()', () => {
       test('should parse simple condition rule', () => {
-         const rule = parser.parse('when message contains "spam" then delete');
-
-         expect(rule).not.toBeNull();
-         expect(rule!.conditions.length).toBe(1);
-         expect(rule!.conditions[0].field).toBe('message');
-         expect(rule!.conditions[0].operator).toBe('contains');
-         expect(rule!.conditions[0].value).toBe('spam');
-         expect(rule!.action).toBe('delete');
+         expect(parse('when message contains "spam" then delete')).toEqual({
+            condition: contains('spam'),
+            action: { type: 'delete' }
+         });
       });
 
       test('should parse numeric comparison rule', () => {
-         const rule = parser.parse('when word_count > 50 then warn');
-
-         expect(rule).not.toBeNull();
-         expect(rule!.conditions[0].field).toBe('word_count');
-         expect(rule!.conditions[0].operator).toBe('>');
-         expect(rule!.conditions[0].value).toBe(50);
-         expect(rule!.action).toBe('warn');
+         expect(parse('when word_count > 50 then warn').condition).toEqual(
+            { kind: 'comparison', field: 'word_count', operator: '>', value: 50 }
+         );
       });
 
       test('should parse AND logic rules', () => {
-         const rule = parser.parse('when message contains "bad" and word_count > 10 then flag');
-
-         expect(rule).not.toBeNull();
-         expect(rule!.logic).toBe('and');
-         expect(rule!.conditions.length).toBe(2);
+         expect(parse('when message contains "bad" and word_count > 10 then flag').condition).toEqual({
+            kind: 'and',
+            left: contains('bad'),
+            right: { kind: 'comparison', field: 'word_count', operator: '>', value: 10 }
+         });
       });
 
       test('should parse OR logic rules', () => {
-         const rule = parser.parse('when message contains "spam" or message contains "scam" then delete');
+         expect(parse('when message contains "spam" or message contains "scam" then delete').condition).toEqual(
+            { kind: 'or', left: contains('spam'), right: contains('scam') }
+         );
+      });
 
-         expect(rule).not.toBeNull();
-         expect(rule!.logic).toBe('or');
-         expect(rule!.conditions.length).toBe(2);
+      test('should bind and tighter than or, and respect parentheses', () => {
+         expect(parse('when message contains "a" or message contains "b" and message contains "c" then flag').condition).toEqual(
+            { kind: 'or', left: contains('a'), right: { kind: 'and', left: contains('b'), right: contains('c') } }
+         );
+         expect(parse('when (message contains "a" or message contains "b") and message contains "c" then flag').condition).toEqual(
+            { kind: 'and', left: { kind: 'or', left: contains('a'), right: contains('b') }, right: contains('c') }
+         );
       });
 
-      test('should return null for invalid syntax', () => {
-         const rule = parser.parse('invalid rule syntax');
+      test('should parse negation', () => {
+         expect(parse('when not not message contains "a" then flag').condition).toEqual(
+            { kind: 'not', operand: { kind: 'not', operand: contains('a') } }
+         );
+      });
 
-         expect(rule).toBeNull();
+      test('should keep keywords and escaped quotes inside strings', () => {
+         expect(parse("when message contains 'rock and roll then \\'more\\'' then flag").condition)
+            .toEqual(contains("rock and roll then 'more'"));
       });
 
-      test('should handle case insensitivity', () => {
-         const rule = parser.parse('WHEN MESSAGE CONTAINS "test" THEN DELETE');
+      test('should report invalid syntax with its position', () => {
+         expect(parser.parse('invalid rule syntax')).toEqual({
+            errors: [{ message: "Expected 'when' at the start of the rule but found 'invalid'", line: 1, column: 1 }]
+         });
+      });
 
-         expect(rule).not.toBeNull();
-         expect(rule!.action).toBe('delete');
+      test('should report positions on later lines', () => {
+         const { errors } = parser.parse('when message contains "a"\n  and (word_count > 3\nthen flag');
+
+         expect(errors).toHaveLength(1);
+         expect(errors[0]).toMatchObject({ line: 3, column: 1 });
+         expect(errors[0].message).toContain("Expected ')' to close the '(' at line 2, column 7");
       });
-   });
 
-   describe('validate()', () => {
-      test('should validate correct rule', () => {
-         const rule = parser.parse('when message contains "spam" then delete');
+      test('should report unterminated strings and unexpected characters', () => {
+         expect(parser.parse('when message contains "spam then delete').errors[0])
+            .toMatchObject({ line: 1, column: 23, message: expect.stringContaining('Unterminated string') });
+         expect(parser.parse('when length > 5 & length < 9 then flag').errors[0])
+            .toMatchObject({ line: 1, column: 17 });
+      });
 
-         expect(parser.validate(rule!)).toBe(true);
+      test('should collect every type error in the rule', () => {
+         const { rule, errors } = parser.parse('when size > 3 and message > 2 and length contains "x" then explode');
+
+         expect(rule).toBeUndefined();
+         expect(errors.map(error => error.column)).toEqual([6, 27, 42, 60]);
+      });
+
+      test('should reject invalid regular expressions', () => {
+         expect(parser.parse('when message matches "(" then flag').errors[0].message).toContain('Invalid regular expression');
       });
 
-      test('should invalidate rule with invalid field', () => {
-         const rule = {
-            conditions: [{ field: 'invalid_field', operator: 'contains', value: 'test' }],
-            action: 'delete',
-            logic: 'and' as const
-         };
+      test('should handle case insensitivity', () => {
+         expect(parse('WHEN MESSAGE CONTAINS "test" THEN DELETE').action).toEqual({ type: 'delete' });
+      });
+
+      test('should parse action parameters', () => {
+         expect(parse('when length > 500 then mute for 10m').action).toEqual({ type: 'mute', durationMs: 600000 });
+         expect(parse('when user equals "troll" then ban for 1d').action).toEqual({ type: 'ban', durationMs: 86400000 });
+         expect(parse('when message contains "idiot" then warn "Please keep it civil"').action)
+            .toEqual({ type: 'warn', message: 'Please keep it civil' });
+         expect(parse('when message contains "crypto" then flag \'Possible scam\'').action)
+            .toEqual({ type: 'flag', message: 'Possible scam' });
+      });
 
-         expect(parser.validate(rule)).toBe(false);
+      test('should parse activity and account fields', () => {
+         expect(parse('when messages_last(10s) > 5 then mute for 1m').condition).toEqual(
+            { kind: 'comparison', field: 'messages_last', windowMs: 10000, operator: '>', value: 5 }
+         );
+         expect(parse('when User.Warnings >= 2 and caps_ratio > 0.7 then flag').condition).toEqual({
+            kind: 'and',
+            left: { kind: 'comparison', field: 'user.warnings', operator: '>=', value: 2 },
+            right: { kind: 'comparison', field: 'caps_ratio', operator: '>', value: 0.7 }
+         });
+         expect(parse('when user.account_age < 1d then flag').condition).toEqual(
+            { kind: 'comparison', field: 'user.account_age', operator: '<', value: 86400000 }
+         );
       });
 
-      test('should invalidate rule with invalid action', () => {
-         const rule = {
-            conditions: [{ field: 'message', operator: 'contains', value: 'test' }],
-            action: 'invalid_action',
-            logic: 'and' as const
-         };
+      test('should report malformed activity fields and durations', () => {
+         expect(parser.parse('when messages_last > 5 then warn').errors[0])
+            .toMatchObject({ column: 20, message: expect.stringContaining("Expected '('") });
+         expect(parser.parse('when messages_last(1h) > 5 then warn').errors[0])
+            .toMatchObject({ column: 20, message: 'messages_last can look back at most 10m' });
+         expect(parser.parse('when user.account_age < 7 then flag').errors[0].message)
+            .toBe("'user.account_age' is a duration, so compare it with a duration such as 1d");
+         expect(parser.parse('when link_count > 1d then flag').errors[0].message)
+            .toBe("'link_count' is a number, so compare it with a number");
+      });
 
-         expect(parser.validate(rule)).toBe(false);
+      test('should reject invalid action parameters', () => {
+         expect(parser.parse('when length > 5 then mute for 10x').errors[0])
+            .toMatchObject({ line: 1, column: 31, message: expect.stringContaining('duration') });
+         expect(parser.parse('when length > 5 then mute for').errors).toHaveLength(1);
+         expect(parser.parse('when length > 5 then delete "why"').errors).toHaveLength(1);
       });
    });
 });
@@ -102,27 +161,27 @@ describe('ModerationRuleEngine', () => {
 
    describe('addRule()', () => {
       test('should add valid rule', () => {
-         const success = engine.addRule({
+         const errors = engine.addRule({
             id: 'rule1',
             name: 'Spam Detection',
             condition: 'when message contains "spam" then delete',
-            action: 'delete',
             enabled: true
          });
 
-         expect(success).toBe(true);
+         expect(errors).toEqual([]);
+         expect(engine.getRule('rule1')).toBeDefined();
       });
 
       test('should reject invalid rule', () => {
-         const success = engine.addRule({
+         const errors = engine.addRule({
             id: 'rule1',
             name: 'Invalid Rule',
             condition: 'invalid syntax',
-            action: 'delete',
             enabled: true
          });
 
-         expect(success).toBe(false);
+         expect(errors).toEqual([expect.objectContaining({ line: 1, column: 1 })]);
+         expect(engine.getRule('rule1')).toBeUndefined();
       });
    });
 
@@ -132,7 +191,6 @@ describe('ModerationRuleEngine', () => {
             id: 'spam-rule',
             name: 'Spam Detection',
             condition: 'when message contains "spam" then delete',
-            action: 'delete',
             enabled: true
          });
 
@@ -146,7 +204,6 @@ describe('ModerationRuleEngine', () => {
             id: 'length-rule',
             name: 'Length Check',
             condition: 'when word_count > 5 then warn',
-            action: 'warn',
             enabled: true
          });
 
@@ -160,7 +217,6 @@ describe('ModerationRuleEngine', () => {
             id: 'disabled-rule',
             name: 'Disabled',
             condition: 'when message contains "test" then delete',
-            action: 'delete',
             enabled: false
          });
 
@@ -174,7 +230,6 @@ describe('ModerationRuleEngine', () => {
             id: 'and-rule',
             name: 'AND Test',
             condition: 'when message contains "bad" and word_count > 2 then flag',
-            action: 'flag',
             enabled: true
          });
 
@@ -190,7 +245,6 @@ describe('ModerationRuleEngine', () => {
             id: 'or-rule',
             name: 'OR Test',
             condition: 'when message contains "spam" or message contains "scam" then delete',
-            action: 'delete',
             enabled: true
          });
 
@@ -209,7 +263,6 @@ describe('ModerationRuleEngine', () => {
             id: 'user-rule',
             name: 'User Check',
             condition: 'when user equals "baduser" then ban',
-            action: 'ban',
             enabled: true
          });
 
@@ -217,6 +270,103 @@ describe('ModerationRuleEngine', () => {
 
          expect(actions).toContain('ban');
       });
+
+      test('should evaluate mixed logic with grouping and negation', () => {
+         engine.addRule({
+            id: 'mixed-rule',
+            name: 'Mixed',
+            condition: 'when (message contains "buy" or message contains "sell") and not user equals "admin" then flag',
+            enabled: true
+         });
+
+         expect(engine.evaluate('Buy now', 'user1')).toEqual(['flag']);
+         expect(engine.evaluate('sell sell', 'admin')).toEqual([]);
+         expect(engine.evaluate('hello', 'user1')).toEqual([]);
+      });
+
+      test('should match quoted values containing keywords', () => {
+         engine.addRule({
+            id: 'phrase-rule',
+            name: 'Phrase',
+            condition: 'when message contains "cash and prizes" then delete',
+            enabled: true
+         });
+
+         expect(engine.evaluate('Win CASH AND PRIZES today', 'user1')).toEqual(['delete']);
+         expect(engine.evaluate('cash, no prizes', 'user1')).toEqual([]);
+      });
+   });
+
+   describe('match()', () => {
+      test('should report each matching rule with its action parameters', () => {
+         engine.addRule({ id: 'r1', name: 'Mute', condition: 'when message contains "spam" then mute for 10m', enabled: true });
+         engine.addRule({ id: 'r2', name: 'Warn', condition: 'when length > 3 then warn "Too long"', enabled: true });
+         engine.addRule({ id: 'r3', name: 'Flag', condition: 'when user equals "admin" then flag', enabled: true });
+
+         expect(engine.match('spam here', 'user1')).toEqual([
+            { ruleId: 'r1', action: { type: 'mute', durationMs: 600000 } },
+            { ruleId: 'r2', action: { type: 'warn', message: 'Too long' } }
+         ]);
+      });
+   });
+
+   describe('activity and account fields', () => {
+      let tracker: ActivityTracker;
+      let accounts: AccountRepository;
+      const start = 1700000000000;
+
+      beforeEach(() => {
+         tracker = new ActivityTracker();
+         accounts = new AccountRepository();
+         engine = new ModerationRuleEngine(tracker, accounts);
+      });
+
+      function send(text: string, at: number, username: string = 'user1'): string[] {
+         tracker.recordMessage(username, text, at);
+         return engine.evaluate(text, username, at);
+      }
+
+      test('should count messages in a sliding window', () => {
+         engine.addRule({ id: 'r1', name: 'Flood', condition: 'when messages_last(10s) > 3 then mute for 1m', enabled: true });
+
+         expect([0, 1000, 2000].map(offset => send(`m${offset}`, start + offset))).toEqual([[], [], []]);
+         expect(send('again', start + 3000)).toEqual(['mute']);
+         expect(send('later', start + 20000)).toEqual([]);
+      });
+
+      test('should count repeated messages', () => {
+         engine.addRule({ id: 'r1', name: 'Repeat', condition: 'when duplicate_count >= 3 then delete', enabled: true });
+
+         send('Buy now', start);
+         send('buy   now', start + 1000);
+         expect(send('BUY NOW', start + 2000)).toEqual(['delete']);
+         expect(send('buy now', start + 2000, 'user2')).toEqual([]);
+      });
+
+      test('should look up warnings and account age', () => {
+         engine.addRule({ id: 'r1', name: 'Warned', condition: 'when user.warnings >= 2 then mute', enabled: true });
+         engine.addRule({ id: 'r2', name: 'New', condition: 'when user.account_age < 1d and link_count > 0 then flag', enabled: true });
+         accounts.register('veteran', 'password123');
+         const later = Date.now() + 2 * 24 * 60 * 60 * 1000;
+
+         tracker.recordWarning('user1', start);
+         tracker.recordWarning('user1', start + 1000);
+         expect(engine.evaluate('hello', 'user1', start + 2000)).toEqual(['mute']);
+         expect(engine.evaluate('see https://example.com', 'guest', later)).toEqual(['flag']);
+         expect(engine.evaluate('see https://example.com', 'veteran', later)).toEqual([]);
+      });
+
+      test('should measure capitals, links and mentions', () => {
+         engine.addRule({ id: 'r1', name: 'Caps', condition: 'when caps_ratio > 0.8 and length > 5 then warn', enabled: true });
+         engine.addRule({ id: 'r2', name: 'Links', condition: 'when link_count >= 2 then flag', enabled: true });
+         engine.addRule({ id: 'r3', name: 'Mentions', condition: 'when mention_count > 2 then delete', enabled: true });
+
+         expect(engine.evaluate('STOP SHOUTING!!', 'user1')).toEqual(['warn']);
+         expect(engine.evaluate('Stop Shouting', 'user1')).toEqual([]);
+         expect(engine.evaluate('see www.a.com and http://b.org', 'user1')).toEqual(['flag']);
+         expect(engine.evaluate('@a @b @c hi', 'user1')).toEqual(['delete']);
+         expect(engine.evaluate('mail me at a@b.com @a @b', 'user1')).toEqual([]);
+      });
    });
 
    describe('toggleRule()', () => {
@@ -225,7 +375,6 @@ describe('ModerationRuleEngine', () => {
             id: 'toggle-rule',
             name: 'Toggle Test',
             condition: 'when message contains "test" then warn',
-            action: 'warn',
             enabled: true
          });
 
@@ -245,7 +394,6 @@ describe('ModerationRuleEngine', () => {
             id: 'remove-rule',
             name: 'Remove Test',
             condition: 'when message contains "test" then delete',
-            action: 'delete',
             enabled: true
          });
 
@@ -0,0 +1,71 @@
+/**
+ * Unit Tests for the Permission Model
+ * Tests default role grants and room overrides
+ */
+
+import { PermissionMatrix, isRole } from '../src/utils/permissions';
+
+describe('PermissionMatrix', () => {
+   let matrix: PermissionMatrix;
+
+   beforeEach(() => {
+      matrix = new PermissionMatrix();
+   });
+
+   describe('can() - default grants', () => {
+      test('should let moderators delete others but not ban', () => {
+         expect(matrix.can('moderator', 'delete-others')).toBe(true);
+         expect(matrix.can('moderator', 'mute')).toBe(true);
+         expect(matrix.can('moderator', 'ban')).toBe(false);
+      });
+
+      test('should let moderators but not users view restricted edit histories', () => {
+         expect(matrix.can('moderator', 'view-history')).toBe(true);
+         expect(matrix.can('user', 'view-history')).toBe(false);
+      });
+
+      test('should give admins every permission', () => {
+         for (const permission of ['edit-others', 'delete-others', 'restore-messages', 'mute', 'ban', 'pin', 'review-queue', 'view-history', 'manage-rules', 'manage-roles', 'manage-rooms'] as const) {
+            expect(matrix.can('admin', permission)).toBe(true);
+         }
+      });
+
+      test('should treat a missing role as a regular user', () => {
+         expect(matrix.can(undefined, 'mute')).toBe(false);
+      });
+   });
+
+   describe('room overrides', () => {
+      test('should apply an override only in its room', () => {
+         matrix.setRoomOverride('room1', 'ban', ['admin', 'moderator']);
+
+         expect(matrix.can('moderator', 'ban', 'room1')).toBe(true);
+         expect(matrix.can('moderator', 'ban', 'room2')).toBe(false);
+      });
+
+      test('should be able to revoke a default grant in a room', () => {
+         matrix.setRoomOverride('room1', 'mute', ['admin']);
+
+         expect(matrix.can('moderator', 'mute', 'room1')).toBe(false);
+      });
+
+      test('should restore defaults when cleared', () => {
+         matrix.setRoomOverride('room1', 'mute', ['admin']);
+         matrix.clearRoomOverride('room1');
+
+         expect(matrix.can('moderator', 'mute', 'room1')).toBe(true);
+      });
+
+      test('should enforce precondition: valid roles', () => {
+         expect(() => matrix.setRoomOverride('room1', 'mute', ['owner' as any]))
+            .toThrow('Precondition violated: invalid role owner');
+      });
+   });
+
+   describe('isRole()', () => {
+      test('should recognise only the three roles', () => {
+         expect(isRole('moderator')).toBe(true);
+         expect(isRole('owner')).toBe(false);
+      });
+   });
+});
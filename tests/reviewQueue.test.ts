@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for Review Queue ADT
+ * Tests item states, assignment, notes, report limits and persistence
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConflictError, NotFoundError, RateLimitedError } from '../src/utils/errors';
+import { MAX_REPORTS_PER_WINDOW, REPORT_WINDOW_MS, ReviewQueue } from '../src/utils/reviewQueue';
+
+function report(messageId: string, reportedBy: string = 'alice') {
+   return { room: 'room1', messageId, author: 'troll', text: 'buy cheap crypto', reason: 'spam', reportedBy };
+}
+
+describe('ReviewQueue', () => {
+   let queue: ReviewQueue;
+
+   beforeEach(() => {
+      queue = new ReviewQueue();
+   });
+
+   afterEach(() => {
+      jest.restoreAllMocks();
+   });
+
+   describe('add()', () => {
+      test('should add open items with increasing numbers', () => {
+         const first = queue.add(report('m1'));
+         const second = queue.add(report('m2'));
+
+         expect(first).toMatchObject({ id: '1', status: 'open', notes: [] });
+         expect(second.id).toBe('2');
+         expect(first.assignee).toBeUndefined();
+      });
+
+      test('should reject items without a reason', () => {
+         expect(() => queue.add({ ...report('m1'), reason: '' })).toThrow('Precondition violated');
+      });
+   });
+
+   describe('getItems()', () => {
+      test("should list a room's items oldest first, by status", () => {
+         const first = queue.add(report('m1'));
+         queue.add({ ...report('m2'), room: 'room2' });
+         const third = queue.add(report('m3'));
+         queue.resolve(first.id, 'dismiss', 'mod1');
+
+         expect(queue.getItems('room1').map(item => item.id)).toEqual([first.id, third.id]);
+         expect(queue.getItems('room1', 'open')).toEqual([third]);
+         expect(queue.getItems('room1', 'dismissed').map(item => item.id)).toEqual([first.id]);
+      });
+   });
+
+   describe('report()', () => {
+      test('should refuse a second open report of a message by the same user', () => {
+         queue.report(report('m1'));
+
+         expect(() => queue.report(report('m1'))).toThrow(ConflictError);
+         expect(queue.report(report('m1', 'bob')).reportedBy).toBe('bob');
+      });
+
+      test('should limit how often a user reports', () => {
+         const start = Date.now();
+         const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+         for (let i = 0; i < MAX_REPORTS_PER_WINDOW; i++) {
+            queue.report(report(`m${i}`));
+         }
+
+         now.mockReturnValue(start + 1000);
+         let error: unknown;
+         try {
+            queue.report(report('another'));
+         } catch (caught) {
+            error = caught;
+         }
+         expect(error).toBeInstanceOf(RateLimitedError);
+         expect((error as RateLimitedError).retryAfterMs).toBe(REPORT_WINDOW_MS - 1000);
+
+         now.mockReturnValue(start + REPORT_WINDOW_MS + 1);
+         expect(queue.report(report('another')).status).toBe('open');
+      });
+   });
+
+   describe('assign() / addNote()', () => {
+      test('should assign open items and add notes', () => {
+         const item = queue.add(report('m1'));
+
+         queue.assign(item.id, 'mod1');
+         queue.assign(item.id, 'mod2');
+         queue.addNote(item.id, 'mod2', 'second time this week');
+
+         expect(queue.getItem(item.id)).toMatchObject({
+            assignee: 'mod2',
+            notes: [{ author: 'mod2', text: 'second time this week' }]
+         });
+      });
+
+      test('should not assign closed or unknown items', () => {
+         const item = queue.add(report('m1'));
+         queue.resolve(item.id, 'delete', 'mod1');
+
+         expect(() => queue.assign(item.id, 'mod1')).toThrow(ConflictError);
+         expect(() => queue.assign('99', 'mod1')).toThrow(NotFoundError);
+         expect(queue.addNote(item.id, 'mod1', 'done').notes.length).toBe(1);
+      });
+   });
+
+   describe('resolve()', () => {
+      test('should dismiss or action items once', () => {
+         const dismissed = queue.resolve(queue.add(report('m1')).id, 'dismiss', 'mod1');
+         const actioned = queue.resolve(queue.add(report('m2')).id, 'mute', 'mod1');
+
+         expect(dismissed).toMatchObject({ status: 'dismissed', resolution: 'dismiss', resolvedBy: 'mod1' });
+         expect(actioned).toMatchObject({ status: 'actioned', resolution: 'mute' });
+         expect(actioned.resolvedAt).toBeDefined();
+         expect(() => queue.resolve(actioned.id, 'ban', 'mod2')).toThrow('already actioned');
+      });
+   });
+
+   describe('persistence', () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'review-queue-'));
+      });
+
+      afterEach(() => {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      test('should keep items and numbering across restarts', () => {
+         const filePath = path.join(tempDir, 'review-queue.json');
+         const first = new ReviewQueue(filePath);
+         const item = first.add(report('m1'));
+         first.assign(item.id, 'mod1');
+
+         const reloaded = new ReviewQueue(filePath);
+         expect(reloaded.getItem(item.id)).toEqual(item);
+         expect(reloaded.add(report('m2')).id).toBe('2');
+      });
+   });
+});
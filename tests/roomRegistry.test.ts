@@ -0,0 +1,227 @@
+/**
+ * Unit Tests for Room Registry ADT
+ * Tests room creation, settings, join checks and persistence
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RoomRegistry, DEFAULT_ROOMS, DEFAULT_UNDO_WINDOW_MS, toRoomSummary } from '../src/utils/rooms';
+
+describe('RoomRegistry', () => {
+   let registry: RoomRegistry;
+
+   beforeEach(() => {
+      registry = new RoomRegistry(undefined, []);
+   });
+
+   describe('constructor', () => {
+      test('should seed the default rooms', () => {
+         const seeded = new RoomRegistry();
+
+         expect(seeded.listRooms().map(room => room.name)).toEqual(DEFAULT_ROOMS.map(room => room.name));
+         expect(seeded.getRoom('Room-1')!.displayName).toBe('General Chat');
+         expect(seeded.getRoom('Room-1')!.createdBy).toBe('system');
+      });
+   });
+
+   describe('createRoom()', () => {
+      test('should create a public room with its metadata', () => {
+         const { error, room } = registry.createRoom('book-club', 'alice', { topic: 'Monthly reads' });
+
+         expect(error).toBeUndefined();
+         expect(room).toMatchObject({
+            name: 'book-club',
+            displayName: 'book-club',
+            topic: 'Monthly reads',
+            createdBy: 'alice',
+            visibility: 'public',
+            invited: []
+         });
+         expect(room!.passwordHash).toBeUndefined();
+      });
+
+      test('should reject invalid and duplicate names', () => {
+         registry.createRoom('lobby', 'alice');
+
+         expect(registry.createRoom('LOBBY', 'bob').error).toContain('already exists');
+         expect(registry.createRoom('has space', 'bob').error).toBeDefined();
+         expect(registry.createRoom('dm:alice:bob', 'bob').error).toBeDefined();
+      });
+
+      test('should reject invalid options', () => {
+         expect(registry.createRoom('a', 'alice', { password: 'abc' }).error).toContain('password');
+         expect(registry.createRoom('b', 'alice', { maxMembers: 0 }).error).toContain('limit');
+         expect(registry.createRoom('c', 'alice', { topic: 'x'.repeat(201) }).error).toContain('Topic');
+      });
+
+      test('should look rooms up case-insensitively', () => {
+         registry.createRoom('Lobby', 'alice');
+
+         expect(registry.getRoom('lobby')!.name).toBe('Lobby');
+      });
+   });
+
+   describe('settings', () => {
+      beforeEach(() => {
+         registry.createRoom('lobby', 'alice');
+      });
+
+      test('should update the topic and display name', () => {
+         registry.setTopic('lobby', '  Release planning ');
+         registry.setDisplayName('lobby', 'The Lobby');
+
+         expect(registry.getRoom('lobby')).toMatchObject({ topic: 'Release planning', displayName: 'The Lobby' });
+      });
+
+      test('should set and clear a member limit', () => {
+         registry.setMaxMembers('lobby', 5);
+         expect(registry.getRoom('lobby')!.maxMembers).toBe(5);
+
+         registry.setMaxMembers('lobby', undefined);
+         expect(registry.getRoom('lobby')!.maxMembers).toBeUndefined();
+      });
+
+      test('should set the undo window, defaulting to five minutes', () => {
+         expect(registry.getUndoWindow('lobby')).toBe(DEFAULT_UNDO_WINDOW_MS);
+
+         registry.setUndoWindow('lobby', 0);
+         expect(registry.getUndoWindow('lobby')).toBe(0);
+
+         expect(registry.setUndoWindow('lobby', 2 * 24 * 60 * 60 * 1000).error).toContain('between 0 and 1 day');
+         expect(registry.getUndoWindow('nowhere')).toBe(0);
+      });
+
+      test('should set and validate the edit policy', () => {
+         expect(registry.getEditPolicy('lobby')).toEqual({});
+
+         registry.setEditPolicy('lobby', { editWindowMs: 15 * 60 * 1000, maxEdits: 3, lockReplied: true });
+         expect(registry.getEditPolicy('lobby')).toEqual({ editWindowMs: 15 * 60 * 1000, maxEdits: 3, lockReplied: true });
+
+         registry.setEditPolicy('lobby', { ...registry.getEditPolicy('lobby'), maxEdits: undefined });
+         expect(registry.getEditPolicy('lobby')).not.toHaveProperty('maxEdits');
+
+         expect(registry.setEditPolicy('lobby', { maxEdits: -1 }).error).toContain('Edit limits');
+         expect(registry.setEditPolicy('lobby', { deleteWindowMs: 0 }).error).toContain('windows');
+      });
+
+      test('should not store duplicate invites', () => {
+         registry.invite('lobby', 'bob');
+         registry.invite('lobby', 'BOB');
+
+         expect(registry.getRoom('lobby')!.invited).toEqual(['bob']);
+      });
+
+      test('should report unknown rooms', () => {
+         expect(registry.setTopic('nowhere', 'hi').error).toContain('does not exist');
+      });
+
+      test('should list only public rooms', () => {
+         registry.createRoom('secret', 'alice', { visibility: 'private' });
+
+         expect(registry.listPublicRooms().map(room => room.name)).toEqual(['lobby']);
+      });
+   });
+
+   describe('checkJoin()', () => {
+      test('should reject unknown rooms', () => {
+         expect(registry.checkJoin('nowhere', 'bob', { memberCount: 0 })).toContain('does not exist');
+      });
+
+      test('should require the password', () => {
+         registry.createRoom('vault', 'alice', { password: 'open-sesame' });
+
+         expect(registry.checkJoin('vault', 'bob', { memberCount: 0 })).toContain('requires a password');
+         expect(registry.checkJoin('vault', 'bob', { memberCount: 0, password: 'wrong' })).toBe('Incorrect room password');
+         expect(registry.checkJoin('vault', 'bob', { memberCount: 0, password: 'open-sesame' })).toBeUndefined();
+      });
+
+      test('should admit only invited users to invite-only rooms', () => {
+         registry.createRoom('club', 'alice', { visibility: 'invite-only' });
+
+         expect(registry.checkJoin('club', 'bob', { memberCount: 0 })).toContain('invite-only');
+
+         registry.invite('club', 'Bob');
+         expect(registry.checkJoin('club', 'bob', { memberCount: 0 })).toBeUndefined();
+      });
+
+      test('should refuse joins once the room is full', () => {
+         registry.createRoom('small', 'alice', { maxMembers: 2 });
+
+         expect(registry.checkJoin('small', 'bob', { memberCount: 1 })).toBeUndefined();
+         expect(registry.checkJoin('small', 'bob', { memberCount: 2 })).toContain('full');
+      });
+
+      test('should let the creator and managers bypass restrictions', () => {
+         registry.createRoom('club', 'alice', { visibility: 'invite-only', password: 'open-sesame', maxMembers: 1 });
+
+         expect(registry.checkJoin('club', 'Alice', { memberCount: 1 })).toBeUndefined();
+         expect(registry.checkJoin('club', 'carol', { memberCount: 1, bypass: true })).toBeUndefined();
+      });
+   });
+
+   describe('canViewHistory()', () => {
+      beforeEach(() => {
+         registry.createRoom('lobby', 'alice');
+      });
+
+      test('should show histories to everyone by default', () => {
+         expect(registry.canViewHistory('lobby', 'carol', 'bob', false)).toBe(true);
+      });
+
+      test('should limit histories to authors', () => {
+         registry.setHistoryVisibility('lobby', 'author');
+
+         expect(registry.canViewHistory('lobby', 'Bob', 'bob', false)).toBe(true);
+         expect(registry.canViewHistory('lobby', 'carol', 'bob', true)).toBe(false);
+      });
+
+      test('should limit histories to authors and moderators', () => {
+         registry.setHistoryVisibility('lobby', 'moderators');
+
+         expect(registry.canViewHistory('lobby', 'bob', 'bob', false)).toBe(true);
+         expect(registry.canViewHistory('lobby', 'mod', 'bob', true)).toBe(true);
+         expect(registry.canViewHistory('lobby', 'carol', 'bob', false)).toBe(false);
+      });
+
+      test('should reject invalid settings and unknown rooms', () => {
+         expect(() => registry.setHistoryVisibility('lobby', 'nobody' as any)).toThrow('Precondition violated');
+         expect(registry.canViewHistory('nowhere', 'bob', 'bob', true)).toBe(false);
+      });
+   });
+
+   describe('toRoomSummary()', () => {
+      test('should hide the password hash', () => {
+         const { room } = registry.createRoom('vault', 'alice', { password: 'open-sesame' });
+         const summary = toRoomSummary(room!, 3);
+
+         expect(summary).toMatchObject({ name: 'vault', hasPassword: true, memberCount: 3 });
+         expect(JSON.stringify(summary)).not.toContain(room!.passwordHash!);
+      });
+   });
+
+   describe('persistence', () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rooms-'));
+      });
+
+      afterEach(() => {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      test('should persist rooms and settings across restarts', () => {
+         const filePath = path.join(tempDir, 'rooms.json');
+         const original = new RoomRegistry(filePath);
+         original.createRoom('vault', 'alice', { password: 'open-sesame' });
+         original.setTopic('Room-1', 'Say hi');
+
+         const restarted = new RoomRegistry(filePath);
+
+         expect(restarted.listRooms()).toHaveLength(DEFAULT_ROOMS.length + 1);
+         expect(restarted.getRoom('Room-1')!.topic).toBe('Say hi');
+         expect(restarted.checkJoin('vault', 'bob', { memberCount: 0, password: 'open-sesame' })).toBeUndefined();
+      });
+   });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for Sanction Repository ADT
+ * Tests room-scoped and global bans/mutes, expiry and persistence
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SanctionRepository, parseDuration, formatDuration } from '../src/utils/sanctions';
+
+describe('parseDuration() / formatDuration()', () => {
+   test('should parse each unit', () => {
+      expect(parseDuration('30s')).toBe(30 * 1000);
+      expect(parseDuration('10m')).toBe(10 * 60 * 1000);
+      expect(parseDuration('2h')).toBe(2 * 60 * 60 * 1000);
+      expect(parseDuration('1D')).toBe(24 * 60 * 60 * 1000);
+   });
+
+   test('should reject malformed or zero durations', () => {
+      expect(parseDuration('10')).toBeNull();
+      expect(parseDuration('m')).toBeNull();
+      expect(parseDuration('1.5h')).toBeNull();
+      expect(parseDuration('0m')).toBeNull();
+   });
+
+   test('should format with the largest whole unit', () => {
+      expect(formatDuration(10 * 60 * 1000)).toBe('10m');
+      expect(formatDuration(90 * 1000)).toBe('90s');
+      expect(formatDuration(48 * 60 * 60 * 1000)).toBe('2d');
+   });
+});
+
+describe('SanctionRepository', () => {
+   let repository: SanctionRepository;
+
+   beforeEach(() => {
+      repository = new SanctionRepository();
+   });
+
+   afterEach(() => {
+      repository.clear();
+   });
+
+   describe('addSanction()', () => {
+      test('should record reason, issuer and creation time', () => {
+         const sanction = repository.addSanction({
+            type: 'ban', username: 'troll', room: 'room1', reason: 'Spam', issuedBy: 'admin'
+         });
+
+         expect(sanction.reason).toBe('Spam');
+         expect(sanction.issuedBy).toBe('admin');
+         expect(sanction.createdAt).toBeLessThanOrEqual(Date.now());
+         expect(sanction.expiresAt).toBeUndefined();
+      });
+
+      test('should replace a sanction with the same scope', () => {
+         repository.addSanction({ type: 'mute', username: 'troll', room: 'room1', issuedBy: 'mod1' });
+         repository.addSanction({ type: 'mute', username: 'TROLL', room: 'room1', issuedBy: 'mod2' });
+
+         expect(repository.getSanctions('troll').length).toBe(1);
+         expect(repository.getSanctions('troll')[0].issuedBy).toBe('mod2');
+      });
+
+      test('should enforce precondition: positive duration', () => {
+         expect(() => repository.addSanction({
+            type: 'mute', username: 'troll', issuedBy: 'mod', durationMs: 0
+         })).toThrow('Precondition violated: duration must be positive');
+      });
+   });
+
+   describe('scope', () => {
+      test('should apply room-scoped sanctions only in that room', () => {
+         repository.addSanction({ type: 'ban', username: 'troll', room: 'room1', issuedBy: 'admin' });
+
+         expect(repository.isBanned('troll', 'room1')).toBe(true);
+         expect(repository.isBanned('troll', 'room2')).toBe(false);
+      });
+
+      test('should apply global sanctions in every room', () => {
+         repository.addSanction({ type: 'mute', username: 'troll', issuedBy: 'admin' });
+
+         expect(repository.isMuted('Troll', 'room1')).toBe(true);
+         expect(repository.isMuted('troll', 'room2')).toBe(true);
+      });
+
+      test('should lift only the sanction with the exact scope', () => {
+         repository.addSanction({ type: 'mute', username: 'troll', issuedBy: 'admin' });
+         repository.addSanction({ type: 'mute', username: 'troll', room: 'room1', issuedBy: 'admin' });
+
+         expect(repository.removeSanction('mute', 'troll', 'room1')).toBeDefined();
+         expect(repository.isMuted('troll', 'room1')).toBe(true); // Global mute still applies
+      });
+
+      test('should return undefined when lifting a missing sanction', () => {
+         expect(repository.removeSanction('ban', 'nobody', 'room1')).toBeUndefined();
+      });
+   });
+
+   describe('expiry', () => {
+      test('should treat a timed sanction as inactive once expired', () => {
+         const sanction = repository.addSanction({
+            type: 'mute', username: 'troll', room: 'room1', issuedBy: 'mod', durationMs: 60 * 1000
+         });
+
+         expect(repository.getActiveSanction('mute', 'troll', 'room1', sanction.expiresAt! - 1)).toBeDefined();
+         expect(repository.getActiveSanction('mute', 'troll', 'room1', sanction.expiresAt!)).toBeUndefined();
+      });
+
+      test('should remove and return expired sanctions', () => {
+         const timed = repository.addSanction({
+            type: 'mute', username: 'troll', room: 'room1', issuedBy: 'mod', durationMs: 1000
+         });
+         repository.addSanction({ type: 'ban', username: 'spammer', room: 'room1', issuedBy: 'admin' });
+
+         const expired = repository.expireSanctions(timed.expiresAt!);
+
+         expect(expired.map(s => s.username)).toEqual(['troll']);
+         expect(repository.getSanctions().length).toBe(1);
+      });
+   });
+
+   describe('persistence', () => {
+      let tempDir: string;
+
+      beforeEach(() => {
+         tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sanctions-'));
+      });
+
+      afterEach(() => {
+         fs.rmSync(tempDir, { recursive: true, force: true });
+      });
+
+      test('should keep sanctions across restarts', () => {
+         const filePath = path.join(tempDir, 'sanctions.json');
+         new SanctionRepository(filePath).addSanction({
+            type: 'ban', username: 'troll', room: 'room1', reason: 'Spam', issuedBy: 'admin'
+         });
+
+         const restarted = new SanctionRepository(filePath);
+
+         expect(restarted.isBanned('troll', 'room1')).toBe(true);
+         expect(restarted.getSanctions('troll')[0].reason).toBe('Spam');
+      });
+   });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for Search Index ADT
+ * Tests query parsing, matching, ranking and snippets
+ */
+
+import { SearchIndex, IndexedMessage, parseSearchQuery, tokenize } from '../src/utils/searchIndex';
+import { SearchQuery } from '../src/types/index';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MAY_1 = Date.UTC(2024, 4, 1);
+
+function query(raw: string): SearchQuery {
+   const { query: parsed, error } = parseSearchQuery(raw);
+   if (!parsed) {
+      throw new Error(error);
+   }
+   return parsed;
+}
+
+describe('tokenize()', () => {
+   test('should split on punctuation and lowercase', () => {
+      expect(tokenize("Deploy's DONE, v2-beta!")).toEqual(['deploy', 's', 'done', 'v2', 'beta']);
+   });
+});
+
+describe('parseSearchQuery()', () => {
+   test('should parse words, phrases and negation', () => {
+      expect(query('deploy "release notes" -draft').clauses).toEqual([
+         { kind: 'term', value: 'deploy', negated: false },
+         { kind: 'phrase', tokens: ['release', 'notes'], negated: false },
+         { kind: 'term', value: 'draft', negated: true }
+      ]);
+   });
+
+   test('should parse filters', () => {
+      expect(query('from:@Alice after:2024-05-01 before:2024-05-03 in:thread:m1 -has:edits').clauses).toEqual([
+         { kind: 'from', username: 'Alice', negated: false },
+         { kind: 'after', timestamp: MAY_1, negated: false },
+         { kind: 'before', timestamp: MAY_1 + 2 * DAY, negated: false },
+         { kind: 'thread', messageId: 'm1', negated: false },
+         { kind: 'has-edits', negated: true }
+      ]);
+   });
+
+   test('should treat unknown operators as words', () => {
+      expect(query('http://example').clauses).toEqual([
+         { kind: 'phrase', tokens: ['http', 'example'], negated: false }
+      ]);
+   });
+
+   test('should reject invalid filters', () => {
+      expect(parseSearchQuery('after:soon').error).toContain('not a valid date');
+      expect(parseSearchQuery('in:room').error).toContain('in:thread:<id>');
+      expect(parseSearchQuery('has:pictures').error).toContain('has:edits');
+   });
+
+   test('should reject queries with nothing to look for', () => {
+      expect(parseSearchQuery('').error).toBeDefined();
+      expect(parseSearchQuery('-spam').error).toBeDefined();
+   });
+});
+
+describe('SearchIndex', () => {
+   let index: SearchIndex;
+   const parents: Record<string, string> = {};
+
+   function add(message: Partial<IndexedMessage> & { id: string; text: string }): void {
+      index.add({ room: 'room1', username: 'alice', sentAt: MAY_1, edited: false, ...message });
+   }
+
+   function ids(raw: string, room: string = 'room1'): string[] {
+      return index.search(room, query(raw), 10).matches.map(match => match.messageId);
+   }
+
+   beforeEach(() => {
+      index = new SearchIndex(id => parents[id]);
+   });
+
+   test('should require every word and exclude negated ones', () => {
+      add({ id: 'm1', text: 'deploy to staging' });
+      add({ id: 'm2', text: 'deploy to production' });
+
+      expect(ids('deploy').sort()).toEqual(['m1', 'm2']);
+      expect(ids('deploy -staging')).toEqual(['m2']);
+      expect(ids('deploy rollback')).toEqual([]);
+   });
+
+   test('should match phrases only when the words are adjacent', () => {
+      add({ id: 'm1', text: 'the release notes are ready' });
+      add({ id: 'm2', text: 'notes for the release' });
+
+      expect(ids('"release notes"')).toEqual(['m1']);
+   });
+
+   test('should filter by author, date and edits', () => {
+      add({ id: 'm1', text: 'hello', username: 'Alice', sentAt: MAY_1 });
+      add({ id: 'm2', text: 'hello', username: 'bob', sentAt: MAY_1 + 2 * DAY, edited: true });
+
+      expect(ids('hello from:alice')).toEqual(['m1']);
+      expect(ids('hello after:2024-05-02')).toEqual(['m2']);
+      expect(ids('hello before:2024-05-02')).toEqual(['m1']);
+      expect(ids('has:edits')).toEqual(['m2']);
+   });
+
+   test('should find replies at any depth in a thread', () => {
+      parents.r1 = 'root';
+      parents.r2 = 'r1';
+      add({ id: 'root', text: 'plan' });
+      add({ id: 'r1', text: 'plan a' });
+      add({ id: 'r2', text: 'plan b' });
+      add({ id: 'other', text: 'plan c' });
+
+      expect(ids('plan in:thread:root').sort()).toEqual(['r1', 'r2', 'root']);
+      expect(ids('plan in:thread:r1').sort()).toEqual(['r1', 'r2']);
+   });
+
+   test('should only search the given room', () => {
+      add({ id: 'm1', text: 'hello' });
+      add({ id: 'm2', text: 'hello', room: 'room2' });
+
+      expect(ids('hello', 'room2')).toEqual(['m2']);
+   });
+
+   test('should rank rarer and repeated words higher, then newer messages', () => {
+      add({ id: 'common', text: 'bug report', sentAt: MAY_1 });
+      add({ id: 'rare', text: 'bug crash', sentAt: MAY_1 });
+      add({ id: 'repeat', text: 'crash crash crash bug', sentAt: MAY_1 });
+      add({ id: 'newer', text: 'bug report', sentAt: MAY_1 + DAY });
+
+      expect(ids('bug crash')).toEqual(['repeat', 'rare']);
+      expect(ids('bug report')).toEqual(['newer', 'common']);
+   });
+
+   test('should reflect updates and removals', () => {
+      add({ id: 'm1', text: 'old words' });
+      add({ id: 'm1', text: 'new words' });
+
+      expect(ids('old')).toEqual([]);
+      expect(ids('new')).toEqual(['m1']);
+
+      expect(index.remove('m1')).toBe(true);
+      expect(ids('words')).toEqual([]);
+      expect(index.size).toBe(0);
+   });
+
+   test('should move a re-added message to its new room', () => {
+      add({ id: 'm1', text: 'hello' });
+      add({ id: 'm1', text: 'hello again', room: 'room2' });
+
+      expect(ids('hello')).toEqual([]);
+      expect(ids('hello', 'room2')).toEqual(['m1']);
+      expect(index.remove('m2')).toBe(false);
+   });
+
+   test('should report the total and cut snippets around the first match', () => {
+      const filler = 'lorem ipsum '.repeat(10);
+      add({ id: 'm1', text: `${filler}the deploy finished ${filler}` });
+      add({ id: 'm2', text: 'deploy' });
+
+      const { matches, total } = index.search('room1', query('deploy'), 1);
+
+      expect(total).toBe(2);
+      expect(matches).toHaveLength(1);
+      const snippet = index.search('room1', query('finished'), 10).matches[0].snippet;
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('the deploy finished');
+   });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for Typing Tracker ADT
+ * Tests start/stop, expiry and summary formatting
+ */
+
+import { TypingTracker, formatTypingSummary } from '../src/utils/typing';
+
+describe('formatTypingSummary()', () => {
+   test('should name up to three typers', () => {
+      expect(formatTypingSummary([])).toBe('');
+      expect(formatTypingSummary(['alice'])).toBe('alice is typing');
+      expect(formatTypingSummary(['alice', 'bob'])).toBe('alice and bob are typing');
+      expect(formatTypingSummary(['alice', 'bob', 'carol'])).toBe('alice, bob and carol are typing');
+   });
+
+   test('should collapse larger groups', () => {
+      expect(formatTypingSummary(['a', 'b', 'c', 'd'])).toBe('Several people are typing');
+   });
+});
+
+describe('TypingTracker', () => {
+   let tracker: TypingTracker;
+
+   beforeEach(() => {
+      tracker = new TypingTracker(1000);
+   });
+
+   describe('start() / stop()', () => {
+      test('should report a change only when a user starts typing', () => {
+         expect(tracker.start('room1', 'alice', 0)).toBe(true);
+         expect(tracker.start('room1', 'Alice', 500)).toBe(false); // Refresh
+         expect(tracker.getTypingUsers('room1', 500)).toEqual(['Alice']);
+      });
+
+      test('should keep rooms separate', () => {
+         tracker.start('room1', 'alice', 0);
+
+         expect(tracker.getTypingUsers('room2', 0)).toEqual([]);
+      });
+
+      test('should report a change only when a typer stops', () => {
+         tracker.start('room1', 'alice', 0);
+
+         expect(tracker.stop('room1', 'ALICE')).toBe(true);
+         expect(tracker.stop('room1', 'alice')).toBe(false);
+      });
+
+      test('should enforce precondition: non-empty room and username', () => {
+         expect(() => tracker.start('', 'alice')).toThrow('Precondition violated');
+      });
+   });
+
+   describe('expiry', () => {
+      test('should hide typers once their refresh lapses', () => {
+         tracker.start('room1', 'alice', 0);
+
+         expect(tracker.getTypingUsers('room1', 999)).toEqual(['alice']);
+         expect(tracker.getTypingUsers('room1', 1000)).toEqual([]);
+      });
+
+      test('should extend expiry on refresh', () => {
+         tracker.start('room1', 'alice', 0);
+         tracker.start('room1', 'alice', 800);
+
+         expect(tracker.expire(1500)).toEqual([]);
+         expect(tracker.getTypingUsers('room1', 1500)).toEqual(['alice']);
+      });
+
+      test('should remove expired typers and return changed rooms', () => {
+         tracker.start('room1', 'alice', 0);
+         tracker.start('room2', 'bob', 600);
+
+         expect(tracker.expire(1000)).toEqual(['room1']);
+         expect(tracker.getTypingUsers('room2', 1000)).toEqual(['bob']);
+      });
+
+      test('should treat a start after expiry as a change', () => {
+         tracker.start('room1', 'alice', 0);
+
+         expect(tracker.start('room1', 'alice', 2000)).toBe(true);
+      });
+   });
+});
@@ -4,6 +4,8 @@
  */
 
 import { userRepository, UserRepository } from '../src/utils/users';
+import { SanctionRepository } from '../src/utils/sanctions';
+import { ConflictError, ForbiddenError } from '../src/utils/errors';
 
 describe('UserRepository', () => {
    let repository: UserRepository;
@@ -18,31 +20,27 @@ describe('UserRepository', () => {
 
    describe('userJoin() - Specification Testing', () => {
       test('should add user successfully', () => {
-         const result = repository.userJoin('socket1', 'user1', 'room1');
+         const user = repository.userJoin('socket1', 'user1', 'room1');
 
-         expect(result.error).toBeUndefined();
-         expect(result.user).toBeDefined();
-         expect(result.user!.id).toBe('socket1');
-         expect(result.user!.username).toBe('user1');
-         expect(result.user!.room).toBe('room1');
+         expect(user.id).toBe('socket1');
+         expect(user.username).toBe('user1');
+         expect(user.room).toBe('room1');
       });
 
       test('should prevent duplicate usernames (case-insensitive)', () => {
          repository.userJoin('socket1', 'TestUser', 'room1');
-         const result = repository.userJoin('socket2', 'testuser', 'room1');
+         const join = () => repository.userJoin('socket2', 'testuser', 'room1');
 
-         expect(result.error).toBe('Username is already taken');
-         expect(result.user).toBeUndefined();
+         expect(join).toThrow(ConflictError);
+         expect(join).toThrow(expect.objectContaining({ message: 'Username is already taken', field: 'username' }));
+         expect(repository.getCurrentUser('socket2')).toBeUndefined();
       });
 
       test('should allow same username in different rooms after first user leaves', () => {
          repository.userJoin('socket1', 'user1', 'room1');
          repository.userLeave('socket1');
          
-         const result = repository.userJoin('socket2', 'user1', 'room2');
-
-         expect(result.error).toBeUndefined();
-         expect(result.user).toBeDefined();
+         expect(repository.userJoin('socket2', 'user1', 'room2').id).toBe('socket2');
       });
 
       test('should enforce precondition: id non-empty', () => {
@@ -64,17 +62,17 @@ describe('UserRepository', () => {
       });
 
       test('should set default role to user', () => {
-         const result = repository.userJoin('socket1', 'user1', 'room1');
+         const user = repository.userJoin('socket1', 'user1', 'room1');
 
-         expect(result.user!.role).toBe('user');
-         expect(result.user!.muted).toBe(false);
-         expect(result.user!.banned).toBe(false);
+         expect(user.role).toBe('user');
+         expect(user.muted).toBe(false);
+         expect(user.banned).toBe(false);
       });
 
       test('should allow setting custom role', () => {
-         const result = repository.userJoin('socket1', 'admin1', 'room1', 'admin');
+         const user = repository.userJoin('socket1', 'admin1', 'room1', 'admin');
 
-         expect(result.user!.role).toBe('admin');
+         expect(user.role).toBe('admin');
       });
    });
 
@@ -148,6 +146,19 @@ describe('UserRepository', () => {
       });
    });
 
+   describe('setUserRole()', () => {
+      test('should change the role of a connected user', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+
+         expect(repository.setUserRole('USER1', 'moderator')).toBe(true);
+         expect(repository.getCurrentUser('socket1')!.role).toBe('moderator');
+      });
+
+      test('should return false for non-existent user', () => {
+         expect(repository.setUserRole('nonexistent', 'admin')).toBe(false);
+      });
+   });
+
    describe('banUser()', () => {
       test('should ban user successfully', () => {
          repository.userJoin('socket1', 'user1', 'room1');
@@ -166,6 +177,38 @@ describe('UserRepository', () => {
       });
    });
 
+   describe('Persistent sanctions on join', () => {
+      let sanctions: SanctionRepository;
+
+      beforeEach(() => {
+         sanctions = new SanctionRepository();
+         repository = new UserRepository(sanctions);
+      });
+
+      test('should reject a user banned from the room after reconnecting', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         sanctions.addSanction({ type: 'ban', username: 'user1', room: 'room1', issuedBy: 'admin' });
+         repository.userLeave('socket1');
+
+         expect(() => repository.userJoin('socket2', 'user1', 'room1'))
+            .toThrow(new ForbiddenError('You are banned from this room'));
+      });
+
+      test('should let a room-banned user join other rooms', () => {
+         sanctions.addSanction({ type: 'ban', username: 'user1', room: 'room1', issuedBy: 'admin' });
+
+         expect(repository.userJoin('socket1', 'user1', 'room2').room).toBe('room2');
+      });
+
+      test('should restore the muted flag on join', () => {
+         sanctions.addSanction({ type: 'mute', username: 'User1', issuedBy: 'admin' });
+
+         const user = repository.userJoin('socket1', 'user1', 'room1');
+
+         expect(user.muted).toBe(true);
+      });
+   });
+
    describe('userLeave()', () => {
       test('should remove user successfully', () => {
          repository.userJoin('socket1', 'user1', 'room1');
@@ -183,8 +226,7 @@ describe('UserRepository', () => {
          repository.userJoin('socket1', 'user1', 'room1');
          repository.userLeave('socket1');
 
-         const result = repository.userJoin('socket2', 'user1', 'room1');
-         expect(result.error).toBeUndefined();
+         expect(() => repository.userJoin('socket2', 'user1', 'room1')).not.toThrow();
       });
 
       test('should return undefined for non-existent socket', () => {
@@ -212,6 +254,73 @@ describe('UserRepository', () => {
 
          expect(users).toEqual([]);
       });
+
+      test('should include members whose active room is elsewhere', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         repository.switchRoom('socket1', 'room2');
+
+         expect(repository.getRoomUsers('room1').map(u => u.username)).toEqual(['user1']);
+         expect(repository.getRoomUsers('room2').map(u => u.username)).toEqual(['user1']);
+      });
+   });
+
+   describe('switchRoom() / leaveRoom()', () => {
+      test('should add the room and make it active', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         const user = repository.switchRoom('socket1', 'room2');
+
+         expect(user.room).toBe('room2');
+         expect(user.rooms).toEqual(['room1', 'room2']);
+      });
+
+      test('should switch back without duplicating the room', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         repository.switchRoom('socket1', 'room2');
+         const user = repository.switchRoom('socket1', 'room1');
+
+         expect(user.room).toBe('room1');
+         expect(user.rooms).toEqual(['room1', 'room2']);
+      });
+
+      test('should make the most recently joined room active after leaving the active one', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         repository.switchRoom('socket1', 'room2');
+         repository.switchRoom('socket1', 'room3');
+         const user = repository.leaveRoom('socket1', 'room3');
+
+         expect(user.room).toBe('room2');
+         expect(repository.getRoomUsers('room3')).toEqual([]);
+      });
+
+      test('should refuse to leave the only room or a room the user is not in', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+
+         expect(() => repository.leaveRoom('socket1', 'room1'))
+            .toThrow(new ConflictError('You cannot leave your only room'));
+         expect(() => repository.leaveRoom('socket1', 'room2'))
+            .toThrow(new ConflictError('You are not in room2'));
+      });
+
+      test('should remove the user from every room on disconnect', () => {
+         repository.userJoin('socket1', 'user1', 'room1');
+         repository.switchRoom('socket1', 'room2');
+         repository.userLeave('socket1');
+
+         expect(repository.getRoomUsers('room1')).toEqual([]);
+         expect(repository.getRoomUsers('room2')).toEqual([]);
+      });
+
+      test('should apply the sanctions of the new room', () => {
+         const sanctions = new SanctionRepository();
+         repository = new UserRepository(sanctions);
+         sanctions.addSanction({ type: 'mute', username: 'user1', room: 'room2', issuedBy: 'admin' });
+         sanctions.addSanction({ type: 'ban', username: 'user1', room: 'room3', issuedBy: 'admin' });
+         repository.userJoin('socket1', 'user1', 'room1');
+
+         expect(repository.switchRoom('socket1', 'room2').muted).toBe(true);
+         expect(() => repository.switchRoom('socket1', 'room3')).toThrow(ForbiddenError);
+         expect(repository.switchRoom('socket1', 'room1').muted).toBe(false);
+      });
    });
 
    describe('Invariant Testing', () => {
@@ -225,9 +334,7 @@ describe('UserRepository', () => {
 
       test('should maintain unique usernames', () => {
          repository.userJoin('socket1', 'user1', 'room1');
-         const result = repository.userJoin('socket2', 'user1', 'room1');
-
-         expect(result.error).toBeDefined();
+         expect(() => repository.userJoin('socket2', 'user1', 'room1')).toThrow(ConflictError);
       });
 
       test('should maintain room non-empty invariant', () => {
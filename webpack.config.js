@@ -2,9 +2,12 @@ const path = require('path');
 
 module.exports = {
   mode: 'production',
-  entry: './public/js/script.ts',
+  entry: {
+    script: './public/js/script.ts',
+    login: './public/js/login.ts',
+  },
   output: {
-    filename: 'script.js',
+    filename: '[name].js',
     path: path.resolve(__dirname, 'public/js'),
   },
   module: {